@@ -7,6 +7,7 @@ import { ThemeProvider } from "@/components/ThemeProvider";
 import { useAuth } from "@/hooks/useAuth";
 import { DesktopNav } from "@/components/DesktopNav";
 import { MobileNav } from "@/components/MobileNav";
+import { AccountRestrictionBanner } from "@/components/AccountRestrictionBanner";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/Landing";
 import Home from "@/pages/Home";
@@ -18,6 +19,11 @@ import Profile from "@/pages/Profile";
 import MyTrips from "@/pages/MyTrips";
 import MyBookings from "@/pages/MyBookings";
 import BookingDetails from "@/pages/BookingDetails";
+import Earnings from "@/pages/Earnings";
+import Referrals from "@/pages/Referrals";
+import VerificationQueue from "@/pages/VerificationQueue";
+import AdminModeration from "@/pages/AdminModeration";
+import AdminPromotions from "@/pages/AdminPromotions";
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
@@ -25,6 +31,7 @@ function Router() {
   return (
     <>
       {isAuthenticated && <DesktopNav user={user} />}
+      {user && <AccountRestrictionBanner user={user} />}
       
       <Switch>
         {isLoading || !isAuthenticated ? (
@@ -40,6 +47,11 @@ function Router() {
             <Route path="/my-trips" component={MyTrips} />
             <Route path="/my-bookings" component={MyBookings} />
             <Route path="/bookings/:id" component={BookingDetails} />
+            <Route path="/earnings" component={Earnings} />
+            <Route path="/referrals" component={Referrals} />
+            <Route path="/verifications" component={VerificationQueue} />
+            <Route path="/admin" component={AdminModeration} />
+            <Route path="/admin/promotions" component={AdminPromotions} />
           </>
         )}
         <Route component={NotFound} />
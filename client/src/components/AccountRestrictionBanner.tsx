@@ -0,0 +1,31 @@
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { ShieldAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { User } from "@shared/schema";
+
+export function AccountRestrictionBanner({ user }: { user: User }) {
+  const suspendedUntil = user.suspendedUntil ? new Date(user.suspendedUntil) : null;
+  const isBanned = user.accountStatus === "banned";
+  const isSuspended =
+    user.accountStatus === "suspended" && !!suspendedUntil && suspendedUntil > new Date();
+
+  if (!isBanned && !isSuspended) return null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 md:px-8 pt-4">
+      <Alert variant="destructive" data-testid="banner-account-restriction">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>
+          {isBanned ? "Votre compte a été banni" : "Votre compte est suspendu"}
+        </AlertTitle>
+        <AlertDescription>
+          {isBanned
+            ? "Vous ne pouvez plus utiliser ParcelLink."
+            : `Jusqu'au ${format(suspendedUntil!, "PPP 'à' HH:mm", { locale: fr })}, vous ne pouvez ni publier de voyage ni réserver. Vous pouvez terminer vos réservations en cours.`}
+          {user.restrictionReason && <> Motif : {user.restrictionReason}</>}
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Star } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import type { Review } from "@shared/schema";
+
+interface BookingReviewsResponse {
+  reviews: Review[];
+  reviewDeadline: string | null;
+  canReview: boolean;
+}
+
+interface BookingReviewsProps {
+  bookingId: string;
+  currentUserId: string;
+  otherPartyName: string;
+}
+
+function StarRating({
+  value,
+  onChange,
+  size = "h-5 w-5",
+}: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: string;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(star)}
+          className={cn(!onChange && "cursor-default")}
+          data-testid={onChange ? `button-rating-${star}` : undefined}
+        >
+          <Star
+            className={cn(
+              size,
+              star <= value ? "fill-amber-400 text-amber-400" : "text-muted-foreground"
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function BookingReviews({ bookingId, currentUserId, otherPartyName }: BookingReviewsProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const { data } = useQuery<BookingReviewsResponse>({
+    queryKey: ["/api/bookings", bookingId, "reviews"],
+  });
+
+  const submitReviewMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/reviews`, {
+        rating,
+        comment: comment.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", bookingId, "reviews"] });
+      toast({
+        title: "Merci pour votre avis !",
+        description: "Il sera visible dès que l'autre partie aura laissé le sien",
+      });
+      setRating(0);
+      setComment("");
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible d'envoyer votre avis",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!data) return null;
+
+  const myReview = data.reviews.find((review) => review.reviewerId === currentUserId);
+  const theirReview = data.reviews.find((review) => review.reviewerId !== currentUserId);
+
+  return (
+    <Card className="p-6 md:p-8 mb-6" data-testid="card-booking-reviews">
+      <h2 className="text-xl font-semibold mb-4">Avis</h2>
+
+      {data.canReview && (
+        <div className="space-y-4 mb-6">
+          <div className="space-y-2">
+            <Label>Votre note pour {otherPartyName}</Label>
+            <StarRating value={rating} onChange={setRating} size="h-7 w-7" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Commentaire (optionnel)</Label>
+            <Textarea
+              id="review-comment"
+              rows={3}
+              maxLength={1000}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              data-testid="input-review-comment"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {data.reviewDeadline && (
+              <span className="text-xs text-muted-foreground">
+                Avant le {format(new Date(data.reviewDeadline), "PPP", { locale: fr })}
+              </span>
+            )}
+            <Button
+              onClick={() => submitReviewMutation.mutate()}
+              disabled={rating === 0 || submitReviewMutation.isPending}
+              data-testid="button-submit-review"
+            >
+              {submitReviewMutation.isPending ? "Envoi..." : "Publier mon avis"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {myReview && (
+          <div className="p-4 bg-muted rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium">Votre avis</span>
+              <StarRating value={myReview.rating} size="h-4 w-4" />
+            </div>
+            {myReview.comment && <p className="text-sm">{myReview.comment}</p>}
+            {!myReview.publishedAt && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Visible dès que {otherPartyName} aura laissé son avis
+              </p>
+            )}
+          </div>
+        )}
+
+        {theirReview && (
+          <div className="p-4 bg-muted rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium">Avis de {otherPartyName}</span>
+              <StarRating value={theirReview.rating} size="h-4 w-4" />
+            </div>
+            {theirReview.comment && <p className="text-sm">{theirReview.comment}</p>}
+          </div>
+        )}
+
+        {!data.canReview && !myReview && !theirReview && (
+          <p className="text-sm text-muted-foreground">Aucun avis pour cette réservation.</p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface CancellationQuote {
+  refundPercent: number;
+  refundAmount: number;
+  hoursBeforePickup: number | null;
+  policy: "unpaid" | "not_accepted" | "traveler_cancelled" | "early" | "late";
+  canCancel: boolean;
+}
+
+interface CancelBookingDialogProps {
+  bookingId: string;
+  price: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+  isPending?: boolean;
+}
+
+const policyLabels: Record<CancellationQuote["policy"], string> = {
+  unpaid: "La réservation n'a pas été payée : aucun montant à rembourser.",
+  not_accepted: "La demande n'a pas encore été acceptée : remboursement intégral.",
+  traveler_cancelled: "Annulation par le voyageur : l'expéditeur est remboursé intégralement.",
+  early: "Annulation plus de 48h avant la remise : remboursement intégral.",
+  late: "Annulation moins de 48h avant la remise : remboursement partiel.",
+};
+
+export function CancelBookingDialog({
+  bookingId,
+  price,
+  open,
+  onOpenChange,
+  onConfirm,
+  isPending = false,
+}: CancelBookingDialogProps) {
+  const [reason, setReason] = useState("");
+
+  const { data: quote, isLoading } = useQuery<CancellationQuote>({
+    queryKey: ["/api/bookings", bookingId, "cancellation-quote"],
+    enabled: open,
+    // The refund depends on the current time, always fetch a fresh quote
+    staleTime: 0,
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Annuler la réservation</DialogTitle>
+          <DialogDescription>
+            L'autre partie sera prévenue et le poids réservé redeviendra disponible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="p-4 bg-muted rounded-lg" data-testid="cancellation-quote">
+          {isLoading || !quote ? (
+            <div className="text-sm text-muted-foreground">Calcul du remboursement...</div>
+          ) : (
+            <>
+              <div className="text-sm text-muted-foreground mb-1">Remboursement à l'expéditeur</div>
+              <div className="text-2xl font-bold" data-testid="text-refund-amount">
+                {quote.refundAmount.toFixed(2)}€
+                <span className="text-sm font-normal text-muted-foreground ml-2">
+                  sur {price.toFixed(2)}€ ({quote.refundPercent}%)
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">{policyLabels[quote.policy]}</p>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">Motif (optionnel)</Label>
+          <Textarea
+            id="cancel-reason"
+            rows={3}
+            maxLength={500}
+            placeholder="Ex : Mon voyage a changé"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-cancel-reason"
+          />
+        </div>
+
+        <DialogFooter className="gap-3 sm:gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="flex-1"
+          >
+            Retour
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => onConfirm(reason.trim())}
+            disabled={isPending || isLoading || !quote?.canCancel}
+            className="flex-1"
+            data-testid="button-confirm-cancel"
+          >
+            {isPending ? "Annulation..." : "Confirmer l'annulation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface DeclineBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+  isPending?: boolean;
+}
+
+export function DeclineBookingDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+  isPending = false,
+}: DeclineBookingDialogProps) {
+  const [reason, setReason] = useState("");
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refuser la réservation</DialogTitle>
+          <DialogDescription>
+            L'expéditeur sera prévenu et remboursé. Le poids réservé redeviendra disponible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="decline-reason">Motif (optionnel)</Label>
+          <Textarea
+            id="decline-reason"
+            rows={3}
+            maxLength={500}
+            placeholder="Ex : Je ne peux pas transporter ce type de colis"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-decline-reason"
+          />
+        </div>
+
+        <DialogFooter className="gap-3 sm:gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="flex-1"
+          >
+            Annuler
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => onConfirm(reason.trim())}
+            disabled={isPending}
+            className="flex-1"
+            data-testid="button-confirm-decline"
+          >
+            {isPending ? "Refus..." : "Refuser"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
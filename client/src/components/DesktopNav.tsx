@@ -1,4 +1,4 @@
-import { Package, MessageCircle, User, LogOut } from "lucide-react";
+import { Package, MessageCircle, User, LogOut, ShieldCheck, Flag, Wallet, Gift, Tag } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -92,6 +92,40 @@ export function DesktopNav({ user }: DesktopNavProps) {
                       Profile
                     </DropdownMenuItem>
                   </Link>
+                  <Link href="/earnings">
+                    <DropdownMenuItem data-testid="link-earnings">
+                      <Wallet className="mr-2 h-4 w-4" />
+                      Mes revenus
+                    </DropdownMenuItem>
+                  </Link>
+                  <Link href="/referrals">
+                    <DropdownMenuItem data-testid="link-referrals">
+                      <Gift className="mr-2 h-4 w-4" />
+                      Parrainage
+                    </DropdownMenuItem>
+                  </Link>
+                  {user.role === "admin" && (
+                    <>
+                      <Link href="/admin">
+                        <DropdownMenuItem data-testid="link-admin">
+                          <Flag className="mr-2 h-4 w-4" />
+                          Modération
+                        </DropdownMenuItem>
+                      </Link>
+                      <Link href="/verifications">
+                        <DropdownMenuItem data-testid="link-verifications">
+                          <ShieldCheck className="mr-2 h-4 w-4" />
+                          Vérifications
+                        </DropdownMenuItem>
+                      </Link>
+                      <Link href="/admin/promotions">
+                        <DropdownMenuItem data-testid="link-admin-promotions">
+                          <Tag className="mr-2 h-4 w-4" />
+                          Codes promo
+                        </DropdownMenuItem>
+                      </Link>
+                    </>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     onClick={() => (window.location.href = "/api/logout")}
@@ -0,0 +1,247 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Trip } from "@shared/schema";
+
+const formSchema = z.object({
+  departureDate: z.string().min(1, "La date de départ est requise"),
+  arrivalDate: z.string().min(1, "La date d'arrivée est requise"),
+  maxWeight: z.string().min(1, "Le poids maximum est requis"),
+  pricePerKg: z.string().min(1, "Le prix au kg est requis"),
+  maxDimensions: z.string(),
+  acceptedItems: z.string(),
+  restrictedItems: z.string(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface EditTripDialogProps {
+  trip: Trip;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toDateInput(value: Date | string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+export function EditTripDialog({ trip, open, onOpenChange }: EditTripDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+  });
+
+  // Start from the current trip values every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        departureDate: toDateInput(trip.departureDate),
+        arrivalDate: toDateInput(trip.arrivalDate),
+        maxWeight: String(Number(trip.maxWeight)),
+        pricePerKg: String(Number(trip.pricePerKg)),
+        maxDimensions: trip.maxDimensions || "",
+        acceptedItems: trip.acceptedItems || "",
+        restrictedItems: trip.restrictedItems || "",
+      });
+    }
+  }, [open, trip, form]);
+
+  const updateTripMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      return await apiRequest("PATCH", `/api/trips/${trip.id}`, {
+        departureDate: new Date(data.departureDate).toISOString(),
+        arrivalDate: new Date(data.arrivalDate).toISOString(),
+        maxWeight: Number(data.maxWeight),
+        pricePerKg: Number(data.pricePerKg),
+        maxDimensions: data.maxDimensions || null,
+        acceptedItems: data.acceptedItems || null,
+        restrictedItems: data.restrictedItems || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({
+        title: "Voyage modifié",
+        description: "Les modifications ont été enregistrées",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Modification impossible",
+        description: error.message || "Impossible de modifier le voyage",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifier le voyage</DialogTitle>
+          <DialogDescription>
+            Les réservations existantes conservent leur prix. Les dates doivent rester compatibles avec les rendez-vous déjà fixés.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => updateTripMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="departureDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date de départ</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-edit-departure-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="arrivalDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date d'arrivée</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-edit-arrival-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxWeight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Poids maximum (kg)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.1" {...field} data-testid="input-edit-max-weight" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pricePerKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prix par kg (€)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} data-testid="input-edit-price" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="maxDimensions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dimensions maximum</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : 50x40x30 cm" {...field} data-testid="input-edit-dimensions" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="acceptedItems"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Objets acceptés</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} data-testid="input-edit-accepted-items" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="restrictedItems"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Objets refusés</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} data-testid="input-edit-restricted-items" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-3 sm:gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="flex-1"
+              >
+                Annuler
+              </Button>
+              <Button
+                type="submit"
+                disabled={updateTripMutation.isPending}
+                className="flex-1"
+                data-testid="button-save-trip"
+              >
+                {updateTripMutation.isPending ? "Enregistrement..." : "Enregistrer"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ShieldCheck, Clock, XCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { IdentityVerification } from "@shared/schema";
+
+const ACCEPTED_TYPES = "image/jpeg,image/png,application/pdf";
+
+const documentTypeLabels: Record<IdentityVerification["documentType"], string> = {
+  passport: "Passeport",
+  id_card: "Carte d'identité",
+  driving_license: "Permis de conduire",
+};
+
+// Upload a file through a presigned URL and describe it for the API
+async function uploadFile(file: File) {
+  const urlResponse = await fetch("/api/object-storage/presigned-url", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+  });
+
+  if (!urlResponse.ok) {
+    throw new Error(`Échec pour ${file.name}`);
+  }
+
+  const { url } = await urlResponse.json();
+
+  const uploadResponse = await fetch(url, {
+    method: "PUT",
+    body: file,
+    headers: {
+      "Content-Type": file.type,
+    },
+  });
+
+  if (!uploadResponse.ok) {
+    throw new Error(`Échec du téléversement de ${file.name}`);
+  }
+
+  return {
+    url: url.split("?")[0],
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+  };
+}
+
+export function IdentityVerificationCard({ isVerified }: { isVerified: boolean }) {
+  const { toast } = useToast();
+  const [documentType, setDocumentType] =
+    useState<IdentityVerification["documentType"]>("id_card");
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [selfieFile, setSelfieFile] = useState<File | null>(null);
+
+  const { data: verification, isLoading } = useQuery<IdentityVerification | null>({
+    queryKey: ["/api/verifications/me"],
+    enabled: !isVerified,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!documentFile || !selfieFile) {
+        throw new Error("Ajoutez votre pièce d'identité et un selfie");
+      }
+      const [document, selfie] = await Promise.all([
+        uploadFile(documentFile),
+        uploadFile(selfieFile),
+      ]);
+      return await apiRequest("POST", "/api/verifications", {
+        documentType,
+        document,
+        selfie,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verifications/me"] });
+      toast({
+        title: "Demande envoyée",
+        description: "Votre identité sera vérifiée sous peu",
+      });
+      setDocumentFile(null);
+      setSelfieFile(null);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible d'envoyer la demande",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isVerified || isLoading) return null;
+
+  return (
+    <Card className="p-6 md:p-8 mb-6" data-testid="card-identity-verification">
+      <h3 className="text-xl font-semibold mb-2 flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        Vérifier mon identité
+      </h3>
+
+      {verification?.status === "pending" ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Clock className="h-4 w-4" />
+          Votre demande est en cours d'examen.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Les profils vérifiés inspirent davantage confiance. Vos documents ne sont visibles que par notre équipe de vérification.
+          </p>
+
+          {verification?.status === "rejected" && (
+            <div className="flex items-start gap-2 p-3 bg-destructive/10 rounded-lg text-sm">
+              <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+              <span>Demande précédente refusée : {verification.rejectionReason}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Type de document</Label>
+            <Select
+              value={documentType}
+              onValueChange={(value) =>
+                setDocumentType(value as IdentityVerification["documentType"])
+              }
+            >
+              <SelectTrigger data-testid="select-document-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(documentTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="identity-document">Pièce d'identité (JPG, PNG ou PDF)</Label>
+            <Input
+              id="identity-document"
+              type="file"
+              accept={ACCEPTED_TYPES}
+              onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+              data-testid="input-identity-document"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="identity-selfie">Selfie avec votre pièce d'identité</Label>
+            <Input
+              id="identity-selfie"
+              type="file"
+              accept="image/jpeg,image/png"
+              onChange={(e) => setSelfieFile(e.target.files?.[0] || null)}
+              data-testid="input-identity-selfie"
+            />
+          </div>
+
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={!documentFile || !selfieFile || submitMutation.isPending}
+            data-testid="button-submit-verification"
+          >
+            {submitMutation.isPending ? "Envoi..." : "Envoyer pour vérification"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
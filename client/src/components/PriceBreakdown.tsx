@@ -0,0 +1,85 @@
+import { cn } from "@/lib/utils";
+
+interface PriceBreakdownProps {
+  travelerEarnings: string | number;
+  serviceFee: string | number;
+  taxAmount: string | number;
+  total: string | number; // What the sender pays, after any discount
+  // Taken off the price by a promo code or the sender's credits
+  discountAmount?: string | number | null;
+  creditAmount?: string | number | null;
+  promoCode?: string | null;
+  // Shown next to the fee when known (price quotes)
+  serviceFeePercent?: number;
+  serviceFeeFixed?: string;
+  vatPercent?: number;
+  className?: string;
+}
+
+function formatAmount(amount: string | number): string {
+  return `${Number(amount).toFixed(2)}€`;
+}
+
+export function PriceBreakdown({
+  travelerEarnings,
+  serviceFee,
+  taxAmount,
+  total,
+  discountAmount,
+  creditAmount,
+  promoCode,
+  serviceFeePercent,
+  serviceFeeFixed,
+  vatPercent,
+  className,
+}: PriceBreakdownProps) {
+  const feeDetail =
+    serviceFeePercent !== undefined
+      ? ` (${serviceFeePercent}%${Number(serviceFeeFixed) > 0 ? ` + ${formatAmount(serviceFeeFixed!)}` : ""})`
+      : "";
+  const hasReductions = Number(discountAmount ?? 0) > 0 || Number(creditAmount ?? 0) > 0;
+  const subtotal = Number(travelerEarnings) + Number(serviceFee) + Number(taxAmount);
+
+  return (
+    <div className={cn("space-y-1 text-sm", className)} data-testid="price-breakdown">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Rémunération du voyageur</span>
+        <span data-testid="text-traveler-earnings">{formatAmount(travelerEarnings)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Frais de service{feeDetail}</span>
+        <span data-testid="text-service-fee">{formatAmount(serviceFee)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">
+          TVA sur les frais{vatPercent !== undefined ? ` (${vatPercent}%)` : ""}
+        </span>
+        <span data-testid="text-tax-amount">{formatAmount(taxAmount)}</span>
+      </div>
+      {hasReductions && (
+        <>
+          <div className="flex justify-between border-t pt-1">
+            <span className="text-muted-foreground">Sous-total</span>
+            <span data-testid="text-subtotal">{formatAmount(subtotal)}</span>
+          </div>
+          {Number(discountAmount ?? 0) > 0 && (
+            <div className="flex justify-between text-chart-3">
+              <span>Code promo{promoCode ? ` ${promoCode}` : ""}</span>
+              <span data-testid="text-discount-amount">-{formatAmount(discountAmount!)}</span>
+            </div>
+          )}
+          {Number(creditAmount ?? 0) > 0 && (
+            <div className="flex justify-between text-chart-3">
+              <span>Crédits de parrainage</span>
+              <span data-testid="text-credit-amount">-{formatAmount(creditAmount!)}</span>
+            </div>
+          )}
+        </>
+      )}
+      <div className="flex justify-between font-semibold border-t pt-1">
+        <span>Total</span>
+        <span data-testid="text-total-price">{formatAmount(total)}</span>
+      </div>
+    </div>
+  );
+}
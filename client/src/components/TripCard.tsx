@@ -106,6 +106,7 @@ export function TripCard({ trip, traveler }: TripCardProps) {
                 <div className="flex items-center gap-1 text-xs text-muted-foreground">
                   <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400 flex-shrink-0" />
                   <span>{Number(traveler.rating || 0).toFixed(1)}</span>
+                  <span>({traveler.reviewCount || 0})</span>
                   <span className="mx-0.5">·</span>
                   <span className="truncate">
                     {traveler.totalTripsAsTravel || 0} {(traveler.totalTripsAsTravel || 0) === 1 ? 'trip' : 'trips'}
@@ -0,0 +1,78 @@
+// Messages written while the socket is down, or not yet acknowledged by the
+// server, are kept in IndexedDB until the server confirms them. They survive
+// page reloads and are resent with the same clientMessageId, which the server
+// uses to drop duplicates.
+
+const DB_NAME = "parcellink";
+const DB_VERSION = 1;
+const STORE_NAME = "message_outbox";
+
+export interface OutboxAttachment {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface OutboxMessage {
+  clientMessageId: string;
+  senderId: string;
+  receiverId: string;
+  bookingId: string | null;
+  content: string;
+  attachments: OutboxAttachment[];
+  status: "sending" | "failed";
+  attempts: number;
+  error?: string;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "clientMessageId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getOutboxMessages(senderId: string): Promise<OutboxMessage[]> {
+  const entries = await withStore<OutboxMessage[]>("readonly", (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.senderId === senderId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveOutboxMessage(entry: OutboxMessage): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+}
+
+export async function deleteOutboxMessage(clientMessageId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientMessageId));
+}
+
+export function createClientMessageId(): string {
+  return `temp-${crypto.randomUUID()}`;
+}
@@ -0,0 +1,436 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { AlertTriangle, Ban, CheckCircle, Clock, Lock, XCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import type { Booking, Message, MessageReport, ModerationAction, User } from "@shared/schema";
+
+interface ReportWithMessage extends MessageReport {
+  message?: Message;
+  reportedUser?: User;
+}
+
+interface ReportDetails extends ReportWithMessage {
+  context: Message[];
+  reporter?: User;
+  moderationHistory: ModerationAction[];
+  booking?: Booking;
+}
+
+type ReportStatus = "pending" | "resolved" | "dismissed";
+
+const categoryLabels: Record<MessageReport["category"], string> = {
+  spam: "Spam",
+  fraud: "Fraude",
+  abuse: "Harcèlement",
+  inappropriate: "Contenu inapproprié",
+  other: "Autre",
+};
+
+const actionLabels: Record<ModerationAction["action"], string> = {
+  warning: "Avertissement",
+  suspension: "Suspension",
+  ban: "Bannissement",
+};
+
+function handleMutationError(toast: ReturnType<typeof useToast>["toast"], error: Error) {
+  if (isUnauthorizedError(error)) {
+    toast({
+      title: "Unauthorized",
+      description: "You are logged out. Logging in again...",
+      variant: "destructive",
+    });
+    setTimeout(() => {
+      window.location.href = "/api/login";
+    }, 500);
+    return;
+  }
+  toast({
+    title: "Erreur",
+    description: error.message || "Action impossible",
+    variant: "destructive",
+  });
+}
+
+function invalidateReports() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/reports"),
+  });
+}
+
+function ReportDetailsPanel({ reportId }: { reportId: string }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [reason, setReason] = useState("");
+  const [durationDays, setDurationDays] = useState("7");
+
+  const { data: report, isLoading } = useQuery<ReportDetails>({
+    queryKey: [`/api/admin/reports/${reportId}`],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (status: "resolved" | "dismissed") => {
+      return await apiRequest("POST", `/api/admin/reports/${reportId}/resolve`, {
+        status,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: (_, status) => {
+      invalidateReports();
+      toast({
+        title: status === "resolved" ? "Signalement résolu" : "Signalement classé",
+      });
+      setNote("");
+    },
+    onError: (error: Error) => handleMutationError(toast, error),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ModerationAction["action"]) => {
+      return await apiRequest("POST", `/api/admin/users/${report!.message!.senderId}/moderation`, {
+        action,
+        reason: reason.trim(),
+        durationDays: action === "suspension" ? parseInt(durationDays, 10) : null,
+        reportId,
+      });
+    },
+    onSuccess: (_, action) => {
+      invalidateReports();
+      toast({
+        title: actionLabels[action],
+        description: "L'utilisateur a été prévenu",
+      });
+      setReason("");
+    },
+    onError: (error: Error) => handleMutationError(toast, error),
+  });
+
+  const legalHoldMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      return await apiRequest("POST", `/api/admin/bookings/${report!.booking!.id}/legal-hold`, {
+        enabled,
+      });
+    },
+    onSuccess: (_, enabled) => {
+      invalidateReports();
+      toast({
+        title: enabled ? "Conservation légale activée" : "Conservation légale levée",
+      });
+    },
+    onError: (error: Error) => handleMutationError(toast, error),
+  });
+
+  if (isLoading || !report) {
+    return <Card className="p-6 text-muted-foreground">Chargement...</Card>;
+  }
+
+  const isOpen = report.status === "pending" || report.status === "reviewed";
+  const canAct = !!reason.trim() && !actionMutation.isPending;
+
+  return (
+    <Card className="p-6 space-y-6" data-testid={`report-details-${report.id}`}>
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Badge variant="outline">{categoryLabels[report.category]}</Badge>
+          {report.createdAt && (
+            <span className="text-sm text-muted-foreground">
+              {format(new Date(report.createdAt), "PPP 'à' HH:mm", { locale: fr })}
+            </span>
+          )}
+        </div>
+        <p className="text-sm">
+          Signalé par {report.reporter?.firstName} {report.reporter?.lastName}
+        </p>
+        {report.description && (
+          <p className="text-sm text-muted-foreground mt-1">« {report.description} »</p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-3">Conversation</h3>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {report.context.map((message) => (
+            <div
+              key={message.id}
+              className={cn(
+                "p-3 rounded-lg text-sm",
+                message.id === report.messageId
+                  ? "bg-destructive/10 border border-destructive"
+                  : "bg-muted"
+              )}
+              data-testid={`context-message-${message.id}`}
+            >
+              <div className="text-xs text-muted-foreground mb-1">
+                {message.senderId === report.message?.senderId
+                  ? `${report.reportedUser?.firstName ?? "Utilisateur"} (signalé)`
+                  : "Interlocuteur"}
+                {message.createdAt &&
+                  ` · ${format(new Date(message.createdAt), "dd/MM HH:mm", { locale: fr })}`}
+              </div>
+              {message.content}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {report.booking && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {report.booking.legalHold
+              ? "Les messages de cette réservation sont conservés au-delà de leur durée de rétention."
+              : "Les messages de cette réservation seront supprimés à l'expiration de leur durée de rétention."}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => legalHoldMutation.mutate(!report.booking!.legalHold)}
+            disabled={legalHoldMutation.isPending}
+            data-testid="button-toggle-legal-hold"
+          >
+            <Lock className="h-4 w-4 mr-2" />
+            {report.booking.legalHold ? "Lever la conservation" : "Conserver les messages"}
+          </Button>
+        </div>
+      )}
+
+      {report.moderationHistory.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-3">Historique de {report.reportedUser?.firstName}</h3>
+          <ul className="space-y-1 text-sm">
+            {report.moderationHistory.map((action) => (
+              <li key={action.id} className="text-muted-foreground">
+                {action.createdAt && format(new Date(action.createdAt), "dd/MM/yyyy", { locale: fr })}{" "}
+                · {actionLabels[action.action]} · {action.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isOpen ? (
+        <>
+          <div className="space-y-3">
+            <h3 className="font-semibold">Sanctionner {report.reportedUser?.firstName}</h3>
+            <Textarea
+              rows={2}
+              maxLength={1000}
+              placeholder="Motif communiqué à l'utilisateur"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-moderation-reason"
+            />
+            <div className="flex flex-wrap items-end gap-3">
+              <Button
+                variant="outline"
+                onClick={() => actionMutation.mutate("warning")}
+                disabled={!canAct}
+                data-testid="button-warn"
+              >
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Avertir
+              </Button>
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="suspension-days" className="text-xs">Jours</Label>
+                  <Input
+                    id="suspension-days"
+                    type="number"
+                    min={1}
+                    max={365}
+                    className="w-20"
+                    value={durationDays}
+                    onChange={(e) => setDurationDays(e.target.value)}
+                    data-testid="input-suspension-days"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => actionMutation.mutate("suspension")}
+                  disabled={!canAct || !(parseInt(durationDays, 10) >= 1)}
+                  data-testid="button-suspend"
+                >
+                  <Clock className="h-4 w-4 mr-2" />
+                  Suspendre
+                </Button>
+              </div>
+              <Button
+                variant="destructive"
+                onClick={() => actionMutation.mutate("ban")}
+                disabled={!canAct}
+                data-testid="button-ban"
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Bannir
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold">Clôturer le signalement</h3>
+            <Textarea
+              rows={2}
+              maxLength={1000}
+              placeholder="Note interne (optionnelle)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-resolution-note"
+            />
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => resolveMutation.mutate("dismissed")}
+                disabled={resolveMutation.isPending}
+                data-testid="button-dismiss-report"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Classer sans suite
+              </Button>
+              <Button
+                onClick={() => resolveMutation.mutate("resolved")}
+                disabled={resolveMutation.isPending}
+                data-testid="button-resolve-report"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Résoudre
+              </Button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {report.status === "resolved" ? "Résolu" : "Classé sans suite"}
+          {report.reviewedAt &&
+            ` le ${format(new Date(report.reviewedAt), "PPP", { locale: fr })}`}
+          {report.resolutionNote && ` · ${report.resolutionNote}`}
+        </p>
+      )}
+    </Card>
+  );
+}
+
+export default function AdminModeration() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<ReportStatus>("pending");
+  const [category, setCategory] = useState<string>("all");
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ status });
+  if (category !== "all") params.set("category", category);
+
+  const { data: reports, isLoading } = useQuery<ReportWithMessage[]>({
+    queryKey: [`/api/admin/reports?${params.toString()}`],
+    enabled: user?.role === "admin",
+  });
+
+  if (user?.role !== "admin") {
+    return (
+      <div className="flex items-center justify-center min-h-screen pb-20 md:pb-8">
+        <div className="text-muted-foreground">Accès réservé aux administrateurs</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20 md:pb-8">
+      <div className="max-w-7xl mx-auto px-4 md:px-8 py-8 md:py-12">
+        <h1 className="text-3xl md:text-4xl font-semibold mb-8">Modération</h1>
+
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <Tabs
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as ReportStatus);
+              setSelectedReportId(null);
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="pending" data-testid="tab-reports-pending">En attente</TabsTrigger>
+              <TabsTrigger value="resolved" data-testid="tab-reports-resolved">Résolus</TabsTrigger>
+              <TabsTrigger value="dismissed" data-testid="tab-reports-dismissed">Classés</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-56" data-testid="select-report-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Toutes les catégories</SelectItem>
+              {Object.entries(categoryLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="text-muted-foreground">Chargement...</div>
+            ) : !reports || reports.length === 0 ? (
+              <Card className="p-12 text-center text-muted-foreground">Aucun signalement</Card>
+            ) : (
+              reports.map((report) => (
+                <Card
+                  key={report.id}
+                  className={cn(
+                    "p-4 cursor-pointer hover-elevate",
+                    selectedReportId === report.id && "border-primary"
+                  )}
+                  onClick={() => setSelectedReportId(report.id)}
+                  data-testid={`report-${report.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <Badge variant="outline">{categoryLabels[report.category]}</Badge>
+                    {report.createdAt && (
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(report.createdAt), "dd/MM/yyyy HH:mm", { locale: fr })}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm font-medium">
+                    {report.reportedUser?.firstName} {report.reportedUser?.lastName}
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    {report.message?.content ?? "Message supprimé"}
+                  </p>
+                </Card>
+              ))
+            )}
+          </div>
+
+          <div>
+            {selectedReportId ? (
+              <ReportDetailsPanel key={selectedReportId} reportId={selectedReportId} />
+            ) : (
+              <Card className="p-12 text-center text-muted-foreground">
+                Sélectionnez un signalement
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
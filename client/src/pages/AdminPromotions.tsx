@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Tag } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { PromoCode } from "@shared/schema";
+
+interface PromoCodeWithUsage extends PromoCode {
+  uses: number;
+}
+
+const emptyForm = {
+  code: "",
+  description: "",
+  discountType: "percent" as PromoCode["discountType"],
+  discountValue: "",
+  minOrderAmount: "",
+  startsAt: "",
+  endsAt: "",
+  maxUses: "",
+  perUserLimit: "1",
+};
+
+// Empty optional fields are sent as null
+function optionalNumber(value: string): number | null {
+  return value.trim() ? Number(value) : null;
+}
+
+function optionalDate(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function formatDate(date: string | Date): string {
+  return format(new Date(date), "d MMM yyyy HH:mm", { locale: fr });
+}
+
+export default function AdminPromotions() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: promoCodes, isLoading } = useQuery<PromoCodeWithUsage[]>({
+    queryKey: ["/api/admin/promo-codes"],
+    enabled: user?.role === "admin",
+  });
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erreur",
+      description: error.message || "Impossible de traiter la demande",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/promo-codes", {
+        code: form.code.trim(),
+        description: form.description.trim() || null,
+        discountType: form.discountType,
+        discountValue: Number(form.discountValue),
+        minOrderAmount: optionalNumber(form.minOrderAmount),
+        startsAt: optionalDate(form.startsAt),
+        endsAt: optionalDate(form.endsAt),
+        maxUses: optionalNumber(form.maxUses),
+        perUserLimit: Number(form.perUserLimit) || 1,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      toast({
+        title: "Code promo créé",
+        description: `${form.code.trim().toUpperCase()} est utilisable dès sa date de début`,
+      });
+      setForm(emptyForm);
+    },
+    onError: handleError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PATCH", `/api/admin/promo-codes/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+    },
+    onError: handleError,
+  });
+
+  if (user?.role !== "admin") {
+    return (
+      <div className="flex items-center justify-center min-h-screen pb-20 md:pb-8">
+        <div className="text-muted-foreground">Accès réservé aux administrateurs</div>
+      </div>
+    );
+  }
+
+  const setField = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  return (
+    <div className="pb-20 md:pb-8">
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8 md:py-12">
+        <h1 className="text-3xl md:text-4xl font-semibold mb-8">Codes promo</h1>
+
+        <Card className="p-6 md:p-8 mb-6">
+          <h3 className="text-xl font-semibold mb-6">Nouveau code</h3>
+          <form
+            className="grid grid-cols-1 md:grid-cols-2 gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                placeholder="BIENVENUE10"
+                value={form.code}
+                onChange={setField("code")}
+                data-testid="input-promo-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-description">Description</Label>
+              <Input
+                id="promo-description"
+                placeholder="Offre de lancement"
+                value={form.description}
+                onChange={setField("description")}
+                data-testid="input-promo-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type de réduction</Label>
+              <Select
+                value={form.discountType}
+                onValueChange={(value) =>
+                  setForm({ ...form, discountType: value as PromoCode["discountType"] })
+                }
+              >
+                <SelectTrigger data-testid="select-promo-discount-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Pourcentage</SelectItem>
+                  <SelectItem value="fixed">Montant fixe (€)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-value">
+                Valeur {form.discountType === "percent" ? "(%)" : "(€)"}
+              </Label>
+              <Input
+                id="promo-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.discountValue}
+                onChange={setField("discountValue")}
+                data-testid="input-promo-value"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-min-order">Commande minimum (€)</Label>
+              <Input
+                id="promo-min-order"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Aucune"
+                value={form.minOrderAmount}
+                onChange={setField("minOrderAmount")}
+                data-testid="input-promo-min-order"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-max-uses">Utilisations maximum</Label>
+              <Input
+                id="promo-max-uses"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Illimité"
+                value={form.maxUses}
+                onChange={setField("maxUses")}
+                data-testid="input-promo-max-uses"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-per-user">Utilisations par utilisateur</Label>
+              <Input
+                id="promo-per-user"
+                type="number"
+                min="1"
+                step="1"
+                value={form.perUserLimit}
+                onChange={setField("perUserLimit")}
+                data-testid="input-promo-per-user"
+              />
+            </div>
+            <div className="hidden md:block" />
+            <div className="space-y-2">
+              <Label htmlFor="promo-starts-at">Début de validité</Label>
+              <Input
+                id="promo-starts-at"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={setField("startsAt")}
+                data-testid="input-promo-starts-at"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-ends-at">Fin de validité</Label>
+              <Input
+                id="promo-ends-at"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={setField("endsAt")}
+                data-testid="input-promo-ends-at"
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <Button
+                type="submit"
+                disabled={!form.code.trim() || !(Number(form.discountValue) > 0) || createMutation.isPending}
+                data-testid="button-create-promo-code"
+              >
+                <Tag className="h-4 w-4 mr-2" />
+                Créer le code
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Chargement...</div>
+        ) : !promoCodes || promoCodes.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">Aucun code promo</Card>
+        ) : (
+          <div className="space-y-4">
+            {promoCodes.map((promoCode) => (
+              <Card key={promoCode.id} className="p-6" data-testid={`card-promo-code-${promoCode.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-mono font-semibold">{promoCode.code}</span>
+                      <Badge variant="outline">
+                        {promoCode.discountType === "percent"
+                          ? `-${Number(promoCode.discountValue)}%`
+                          : `-${Number(promoCode.discountValue).toFixed(2)}€`}
+                      </Badge>
+                    </div>
+                    {promoCode.description && (
+                      <p className="text-sm text-muted-foreground mb-2">{promoCode.description}</p>
+                    )}
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <div>
+                        Utilisations : {promoCode.uses}
+                        {promoCode.maxUses !== null ? ` / ${promoCode.maxUses}` : ""} · {promoCode.perUserLimit} par
+                        utilisateur
+                      </div>
+                      {promoCode.minOrderAmount !== null && (
+                        <div>Commande minimum : {Number(promoCode.minOrderAmount).toFixed(2)}€</div>
+                      )}
+                      {(promoCode.startsAt || promoCode.endsAt) && (
+                        <div>
+                          {promoCode.startsAt && `Du ${formatDate(promoCode.startsAt)} `}
+                          {promoCode.endsAt && `jusqu'au ${formatDate(promoCode.endsAt)}`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">
+                      {promoCode.isActive ? "Actif" : "Désactivé"}
+                    </span>
+                    <Switch
+                      checked={promoCode.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: promoCode.id, isActive })}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-promo-code-${promoCode.id}`}
+                    />
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
   History,
   Download,
   Bell,
+  XCircle,
 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -41,11 +42,16 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { DeclineBookingDialog } from "@/components/DeclineBookingDialog";
+import { CancelBookingDialog } from "@/components/CancelBookingDialog";
+import { BookingReviews } from "@/components/BookingReviews";
+import { PriceBreakdown } from "@/components/PriceBreakdown";
 import type { Booking, Trip, User } from "@shared/schema";
 
 interface BookingWithDetails extends Booking {
   trip?: Trip & { traveler?: User };
   sender?: User;
+  allowedTransitions?: Booking["status"][];
 }
 
 const statusSteps = [
@@ -60,11 +66,14 @@ const statusSteps = [
 export default function BookingDetails() {
   const [, params] = useRoute("/bookings/:id");
   const bookingId = params?.id;
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
   const [showPinDialog, setShowPinDialog] = useState(false);
   const [pin, setPin] = useState("");
   const [historyOpen, setHistoryOpen] = useState(false);
+  const [showDeclineDialog, setShowDeclineDialog] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -184,6 +193,136 @@ export default function BookingDetails() {
     },
   });
 
+  const acceptBookingMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/accept`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", bookingId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({
+        title: "Réservation acceptée",
+        description: "L'expéditeur a été prévenu",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible d'accepter la réservation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineBookingMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/decline`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", bookingId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({
+        title: "Réservation refusée",
+        description: "L'expéditeur a été prévenu et sera remboursé",
+      });
+      setShowDeclineDialog(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible de refuser la réservation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async (status: "in_transit" | "arrived") => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/status`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", bookingId] });
+      toast({
+        title: "Statut mis à jour",
+        description: "L'expéditeur a été prévenu",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible de mettre à jour le statut",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelBookingMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings", bookingId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({
+        title: "Réservation annulée",
+        description: "L'autre partie a été prévenue",
+      });
+      setShowCancelDialog(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible d'annuler la réservation",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading || authLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen pb-20 md:pb-8">
@@ -230,6 +369,11 @@ export default function BookingDetails() {
     window.open(`/api/bookings/${bookingId}/calendar/${type}`, "_blank");
   };
 
+  // Sender's receipt or traveler's invoice (PDF)
+  const downloadDocument = (type: "receipt" | "invoice") => {
+    window.open(`/api/bookings/${bookingId}/${type}.pdf`, "_blank");
+  };
+
   // Helper function to get reminders for appointment type
   const getRemindersForType = (type: "pickup" | "delivery") => {
     if (!reminders) return [];
@@ -286,11 +430,161 @@ export default function BookingDetails() {
                   : ""
               )}
             >
-              Payment: {booking.escrowStatus}
+              Payment: {booking.escrowStatus.replace("_", " ")}
             </Badge>
+
+            {booking.moderationFlaggedAt && (
+              <Badge variant="outline" className="text-destructive border-destructive">
+                Signalée à la modération
+              </Badge>
+            )}
           </div>
+
+          {booking.serviceFee !== null && (
+            <PriceBreakdown
+              travelerEarnings={booking.travelerEarnings ?? 0}
+              serviceFee={booking.serviceFee}
+              taxAmount={booking.taxAmount ?? 0}
+              discountAmount={booking.discountAmount}
+              creditAmount={booking.creditAmount}
+              total={booking.price}
+              className="mt-6 pt-4 border-t"
+            />
+          )}
+
+          {booking.escrowStatus !== "payment_pending" && (isSender || isTraveler) && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={() => downloadDocument(isSender ? "receipt" : "invoice")}
+              data-testid={`button-download-${isSender ? "receipt" : "invoice"}`}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isSender ? "Télécharger le reçu" : "Télécharger la facture"}
+            </Button>
+          )}
         </Card>
 
+        {/* Booking Request Response */}
+        {booking.status === "pending" && (
+          <Card className="p-6 md:p-8 mb-6" data-testid="card-booking-request">
+            <div className="flex items-center gap-2 mb-2">
+              <Clock className="h-5 w-5 text-primary" />
+              <h2 className="text-xl font-semibold">Demande de réservation</h2>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              {isTraveler
+                ? "Vérifiez les détails du colis avant d'accepter cette demande."
+                : "Le voyageur doit accepter votre demande avant la remise du colis."}
+              {booking.responseDeadline && (
+                <>
+                  {" "}Réponse attendue avant le{" "}
+                  {format(new Date(booking.responseDeadline), "PPP 'à' HH:mm", { locale: fr })}.
+                </>
+              )}
+            </p>
+            {isTraveler && (
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  variant="outline"
+                  className="flex-1 min-h-11"
+                  onClick={() => setShowDeclineDialog(true)}
+                  disabled={acceptBookingMutation.isPending || declineBookingMutation.isPending}
+                  data-testid="button-decline-booking"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Refuser
+                </Button>
+                <Button
+                  className="flex-1 min-h-11"
+                  onClick={() => acceptBookingMutation.mutate()}
+                  disabled={acceptBookingMutation.isPending || declineBookingMutation.isPending}
+                  data-testid="button-accept-booking"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {acceptBookingMutation.isPending ? "Acceptation..." : "Accepter"}
+                </Button>
+              </div>
+            )}
+          </Card>
+        )}
+
+        {booking.status === "declined" && (
+          <Card className="p-6 md:p-8 mb-6 border-destructive/40" data-testid="card-booking-declined">
+            <div className="flex items-center gap-2 mb-2">
+              <XCircle className="h-5 w-5 text-destructive" />
+              <h2 className="text-xl font-semibold">Réservation refusée</h2>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {booking.declineReason || "Le voyageur a refusé cette demande."}
+            </p>
+          </Card>
+        )}
+
+        {booking.status === "cancelled" && (
+          <Card className="p-6 md:p-8 mb-6 border-destructive/40" data-testid="card-booking-cancelled">
+            <div className="flex items-center gap-2 mb-2">
+              <XCircle className="h-5 w-5 text-destructive" />
+              <h2 className="text-xl font-semibold">Réservation annulée</h2>
+            </div>
+            {booking.cancellationReason && (
+              <p className="text-sm text-muted-foreground mb-2">
+                Motif : {booking.cancellationReason}
+              </p>
+            )}
+            {booking.refundAmount && (
+              <p className="text-sm">
+                Remboursement : <span className="font-semibold">{Number(booking.refundAmount).toFixed(2)}€</span>
+                {" "}sur {Number(booking.price).toFixed(2)}€
+              </p>
+            )}
+          </Card>
+        )}
+
+        {booking.status === "delivered" && user && (isSender || isTraveler) && (
+          <BookingReviews
+            bookingId={booking.id}
+            currentUserId={user.id}
+            otherPartyName={
+              (isTraveler
+                ? booking.sender?.firstName
+                : booking.trip?.traveler?.firstName) ||
+              (isTraveler ? "l'expéditeur" : "le voyageur")
+            }
+          />
+        )}
+
+        {booking.allowedTransitions?.includes("cancelled") && (
+          <div className="flex justify-end mb-6">
+            <Button
+              variant="outline"
+              className="text-destructive"
+              onClick={() => setShowCancelDialog(true)}
+              data-testid="button-cancel-booking"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Annuler la réservation
+            </Button>
+          </div>
+        )}
+
+        <CancelBookingDialog
+          bookingId={booking.id}
+          price={Number(booking.price)}
+          open={showCancelDialog}
+          onOpenChange={setShowCancelDialog}
+          onConfirm={(reason) => cancelBookingMutation.mutate(reason)}
+          isPending={cancelBookingMutation.isPending}
+        />
+
+        <DeclineBookingDialog
+          open={showDeclineDialog}
+          onOpenChange={setShowDeclineDialog}
+          onConfirm={(reason) => declineBookingMutation.mutate(reason)}
+          isPending={declineBookingMutation.isPending}
+        />
+
         {/* Tracking Timeline */}
         <Card className="p-6 md:p-8 mb-6">
           <h2 className="text-xl font-semibold mb-6">Tracking</h2>
@@ -390,7 +684,12 @@ export default function BookingDetails() {
                 </div>
               </div>
               {isTraveler && (
-                <Button variant="outline" className="w-full">
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setLocation(`/messages?userId=${booking.senderId}&bookingId=${booking.id}`)}
+                  data-testid="button-message-sender"
+                >
                   <MessageCircle className="h-4 w-4 mr-2" />
                   Message
                 </Button>
@@ -422,7 +721,12 @@ export default function BookingDetails() {
                 </div>
               </div>
               {isSender && (
-                <Button variant="outline" className="w-full">
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setLocation(`/messages?userId=${booking.trip!.travelerId}&bookingId=${booking.id}`)}
+                  data-testid="button-message-traveler"
+                >
                   <MessageCircle className="h-4 w-4 mr-2" />
                   Message
                 </Button>
@@ -828,7 +1132,7 @@ export default function BookingDetails() {
               )}
             </div>
 
-            {isTraveler && (() => {
+            {isTraveler && !["pending", "declined", "cancelled", "delivered"].includes(booking.status) && (() => {
               // Determine which action we're about to do
               const action = booking.status === "pending" || booking.status === "confirmed"
                 ? "pickup"
@@ -851,13 +1155,37 @@ export default function BookingDetails() {
                       </p>
                     </div>
                   )}
-                  <Button
-                    onClick={() => setShowPinDialog(true)}
-                    disabled={isBlocked}
-                    data-testid="button-verify-pin"
-                  >
-                    Verify PIN & Update Status
-                  </Button>
+                  <div className="flex gap-3 flex-wrap">
+                    {booking.allowedTransitions?.includes("in_transit") && (
+                      <Button
+                        variant="outline"
+                        onClick={() => updateStatusMutation.mutate("in_transit")}
+                        disabled={updateStatusMutation.isPending}
+                        data-testid="button-status-in-transit"
+                      >
+                        <TrendingUp className="h-4 w-4 mr-2" />
+                        En transit
+                      </Button>
+                    )}
+                    {booking.allowedTransitions?.includes("arrived") && (
+                      <Button
+                        variant="outline"
+                        onClick={() => updateStatusMutation.mutate("arrived")}
+                        disabled={updateStatusMutation.isPending}
+                        data-testid="button-status-arrived"
+                      >
+                        <MapPin className="h-4 w-4 mr-2" />
+                        Arrivé à destination
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => setShowPinDialog(true)}
+                      disabled={isBlocked}
+                      data-testid="button-verify-pin"
+                    >
+                      Verify PIN & Update Status
+                    </Button>
+                  </div>
                 </div>
               );
             })()}
@@ -0,0 +1,286 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Wallet, Clock, CheckCircle2, Banknote, Package } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import type { Booking, Payout } from "@shared/schema";
+
+interface WalletBooking {
+  bookingId: string;
+  status: Booking["status"];
+  escrowStatus: Booking["escrowStatus"];
+  price: string;
+  departureCity: string;
+  destinationCity: string;
+  departureDate: string;
+  pending: string;
+  available: string;
+  paidOut: string;
+}
+
+interface WalletSummary {
+  currency: string;
+  pending: string;
+  available: string;
+  paidOut: string;
+  minimumPayout: string;
+  bookings: WalletBooking[];
+}
+
+interface PayoutWithBookings extends Payout {
+  bookings: { bookingId: string; amount: string; departureCity: string; destinationCity: string }[];
+}
+
+const payoutStatusLabels: Record<Payout["status"], string> = {
+  pending: "En cours",
+  paid: "Versé",
+  failed: "Échoué",
+};
+
+function formatAmount(amount: string | number): string {
+  return `${Number(amount).toFixed(2)}€`;
+}
+
+export default function Earnings() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: wallet, isLoading: walletLoading } = useQuery<WalletSummary>({
+    queryKey: ["/api/wallet"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: payouts } = useQuery<PayoutWithBookings[]>({
+    queryKey: ["/api/wallet/payouts"],
+    enabled: isAuthenticated,
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/wallet/payouts", {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/payouts"] });
+      toast({
+        title: "Virement demandé",
+        description: "Vos gains disponibles ont été envoyés sur votre compte",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // A failed transfer is kept in the history
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/payouts"] });
+      toast({
+        title: "Virement impossible",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (walletLoading || !wallet) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-lg text-muted-foreground">Chargement...</div>
+      </div>
+    );
+  }
+
+  const canRequestPayout = Number(wallet.available) >= Number(wallet.minimumPayout);
+
+  return (
+    <div className="pb-20 md:pb-8">
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8 md:py-12">
+        <h1 className="text-3xl md:text-4xl font-semibold mb-2">Mes revenus</h1>
+        <p className="text-muted-foreground mb-8">
+          Vos gains de voyageur, libérés à chaque livraison confirmée
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <Card className="p-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <Clock className="h-4 w-4" />
+              En attente
+            </div>
+            <div className="text-2xl font-bold" data-testid="text-wallet-pending">
+              {formatAmount(wallet.pending)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Bloqué jusqu'à la livraison, frais de service déduits
+            </p>
+          </Card>
+
+          <Card className="p-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <Wallet className="h-4 w-4" />
+              Disponible
+            </div>
+            <div className="text-2xl font-bold text-chart-3" data-testid="text-wallet-available">
+              {formatAmount(wallet.available)}
+            </div>
+            <Button
+              size="sm"
+              className="mt-3 w-full"
+              onClick={() => payoutMutation.mutate()}
+              disabled={!canRequestPayout || payoutMutation.isPending}
+              data-testid="button-request-payout"
+            >
+              <Banknote className="h-4 w-4 mr-2" />
+              Demander un virement
+            </Button>
+            {!canRequestPayout && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Minimum {formatAmount(wallet.minimumPayout)} pour un virement
+              </p>
+            )}
+          </Card>
+
+          <Card className="p-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <CheckCircle2 className="h-4 w-4" />
+              Déjà versé
+            </div>
+            <div className="text-2xl font-bold" data-testid="text-wallet-paid-out">
+              {formatAmount(wallet.paidOut)}
+            </div>
+          </Card>
+        </div>
+
+        {/* Earnings per booking */}
+        <Card className="p-6 md:p-8 mb-6">
+          <h3 className="text-xl font-semibold mb-6">Détail par réservation</h3>
+
+          {wallet.bookings.length === 0 ? (
+            <div className="text-center py-6">
+              <Package className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">
+                Aucun gain pour le moment. Vos réservations payées apparaîtront ici.
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {wallet.bookings.map((booking) => (
+                <Link key={booking.bookingId} href={`/bookings/${booking.bookingId}`}>
+                  <div
+                    className="flex flex-col sm:flex-row sm:items-center gap-2 py-3 hover-elevate rounded-md px-2 cursor-pointer"
+                    data-testid={`row-wallet-booking-${booking.bookingId}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">
+                        {booking.departureCity} → {booking.destinationCity}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(booking.departureDate).toLocaleDateString("fr-FR")} · Prix{" "}
+                        {formatAmount(booking.price)}
+                      </div>
+                    </div>
+                    <div className="flex gap-4 text-sm">
+                      {Number(booking.pending) > 0 && (
+                        <span className="text-muted-foreground">
+                          En attente {formatAmount(booking.pending)}
+                        </span>
+                      )}
+                      {Number(booking.available) > 0 && (
+                        <span className="text-chart-3">
+                          Disponible {formatAmount(booking.available)}
+                        </span>
+                      )}
+                      {Number(booking.paidOut) > 0 && (
+                        <span>Versé {formatAmount(booking.paidOut)}</span>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Payout history */}
+        <Card className="p-6 md:p-8">
+          <h3 className="text-xl font-semibold mb-6">Historique des virements</h3>
+
+          {!payouts || payouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucun virement pour le moment.</p>
+          ) : (
+            <div className="space-y-4">
+              {payouts.map((payout) => (
+                <div key={payout.id} className="border rounded-md p-4" data-testid={`payout-${payout.id}`}>
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <div>
+                      <div className="font-semibold">{formatAmount(payout.amount)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {payout.createdAt &&
+                          new Date(payout.createdAt).toLocaleString("fr-FR", {
+                            day: "numeric",
+                            month: "short",
+                            year: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                      </div>
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        payout.status === "paid"
+                          ? "text-chart-3 border-chart-3"
+                          : payout.status === "failed"
+                          ? "text-destructive border-destructive"
+                          : ""
+                      )}
+                    >
+                      {payoutStatusLabels[payout.status]}
+                    </Badge>
+                  </div>
+                  {payout.status === "failed" && payout.failureReason && (
+                    <p className="text-xs text-destructive mb-2">{payout.failureReason}</p>
+                  )}
+                  <ul className="text-xs text-muted-foreground space-y-1">
+                    {payout.bookings.map((booking) => (
+                      <li key={booking.bookingId}>
+                        {booking.departureCity} → {booking.destinationCity} : {formatAmount(booking.amount)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
-import { useState, useEffect, useRef, type ChangeEvent } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useLayoutEffect, useRef, type ChangeEvent, type UIEvent } from "react";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Send, MessageCircle, Star, ArrowLeft, Paperclip, ChevronDown, ChevronUp, MapPin, Calendar, Weight, X, FileText, Image as ImageIcon } from "lucide-react";
+import { Send, Search, MessageCircle, Star, ArrowLeft, Paperclip, ChevronDown, ChevronUp, MapPin, Calendar, Weight, X, FileText, Image as ImageIcon, MoreVertical, Pencil, RotateCw, Trash2, WifiOff } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import type { Message, User, MessageAttachment } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  createClientMessageId,
+  deleteOutboxMessage,
+  getOutboxMessages,
+  saveOutboxMessage,
+  type OutboxMessage,
+} from "@/lib/messageOutbox";
+import type { Booking, Message, MessageAttachment, Trip, User } from "@shared/schema";
 import { format } from "date-fns";
+import { fr } from "date-fns/locale";
 
 interface MessageWithUsers extends Message {
   sender?: User;
@@ -19,14 +36,103 @@ interface MessageWithUsers extends Message {
   attachments?: MessageAttachment[];
 }
 
+// One thread per other user and booking (bookingId null outside of a booking)
 interface Conversation {
+  threadId: string;
   userId: string;
   user?: User;
-  lastMessage?: string;
+  lastMessage?: string | null;
+  lastMessageAt?: string;
   unreadCount: number;
-  bookingId?: string;
+  bookingId: string | null;
+  booking?: Pick<Booking, "id" | "status" | "weight">;
+  trip?: Pick<Trip, "id" | "departureCity" | "destinationCity" | "departureDate" | "arrivalDate">;
 }
 
+// A page of history, oldest message first; nextCursor fetches the page before it
+interface MessagePage {
+  messages: MessageWithUsers[];
+  nextCursor: string | null;
+}
+
+// Search results of one thread; headlines wrap matches in STX/ETX characters
+interface SearchResultThread {
+  threadId: string;
+  userId: string;
+  bookingId: string | null;
+  user?: User;
+  trip?: Conversation["trip"];
+  matches: {
+    messageId: string;
+    senderId: string;
+    createdAt: string;
+    headline: string;
+  }[];
+}
+
+function formatThreadContext(trip?: Conversation["trip"]): string {
+  return trip
+    ? `${trip.departureCity} → ${trip.destinationCity} · ${format(new Date(trip.departureDate), "d MMM", { locale: fr })}`
+    : "Discussion directe";
+}
+
+function renderHeadline(headline: string) {
+  return headline.split("\u0002").map((part, index) => {
+    if (index === 0) return <span key={index}>{part}</span>;
+    const [match, rest] = part.split("\u0003");
+    return (
+      <span key={index}>
+        <mark className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm">{match}</mark>
+        {rest}
+      </span>
+    );
+  });
+}
+
+// Reconnection delays double from the base up to the max, with jitter
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// An unacknowledged message is resent after this long, and fails after too many tries
+const SEND_ACK_TIMEOUT_MS = 15 * 1000;
+const MAX_SEND_ATTEMPTS = 5;
+
+// How an outbox entry is shown until the server confirms it
+function toPendingMessage(entry: OutboxMessage): MessageWithUsers {
+  return {
+    id: entry.clientMessageId,
+    clientMessageId: entry.clientMessageId,
+    senderId: entry.senderId,
+    receiverId: entry.receiverId,
+    bookingId: entry.bookingId,
+    content: entry.content,
+    status: entry.status,
+    createdAt: new Date(entry.createdAt),
+    isRead: false,
+    readAt: null,
+    deliveredAt: null,
+    editedAt: null,
+    deletedAt: null,
+    deletedForSenderAt: null,
+    deletedForReceiverAt: null,
+    expiresAt: null,
+    attachments: entry.attachments.map((attachment, index) => ({
+      id: `${entry.clientMessageId}-${index}`,
+      messageId: entry.clientMessageId,
+      fileUrl: attachment.url,
+      fileName: attachment.name,
+      fileType: attachment.type,
+      fileSize: attachment.size,
+      thumbnailUrl: null,
+      expiresAt: null,
+      createdAt: new Date(entry.createdAt),
+    })),
+  };
+}
+
+// Matches MESSAGE_EDIT_WINDOW_MINUTES on the server
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
 interface TypingUser {
   userId: string;
   timestamp: number;
@@ -50,6 +156,7 @@ export default function Messages() {
   const { toast } = useToast();
   const [location, setLocation] = useLocation();
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [selectedBookingId, setSelectedBookingId] = useState<string | null>(null);
   const [messageInput, setMessageInput] = useState("");
   const [messages, setMessages] = useState<MessageWithUsers[]>([]);
   const [isTyping, setIsTyping] = useState(false);
@@ -57,36 +164,96 @@ export default function Messages() {
   const [onlineUsers, setOnlineUsers] = useState<OnlineStatus>({});
   const [isTripDetailsOpen, setIsTripDetailsOpen] = useState(false);
   const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>([]);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const prependScrollHeightRef = useRef<number | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const typingCleanupIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const pendingMessagesRef = useRef<Map<string, boolean>>(new Map());
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [isOffline, setIsOffline] = useState(false);
+  // Source of truth for socket callbacks; `outbox` mirrors it for rendering
+  const outboxRef = useRef<OutboxMessage[]>([]);
+  const ackTimeoutsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const selectedThreadRef = useRef<{ userId: string | null; bookingId: string | null }>({
+    userId: null,
+    bookingId: null,
+  });
 
   // Fetch conversations list
   const { data: conversations } = useQuery<Conversation[]>({
     queryKey: ["/api/messages/conversations"],
   });
 
-  // Auto-select conversation from URL query parameter
+  const selectThread = (userId: string | null, bookingId: string | null = null) => {
+    setSelectedConversation(userId);
+    setSelectedBookingId(bookingId);
+  };
+
+  // Auto-select conversation from URL query parameters
   useEffect(() => {
     const searchParams = new URLSearchParams(window.location.search);
     const userIdParam = searchParams.get('userId');
     
     // Select conversation even if it doesn't exist yet (allows new conversations)
     if (userIdParam) {
-      setSelectedConversation(userIdParam);
+      selectThread(userIdParam, searchParams.get('bookingId'));
     } else if (!userIdParam && location === '/messages') {
-      setSelectedConversation(null);
+      selectThread(null);
     }
   }, [location]);
 
-  // Fetch messages for selected conversation
-  const { data: conversationMessages } = useQuery<MessageWithUsers[]>({
-    queryKey: ["/api/messages", selectedConversation],
+  // Incoming socket events only apply to the open thread
+  useEffect(() => {
+    selectedThreadRef.current = { userId: selectedConversation, bookingId: selectedBookingId };
+  }, [selectedConversation, selectedBookingId]);
+
+  // Fetch messages for selected thread, newest page first
+  const {
+    data: conversationPages,
+    fetchNextPage: fetchOlderMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isFetchingOlderMessages,
+  } = useInfiniteQuery({
+    queryKey: ["/api/messages", selectedConversation, selectedBookingId],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (selectedBookingId) params.set("bookingId", selectedBookingId);
+      if (pageParam) params.set("before", pageParam);
+      const res = await apiRequest("GET", `/api/messages/${selectedConversation}?${params.toString()}`);
+      return (await res.json()) as MessagePage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!selectedConversation,
+    // Messages of other threads are not followed live, so reopening one refetches it
+    staleTime: 0,
   });
 
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const isSearching = searchQuery.length >= 2;
+  const { data: searchResults, isFetching: isSearchFetching } = useQuery<SearchResultThread[]>({
+    queryKey: [`/api/messages/search?q=${encodeURIComponent(searchQuery)}`],
+    enabled: isSearching,
+  });
+
+  const selectedThread = conversations?.find(
+    (c) => c.userId === selectedConversation && c.bookingId === selectedBookingId
+  );
+
   // Fetch selected user data if not in conversations list (for new conversations)
   const selectedUserFromConv = conversations?.find(
     (c) => c.userId === selectedConversation
@@ -97,24 +264,182 @@ export default function Messages() {
     enabled: !!selectedConversation && !selectedUserFromConv,
   });
 
-  // Initialize WebSocket connection
+  const sendSocketEvent = (event: Record<string, unknown>): boolean => {
+    const socket = wsRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(event));
+    return true;
+  };
+
+  const storeOutboxEntry = (entry: OutboxMessage) => {
+    outboxRef.current = [
+      ...outboxRef.current.filter((e) => e.clientMessageId !== entry.clientMessageId),
+      entry,
+    ];
+    setOutbox(outboxRef.current);
+    saveOutboxMessage(entry).catch((error) => console.error("Failed to save outbox message:", error));
+  };
+
+  const removeOutboxEntry = (clientMessageId: string) => {
+    const timeout = ackTimeoutsRef.current.get(clientMessageId);
+    if (timeout) {
+      clearTimeout(timeout);
+      ackTimeoutsRef.current.delete(clientMessageId);
+    }
+    outboxRef.current = outboxRef.current.filter((e) => e.clientMessageId !== clientMessageId);
+    setOutbox(outboxRef.current);
+    deleteOutboxMessage(clientMessageId).catch((error) =>
+      console.error("Failed to delete outbox message:", error)
+    );
+  };
+
+  const failOutboxEntry = (clientMessageId: string, error: string) => {
+    const entry = outboxRef.current.find((e) => e.clientMessageId === clientMessageId);
+    if (!entry) return;
+    const timeout = ackTimeoutsRef.current.get(clientMessageId);
+    if (timeout) {
+      clearTimeout(timeout);
+      ackTimeoutsRef.current.delete(clientMessageId);
+    }
+    storeOutboxEntry({ ...entry, status: "failed", error });
+  };
+
+  // Send an outbox entry if the socket is up; otherwise it waits for the reconnection
+  const sendOutboxEntry = (entry: OutboxMessage) => {
+    if (entry.status !== "sending") return;
+    if (entry.attempts >= MAX_SEND_ATTEMPTS) {
+      failOutboxEntry(entry.clientMessageId, "Le message n'a pas pu être envoyé");
+      return;
+    }
+
+    const sent = sendSocketEvent({
+      type: "send_message",
+      receiverId: entry.receiverId,
+      content: entry.content,
+      bookingId: entry.bookingId,
+      clientMessageId: entry.clientMessageId,
+      attachments: entry.attachments,
+    });
+    if (!sent) return;
+
+    const attempted = { ...entry, attempts: entry.attempts + 1 };
+    storeOutboxEntry(attempted);
+
+    // Resend when no acknowledgement comes back (the server drops duplicates)
+    const previousTimeout = ackTimeoutsRef.current.get(entry.clientMessageId);
+    if (previousTimeout) clearTimeout(previousTimeout);
+    ackTimeoutsRef.current.set(
+      entry.clientMessageId,
+      setTimeout(() => {
+        ackTimeoutsRef.current.delete(entry.clientMessageId);
+        const current = outboxRef.current.find((e) => e.clientMessageId === entry.clientMessageId);
+        if (current) sendOutboxEntry(current);
+      }, SEND_ACK_TIMEOUT_MS)
+    );
+  };
+
+  const retryOutboxEntry = (entry: OutboxMessage) => {
+    const retried: OutboxMessage = { ...entry, status: "sending", attempts: 0, error: undefined };
+    storeOutboxEntry(retried);
+    sendOutboxEntry(retried);
+  };
+
+  const flushOutbox = () => {
+    for (const entry of outboxRef.current) {
+      sendOutboxEntry(entry);
+    }
+  };
+
+  // Restore messages left unsent by a previous visit
+  useEffect(() => {
+    if (!user) return;
+
+    getOutboxMessages(user.id)
+      .then((entries) => {
+        const known = new Set(outboxRef.current.map((e) => e.clientMessageId));
+        outboxRef.current = [
+          ...entries.filter((e) => !known.has(e.clientMessageId)),
+          ...outboxRef.current,
+        ];
+        setOutbox(outboxRef.current);
+        flushOutbox();
+      })
+      .catch((error) => console.error("Failed to load outbox:", error));
+  }, [user]);
+
+  // Initialize WebSocket connection, reconnecting with exponential backoff
   useEffect(() => {
     if (!user) return;
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const socket = new WebSocket(wsUrl);
+    let socket: WebSocket;
+    let reconnectAttempts = 0;
+    let reconnectTimeout: NodeJS.Timeout | undefined;
+    let isUnmounted = false;
+    let hasConnected = false;
+
+    const connect = () => {
+      socket = new WebSocket(wsUrl);
+      wsRef.current = socket;
+
+      // The server identifies the user from the session cookie sent with the upgrade
+      socket.onopen = () => {
+        console.log("WebSocket connected");
+        reconnectAttempts = 0;
+        setIsOffline(false);
+        flushOutbox();
+
+        // Catch up on what arrived while disconnected
+        if (hasConnected) {
+          queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+        }
+        hasConnected = true;
+      };
 
-    socket.onopen = () => {
-      console.log("WebSocket connected");
-      socket.send(JSON.stringify({ type: "auth", userId: user.id }));
+      socket.onmessage = handleSocketMessage;
+
+      socket.onerror = (error) => {
+        console.error("WebSocket error:", error);
+      };
+
+      socket.onclose = () => {
+        console.log("WebSocket disconnected");
+        if (isUnmounted) return;
+        setIsOffline(true);
+
+        const delay = Math.min(
+          RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+          RECONNECT_MAX_DELAY_MS
+        );
+        reconnectAttempts++;
+        reconnectTimeout = setTimeout(connect, delay / 2 + Math.random() * (delay / 2));
+      };
+    };
+
+    // Don't wait for the backoff once the browser is back online
+    const handleOnline = () => {
+      if (socket.readyState !== WebSocket.CLOSED) return;
+      clearTimeout(reconnectTimeout);
+      reconnectAttempts = 0;
+      connect();
     };
 
-    socket.onmessage = (event) => {
+    const handleSocketMessage = (event: MessageEvent) => {
       const data = JSON.parse(event.data);
       
       // Handle new messages
       if (data.type === "message") {
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+
+        const thread = selectedThreadRef.current;
+        const otherUserId =
+          data.message.senderId === user.id ? data.message.receiverId : data.message.senderId;
+        if (otherUserId !== thread.userId || (data.message.bookingId ?? null) !== thread.bookingId) {
+          return;
+        }
+
         setMessages((prev) => {
           // Update message status if it already exists
           const existingIndex = prev.findIndex((m) => m.id === data.message.id);
@@ -127,49 +452,71 @@ export default function Messages() {
         });
       }
 
-      // Handle message sent confirmation
+      // Handle message sent confirmation: the outbox entry becomes the stored message
       if (data.type === "message_sent") {
-        setMessages((prev) => {
-          const updated = [...prev];
-          // Find and replace the temporary message using clientMessageId
-          const clientMsgId = data.clientMessageId;
-          if (clientMsgId && pendingMessagesRef.current.has(clientMsgId)) {
-            const tempIndex = updated.findIndex((m) => m.id === clientMsgId);
-            if (tempIndex >= 0) {
-              // Replace temp message with real message
-              updated[tempIndex] = { ...data.message, status: "sent" };
-              pendingMessagesRef.current.delete(clientMsgId);
-            }
-          } else {
-            // Fallback: add message if temp not found
-            updated.push({ ...data.message, status: "sent" });
-          }
-          return updated;
-        });
+        if (data.clientMessageId) {
+          removeOutboxEntry(data.clientMessageId);
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+
+        const thread = selectedThreadRef.current;
+        if (
+          data.message.receiverId === thread.userId &&
+          (data.message.bookingId ?? null) === thread.bookingId
+        ) {
+          setMessages((prev) =>
+            prev.some((m) => m.id === data.message.id) ? prev : [...prev, data.message]
+          );
+        }
+      }
+
+      // Messages the server refused are not retried automatically
+      if (data.type === "error" && data.clientMessageId) {
+        failOutboxEntry(data.clientMessageId, data.message || "Le message n'a pas pu être envoyé");
+      }
+
+      // Handle edits and deletions for everyone
+      if (data.type === "message_updated") {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === data.message.id
+              ? {
+                  ...m,
+                  ...data.message,
+                  attachments: data.message.deletedAt ? [] : m.attachments,
+                }
+              : m
+          )
+        );
+      }
+
+      // Handle messages deleted for this user on another device
+      if (data.type === "message_hidden") {
+        setMessages((prev) => prev.filter((m) => m.id !== data.messageId));
       }
 
-      // Handle message delivered confirmation
+      // Handle message delivered confirmation (never downgrades a seen message)
       if (data.type === "message_delivered") {
-        setMessages((prev) => {
-          const updated = [...prev];
-          const index = updated.findIndex((m) => m.id === data.messageId);
-          if (index >= 0) {
-            updated[index] = { ...updated[index], status: "delivered" };
-          }
-          return updated;
-        });
+        const deliveredIds = new Set<string>(data.messageIds);
+        setMessages((prev) =>
+          prev.map((m) =>
+            deliveredIds.has(m.id) && m.status !== "seen"
+              ? { ...m, status: "delivered", deliveredAt: data.deliveredAt }
+              : m
+          )
+        );
       }
 
       // Handle message read confirmation
       if (data.type === "message_read") {
-        setMessages((prev) => {
-          const updated = [...prev];
-          const index = updated.findIndex((m) => m.id === data.messageId);
-          if (index >= 0) {
-            updated[index] = { ...updated[index], status: "seen" };
-          }
-          return updated;
-        });
+        const readIds = new Set<string>(data.messageIds);
+        setMessages((prev) =>
+          prev.map((m) =>
+            readIds.has(m.id)
+              ? { ...m, status: "seen", isRead: true, readAt: data.readAt }
+              : m
+          )
+        );
       }
 
       // Handle typing indicator
@@ -200,17 +547,22 @@ export default function Messages() {
         });
         setOnlineUsers(statusMap);
       }
-    };
 
-    socket.onerror = (error) => {
-      console.error("WebSocket error:", error);
-    };
-
-    socket.onclose = () => {
-      console.log("WebSocket disconnected");
+      // The account was suspended or banned; the server closes the socket next
+      if (data.type === "account_restricted") {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+        toast({
+          title: data.status === "banned" ? "Compte banni" : "Compte suspendu",
+          description: data.reason
+            ? `Vous ne pouvez plus envoyer de messages. Motif : ${data.reason}`
+            : "Vous ne pouvez plus envoyer de messages",
+          variant: "destructive",
+        });
+      }
     };
 
-    wsRef.current = socket;
+    connect();
+    window.addEventListener("online", handleOnline);
 
     // Set up typing cleanup interval (every second, remove entries older than 3 seconds)
     typingCleanupIntervalRef.current = setInterval(() => {
@@ -219,6 +571,9 @@ export default function Messages() {
     }, 1000);
 
     return () => {
+      isUnmounted = true;
+      clearTimeout(reconnectTimeout);
+      window.removeEventListener("online", handleOnline);
       socket.close();
       if (typingCleanupIntervalRef.current) {
         clearInterval(typingCleanupIntervalRef.current);
@@ -226,31 +581,115 @@ export default function Messages() {
     };
   }, [user]);
 
-  // Update messages when conversation changes
+  // Start from an empty thread when switching conversations
+  useEffect(() => {
+    setMessages([]);
+  }, [selectedConversation, selectedBookingId]);
+
+  // Merge loaded pages, keeping messages received live since the newest page
   useEffect(() => {
-    if (conversationMessages) {
-      setMessages(conversationMessages);
+    if (!conversationPages) return;
+
+    const loaded = conversationPages.pages
+      .slice()
+      .reverse()
+      .flatMap((page) => page.messages);
+    const loadedIds = new Set(loaded.map((m) => m.id));
+    const newestLoadedAt = loaded.length > 0 ? new Date(loaded[loaded.length - 1].createdAt!).getTime() : 0;
+
+    setMessages((prev) => [
+      ...loaded,
+      ...prev.filter(
+        (m) => !loadedIds.has(m.id) && new Date(m.createdAt!).getTime() >= newestLoadedAt
+      ),
+    ]);
+  }, [conversationPages]);
+
+  // Unconfirmed messages of this thread come after the stored ones
+  const storedClientIds = new Set(messages.map((m) => m.clientMessageId));
+  const displayedMessages = [
+    ...messages,
+    ...outbox
+      .filter(
+        (entry) =>
+          entry.receiverId === selectedConversation &&
+          entry.bookingId === selectedBookingId &&
+          !storedClientIds.has(entry.clientMessageId)
+      )
+      .map(toPendingMessage),
+  ];
+
+  // Keep the view in place when older messages are prepended, otherwise
+  // scroll to the bottom when a new message arrives
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (container && prependScrollHeightRef.current !== null) {
+      container.scrollTop += container.scrollHeight - prependScrollHeightRef.current;
+      prependScrollHeightRef.current = null;
     }
-  }, [conversationMessages]);
 
-  // Auto-scroll to bottom
+    const lastMessageId = displayedMessages[displayedMessages.length - 1]?.id;
+    if (lastMessageId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastMessageId;
+      if (!jumpToMessageId) {
+        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+      }
+    }
+  }, [messages, outbox]);
+
+  // Jump to a search match, loading older pages until it is in the thread
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    if (!jumpToMessageId || !conversationPages) return;
+
+    const isLoaded = conversationPages.pages.some((page) =>
+      page.messages.some((m) => m.id === jumpToMessageId)
+    );
+    if (isLoaded) {
+      // Wait for the loaded pages to be rendered
+      if (messages.some((m) => m.id === jumpToMessageId)) {
+        document
+          .getElementById(`message-${jumpToMessageId}`)
+          ?.scrollIntoView({ block: "center" });
+        setHighlightedMessageId(jumpToMessageId);
+        setJumpToMessageId(null);
+      }
+      return;
+    }
+
+    if (isFetchingOlderMessages) return;
+    if (hasOlderMessages) {
+      prependScrollHeightRef.current = messagesContainerRef.current?.scrollHeight ?? null;
+      fetchOlderMessages();
+    } else {
+      setJumpToMessageId(null);
+    }
+  }, [jumpToMessageId, conversationPages, messages, hasOlderMessages, isFetchingOlderMessages]);
+
+  // The jumped-to message stands out for a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Load older messages when scrolled near the top
+  const handleMessagesScroll = (e: UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop > 80 || !hasOlderMessages || isFetchingOlderMessages) return;
+    prependScrollHeightRef.current = e.currentTarget.scrollHeight;
+    fetchOlderMessages();
+  };
 
   // Send typing indicator
   const handleTyping = () => {
-    if (!selectedConversation || !wsRef.current) return;
+    if (!selectedConversation) return;
 
     if (!isTyping) {
       setIsTyping(true);
-      wsRef.current.send(
-        JSON.stringify({
-          type: "typing",
-          receiverId: selectedConversation,
-          isTyping: true,
-        })
-      );
+      sendSocketEvent({
+        type: "typing",
+        receiverId: selectedConversation,
+        isTyping: true,
+      });
     }
 
     // Clear existing timeout
@@ -261,15 +700,11 @@ export default function Messages() {
     // Set new timeout to stop typing indicator
     typingTimeoutRef.current = setTimeout(() => {
       setIsTyping(false);
-      if (wsRef.current) {
-        wsRef.current.send(
-          JSON.stringify({
-            type: "typing",
-            receiverId: selectedConversation,
-            isTyping: false,
-          })
-        );
-      }
+      sendSocketEvent({
+        type: "typing",
+        receiverId: selectedConversation,
+        isTyping: false,
+      });
     }, 3000);
   };
 
@@ -277,39 +712,24 @@ export default function Messages() {
   const isMessageTooLong = messageInput.length > MAX_MESSAGE_LENGTH;
   const isMessageValid = (messageInput.trim() || attachedFiles.length > 0) && !isMessageTooLong;
 
+  // Messages go through the outbox, so nothing is lost while offline
   const sendMessage = () => {
-    if (!isMessageValid || !selectedConversation || !wsRef.current) return;
+    if (!isMessageValid || !selectedConversation || !user) return;
 
-    const tempId = `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const tempMessage: MessageWithUsers = {
-      id: tempId,
-      senderId: user!.id,
+    const entry: OutboxMessage = {
+      clientMessageId: createClientMessageId(),
+      senderId: user.id,
       receiverId: selectedConversation,
+      bookingId: selectedBookingId,
       content: messageInput.trim() || "(Fichier joint)",
+      attachments: attachedFiles.map((f) => ({ url: f.url, name: f.name, type: f.type, size: f.size })),
       status: "sending",
-      createdAt: new Date(),
-      bookingId: null,
-      isRead: false,
-      readAt: null,
-      deliveredAt: null,
-      expiresAt: null,
-    };
-
-    // Track pending message for reconciliation
-    pendingMessagesRef.current.set(tempId, true);
-
-    // Add temporary message with "sending" status
-    setMessages((prev) => [...prev, tempMessage]);
-
-    const messageData = {
-      type: "send_message",
-      receiverId: selectedConversation,
-      content: messageInput.trim() || "(Fichier joint)",
-      clientMessageId: tempId,
-      attachments: attachedFiles.map(f => ({ url: f.url, name: f.name, type: f.type, size: f.size })),
+      attempts: 0,
+      createdAt: new Date().toISOString(),
     };
 
-    wsRef.current.send(JSON.stringify(messageData));
+    storeOutboxEntry(entry);
+    sendOutboxEntry(entry);
     setMessageInput("");
     setAttachedFiles([]);
     setIsTyping(false);
@@ -434,19 +854,70 @@ export default function Messages() {
     }
   };
 
+  const handleMessageMutationError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erreur",
+      description: error.message || "Action impossible",
+      variant: "destructive",
+    });
+  };
+
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: string; content: string }) => {
+      const res = await apiRequest("PATCH", `/api/messages/${messageId}`, { content });
+      return (await res.json()) as Message;
+    },
+    onSuccess: (updated) => {
+      setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)));
+      setEditingMessageId(null);
+      setEditContent("");
+    },
+    onError: handleMessageMutationError,
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async ({ messageId, scope }: { messageId: string; scope: "me" | "everyone" }) => {
+      const res = await apiRequest("DELETE", `/api/messages/${messageId}?scope=${scope}`);
+      return (await res.json()) as Message;
+    },
+    onSuccess: (deleted, { scope }) => {
+      setMessages((prev) =>
+        scope === "me"
+          ? prev.filter((m) => m.id !== deleted.id)
+          : prev.map((m) => (m.id === deleted.id ? { ...m, ...deleted, attachments: [] } : m))
+      );
+    },
+    onError: handleMessageMutationError,
+  });
+
+  const canEditMessage = (msg: MessageWithUsers) =>
+    !msg.deletedAt &&
+    !!msg.createdAt &&
+    Date.now() - new Date(msg.createdAt).getTime() <= MESSAGE_EDIT_WINDOW_MS;
+
   // Send read receipt when messages are viewed
   useEffect(() => {
-    if (!selectedConversation || !wsRef.current || messages.length === 0) return;
+    if (!selectedConversation || messages.length === 0) return;
 
     const lastMessage = messages[messages.length - 1];
     if (lastMessage.senderId === selectedConversation && lastMessage.status !== "seen") {
-      wsRef.current.send(
-        JSON.stringify({
-          type: "read_receipt",
-          messageId: lastMessage.id,
-          originalSenderId: lastMessage.senderId,
-        })
-      );
+      sendSocketEvent({
+        type: "read_receipt",
+        messageId: lastMessage.id,
+        originalSenderId: lastMessage.senderId,
+        bookingId: lastMessage.bookingId,
+      });
     }
   }, [messages, selectedConversation]);
 
@@ -483,11 +954,67 @@ export default function Messages() {
             "w-full md:w-80 border-b md:border-b-0 md:border-r border-card-border overflow-y-auto",
             selectedConversation && "hidden md:block"
           )}>
-            <div className="p-4 border-b border-card-border">
+            <div className="p-4 border-b border-card-border space-y-3">
               <h2 className="text-xl font-semibold">Messages</h2>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  type="search"
+                  placeholder="Rechercher dans les messages"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9"
+                  data-testid="input-search-messages"
+                />
+              </div>
             </div>
 
-            {!conversations || conversations.length === 0 ? (
+            {isSearching ? (
+              !searchResults ? (
+                <p className="p-4 text-sm text-muted-foreground">
+                  {isSearchFetching ? "Recherche..." : ""}
+                </p>
+              ) : searchResults.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground" data-testid="text-no-search-results">
+                  Aucun message ne correspond à « {searchQuery} »
+                </p>
+              ) : (
+                <div className="divide-y divide-card-border">
+                  {searchResults.map((thread) => (
+                    <div key={thread.threadId} className="p-4 space-y-2" data-testid={`search-thread-${thread.threadId}`}>
+                      <div>
+                        <div className="font-medium truncate">
+                          {thread.user?.firstName && thread.user?.lastName
+                            ? `${thread.user.firstName} ${thread.user.lastName}`
+                            : thread.user?.email}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {formatThreadContext(thread.trip)}
+                        </div>
+                      </div>
+                      {thread.matches.map((match) => (
+                        <button
+                          key={match.messageId}
+                          onClick={() => {
+                            selectThread(thread.userId, thread.bookingId);
+                            setJumpToMessageId(match.messageId);
+                          }}
+                          className="w-full text-left text-sm rounded-md p-2 hover-elevate bg-muted/50"
+                          data-testid={`search-result-${match.messageId}`}
+                        >
+                          <div className="text-xs text-muted-foreground mb-1">
+                            {match.senderId === user?.id ? "Vous" : thread.user?.firstName}
+                            {" · "}
+                            {format(new Date(match.createdAt), "dd/MM/yyyy HH:mm")}
+                          </div>
+                          <p className="line-clamp-2 break-words">{renderHeadline(match.headline)}</p>
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : !conversations || conversations.length === 0 ? (
               <div className="p-8 text-center">
                 <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-sm text-muted-foreground">
@@ -498,13 +1025,13 @@ export default function Messages() {
               <div className="divide-y divide-card-border">
                 {conversations.map((conv) => (
                   <button
-                    key={conv.userId}
-                    onClick={() => setSelectedConversation(conv.userId)}
+                    key={conv.threadId}
+                    onClick={() => selectThread(conv.userId, conv.bookingId)}
                     className={cn(
                       "w-full p-4 hover-elevate text-left transition-colors min-h-[80px]",
-                      selectedConversation === conv.userId && "bg-muted"
+                      selectedThread?.threadId === conv.threadId && "bg-muted"
                     )}
-                    data-testid={`conversation-${conv.userId}`}
+                    data-testid={`conversation-${conv.threadId}`}
                   >
                     <div className="flex items-center gap-3">
                       <div className="relative">
@@ -524,6 +1051,9 @@ export default function Messages() {
                             ? `${conv.user.firstName} ${conv.user.lastName}`
                             : conv.user?.email}
                         </div>
+                        <div className="text-xs text-muted-foreground truncate" data-testid={`text-thread-trip-${conv.threadId}`}>
+                          {formatThreadContext(conv.trip)}
+                        </div>
                         <div className="text-sm text-muted-foreground truncate">
                           {conv.lastMessage || "No messages"}
                         </div>
@@ -561,7 +1091,7 @@ export default function Messages() {
                   <Button
                     variant="ghost"
                     size="icon"
-                    onClick={() => setSelectedConversation(null)}
+                    onClick={() => selectThread(null)}
                     className="md:hidden min-h-[44px] min-w-[44px]"
                     data-testid="button-back-to-conversations"
                   >
@@ -600,27 +1130,32 @@ export default function Messages() {
                           )}
                         </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="hidden md:flex"
-                        data-testid="button-view-trip"
-                      >
-                        View Trip
-                      </Button>
+                      {selectedThread?.trip && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="hidden md:flex"
+                          onClick={() => setLocation(`/trips/${selectedThread.trip!.id}`)}
+                          data-testid="button-view-trip"
+                        >
+                          View Trip
+                        </Button>
+                      )}
                     </>
                   )}
                 </div>
 
-                {/* Trip Details - Collapsible */}
-                {selectedUser && (
+                {/* Trip Details - Collapsible, for threads about a booking */}
+                {selectedThread?.trip && (
                   <div className="border-b border-card-border">
                     <button
                       onClick={() => setIsTripDetailsOpen(!isTripDetailsOpen)}
                       className="w-full p-3 flex items-center justify-between hover-elevate min-h-[44px]"
                       data-testid="button-toggle-trip-details"
                     >
-                      <span className="text-sm font-medium">Trip Details</span>
+                      <span className="text-sm font-medium truncate">
+                        {selectedThread.trip.departureCity} → {selectedThread.trip.destinationCity}
+                      </span>
                       {isTripDetailsOpen ? (
                         <ChevronUp className="h-4 w-4" />
                       ) : (
@@ -631,28 +1166,61 @@ export default function Messages() {
                       <div className="p-4 bg-muted/50 space-y-2 text-sm">
                         <div className="flex items-center gap-2">
                           <MapPin className="h-4 w-4 text-muted-foreground" />
-                          <span>Route details will appear here</span>
+                          <span>
+                            {selectedThread.trip.departureCity} → {selectedThread.trip.destinationCity}
+                          </span>
                         </div>
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4 text-muted-foreground" />
-                          <span>Travel dates will appear here</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <Weight className="h-4 w-4 text-muted-foreground" />
-                          <span>Capacity details will appear here</span>
+                          <span>
+                            {format(new Date(selectedThread.trip.departureDate), "PPP", { locale: fr })}
+                            {" – "}
+                            {format(new Date(selectedThread.trip.arrivalDate), "PPP", { locale: fr })}
+                          </span>
                         </div>
+                        {selectedThread.booking && (
+                          <div className="flex items-center gap-2">
+                            <Weight className="h-4 w-4 text-muted-foreground" />
+                            <span>{Number(selectedThread.booking.weight)} kg réservés</span>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
                 )}
 
+                {isOffline && (
+                  <div
+                    className="px-4 py-2 flex items-center gap-2 text-xs text-muted-foreground bg-muted/50 border-b border-card-border"
+                    data-testid="status-offline"
+                  >
+                    <WifiOff className="h-3 w-3" />
+                    Connexion perdue. Vos messages seront envoyés dès la reconnexion.
+                  </div>
+                )}
+
                 {/* Messages */}
-                <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                  {messages.map((msg) => {
+                <div
+                  ref={messagesContainerRef}
+                  onScroll={handleMessagesScroll}
+                  className="flex-1 overflow-y-auto p-4 space-y-4"
+                  data-testid="messages-scroll-container"
+                >
+                  {isFetchingOlderMessages && (
+                    <p className="text-center text-xs text-muted-foreground">
+                      Chargement des messages précédents...
+                    </p>
+                  )}
+                  {displayedMessages.map((msg) => {
                     const isOwnMessage = msg.senderId === user?.id;
+                    const failedEntry =
+                      msg.status === "failed"
+                        ? outbox.find((entry) => entry.clientMessageId === msg.id)
+                        : undefined;
                     return (
                       <div
                         key={msg.id}
+                        id={`message-${msg.id}`}
                         className={cn(
                           "flex",
                           isOwnMessage ? "justify-end" : "justify-start"
@@ -660,13 +1228,52 @@ export default function Messages() {
                       >
                         <div
                           className={cn(
-                            "max-w-[85%] md:max-w-[70%] rounded-2xl px-4 py-2",
+                            "max-w-[85%] md:max-w-[70%] rounded-2xl px-4 py-2 transition-shadow",
                             isOwnMessage
                               ? "bg-primary text-primary-foreground rounded-br-sm"
-                              : "bg-muted rounded-bl-sm"
+                              : "bg-muted rounded-bl-sm",
+                            highlightedMessageId === msg.id && "ring-2 ring-yellow-400"
                           )}
                         >
-                          {msg.content && (
+                          {msg.deletedAt ? (
+                            <p className="text-sm italic opacity-70" data-testid={`text-deleted-${msg.id}`}>
+                              Message supprimé
+                            </p>
+                          ) : editingMessageId === msg.id ? (
+                            <div className="space-y-2">
+                              <Textarea
+                                value={editContent}
+                                onChange={(e) => setEditContent(e.target.value)}
+                                className="min-h-[60px] text-sm bg-background text-foreground"
+                                maxLength={MAX_MESSAGE_LENGTH}
+                                data-testid={`input-edit-message-${msg.id}`}
+                              />
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setEditingMessageId(null)}
+                                  data-testid={`button-cancel-edit-${msg.id}`}
+                                >
+                                  Annuler
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={() =>
+                                    editMessageMutation.mutate({
+                                      messageId: msg.id,
+                                      content: editContent,
+                                    })
+                                  }
+                                  disabled={!editContent.trim() || editMessageMutation.isPending}
+                                  data-testid={`button-save-edit-${msg.id}`}
+                                >
+                                  Enregistrer
+                                </Button>
+                              </div>
+                            </div>
+                          ) : msg.content && (
                             <p className="text-sm whitespace-pre-wrap break-words">
                               {msg.content}
                             </p>
@@ -679,6 +1286,7 @@ export default function Messages() {
                                 const fileType = attachment.fileType || attachment.type;
                                 const fileName = attachment.fileName || attachment.name;
                                 const fileSize = attachment.fileSize || attachment.size;
+                                const fileUrl = attachment.fileUrl || attachment.url;
                                 const isImage = fileType?.startsWith("image/");
                                 return (
                                   <div
@@ -691,21 +1299,21 @@ export default function Messages() {
                                   >
                                     {isImage ? (
                                       <a
-                                        href={attachment.url}
+                                        href={fileUrl}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="block hover:opacity-90 transition-opacity"
                                         data-testid={`link-image-${attachment.id}`}
                                       >
                                         <img
-                                          src={attachment.thumbnailUrl || attachment.url}
+                                          src={attachment.thumbnailUrl || fileUrl}
                                           alt={fileName}
                                           className="w-full h-auto rounded-md"
                                         />
                                       </a>
                                     ) : (
                                       <a
-                                        href={attachment.url}
+                                        href={fileUrl}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         download={fileName}
@@ -747,11 +1355,90 @@ export default function Messages() {
                                 : "text-muted-foreground"
                             )}
                           >
+                            {msg.editedAt && !msg.deletedAt && (
+                              <span className="italic" data-testid={`text-edited-${msg.id}`}>
+                                modifié
+                              </span>
+                            )}
                             <span>
                               {msg.createdAt && format(new Date(msg.createdAt), "HH:mm")}
                             </span>
                             {isOwnMessage && getMessageStatusIcon(msg.status)}
+                            {!msg.id.startsWith("temp-") && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <button
+                                    className="hover-elevate rounded"
+                                    data-testid={`button-message-actions-${msg.id}`}
+                                  >
+                                    <MoreVertical className="h-3 w-3" />
+                                  </button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  {isOwnMessage && canEditMessage(msg) && (
+                                    <DropdownMenuItem
+                                      onClick={() => {
+                                        setEditingMessageId(msg.id);
+                                        setEditContent(msg.content);
+                                      }}
+                                      data-testid={`button-edit-message-${msg.id}`}
+                                    >
+                                      <Pencil className="mr-2 h-4 w-4" />
+                                      Modifier
+                                    </DropdownMenuItem>
+                                  )}
+                                  {isOwnMessage && !msg.deletedAt && (
+                                    <DropdownMenuItem
+                                      onClick={() =>
+                                        deleteMessageMutation.mutate({ messageId: msg.id, scope: "everyone" })
+                                      }
+                                      data-testid={`button-delete-everyone-${msg.id}`}
+                                    >
+                                      <Trash2 className="mr-2 h-4 w-4" />
+                                      Supprimer pour tous
+                                    </DropdownMenuItem>
+                                  )}
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      deleteMessageMutation.mutate({ messageId: msg.id, scope: "me" })
+                                    }
+                                    data-testid={`button-delete-me-${msg.id}`}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Supprimer pour moi
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
                           </div>
+
+                          {failedEntry && (
+                            <div className="mt-2 space-y-1" data-testid={`failed-message-${msg.id}`}>
+                              {failedEntry.error && (
+                                <p className="text-xs text-primary-foreground/80">{failedEntry.error}</p>
+                              )}
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={() => retryOutboxEntry(failedEntry)}
+                                  data-testid={`button-retry-message-${msg.id}`}
+                                >
+                                  <RotateCw className="h-3 w-3 mr-1" />
+                                  Réessayer
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={() => removeOutboxEntry(failedEntry.clientMessageId)}
+                                  data-testid={`button-discard-message-${msg.id}`}
+                                >
+                                  <Trash2 className="h-3 w-3 mr-1" />
+                                  Supprimer
+                                </Button>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       </div>
                     );
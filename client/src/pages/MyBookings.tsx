@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -14,10 +14,15 @@ import {
   Truck,
   Copy,
   Check,
+  XCircle,
+  CreditCard,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { PriceBreakdown } from "@/components/PriceBreakdown";
 import type { Booking } from "@shared/schema";
 
 interface BookingWithTrip extends Booking {
@@ -41,6 +46,11 @@ const statusConfig = {
     color: "bg-blue-500 text-white",
     icon: CheckCircle2,
   },
+  declined: {
+    label: "Refusé",
+    color: "bg-destructive text-white",
+    icon: XCircle,
+  },
   picked_up: {
     label: "En transit",
     color: "bg-orange-500 text-white",
@@ -112,12 +122,44 @@ function PinDisplay({ label, pin }: { label: string; pin: string | null }) {
 
 export default function MyBookings() {
   const { user } = useAuth();
+  const { toast } = useToast();
 
   const { data: bookings, isLoading } = useQuery<BookingWithTrip[]>({
     queryKey: ["/api/bookings/my-bookings"],
     enabled: !!user,
   });
 
+  const payBookingMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/pay`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my-bookings"] });
+      toast({
+        title: "Paiement effectué",
+        description: "Le montant est bloqué jusqu'à la livraison",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Paiement refusé",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -224,6 +266,18 @@ export default function MyBookings() {
                     )}
                   </div>
 
+                  {booking.serviceFee !== null && (
+                    <PriceBreakdown
+                      travelerEarnings={booking.travelerEarnings ?? 0}
+                      serviceFee={booking.serviceFee}
+                      taxAmount={booking.taxAmount ?? 0}
+                      discountAmount={booking.discountAmount}
+                      creditAmount={booking.creditAmount}
+                      total={booking.price}
+                      className="pt-4 border-t"
+                    />
+                  )}
+
                   {/* PIN Codes Section */}
                   {(booking.pickupPIN || booking.deliveryPIN) && (
                     <div className="pt-4 border-t space-y-3">
@@ -235,7 +289,7 @@ export default function MyBookings() {
                       </div>
 
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        {booking.pickupPIN && booking.status === "pending" && (
+                        {booking.pickupPIN && booking.status === "confirmed" && (
                           <PinDisplay
                             label="Code remise"
                             pin={booking.pickupPIN}
@@ -267,6 +321,17 @@ export default function MyBookings() {
                       )}
 
                       {booking.status === "pending" && (
+                        <p className="text-xs text-muted-foreground">
+                          ⏳ En attente de la réponse du voyageur. Votre code
+                          de remise apparaîtra dès son acceptation.
+                        </p>
+                      )}
+                      {booking.status === "declined" && (
+                        <p className="text-xs text-muted-foreground">
+                          {booking.declineReason || "Le voyageur a refusé votre demande."}
+                        </p>
+                      )}
+                      {booking.status === "confirmed" && (
                         <p className="text-xs text-muted-foreground">
                           💡 Communiquez le code de remise au voyageur lors de
                           la récupération de votre colis
@@ -284,6 +349,23 @@ export default function MyBookings() {
                   )}
 
                   {/* Escrow Status */}
+                  {booking.escrowStatus === "payment_pending" &&
+                    !["declined", "cancelled"].includes(booking.status) && (
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2 pt-2">
+                        <p className="flex items-center gap-2 text-xs text-destructive flex-1">
+                          <CreditCard className="h-3 w-3" />
+                          Paiement en attente - le voyageur ne peut pas encore accepter votre demande
+                        </p>
+                        <Button
+                          size="sm"
+                          onClick={() => payBookingMutation.mutate(booking.id)}
+                          disabled={payBookingMutation.isPending}
+                          data-testid={`button-pay-booking-${booking.id}`}
+                        >
+                          Payer {Number(booking.price).toFixed(2)}€
+                        </Button>
+                      </div>
+                    )}
                   {booking.escrowStatus === "held" &&
                     booking.status !== "delivered" && (
                       <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
@@ -291,6 +373,14 @@ export default function MyBookings() {
                         Paiement sécurisé - Sera libéré à la livraison
                       </div>
                     )}
+                  {booking.escrowStatus === "refunded" && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
+                      <Shield className="h-3 w-3" />
+                      {booking.refundAmount && Number(booking.refundAmount) < Number(booking.price)
+                        ? `Remboursement partiel : ${Number(booking.refundAmount).toFixed(2)}€`
+                        : "Paiement remboursé"}
+                    </div>
+                  )}
                   {booking.escrowStatus === "released" && (
                     <div className="flex items-center gap-2 text-xs text-chart-3 pt-2">
                       <CheckCircle2 className="h-3 w-3" />
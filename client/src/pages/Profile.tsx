@@ -1,13 +1,23 @@
 import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { User as UserIcon, Star, Package, Send, LogOut, CheckCircle } from "lucide-react";
+import { User as UserIcon, Star, Package, Send, LogOut, CheckCircle, Wallet, Gift } from "lucide-react";
+import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import type { User } from "@shared/schema";
+import { IdentityVerificationCard } from "@/components/IdentityVerificationCard";
+import type { User, Review } from "@shared/schema";
+
+interface ReviewWithReviewer extends Review {
+  reviewer?: Pick<User, "id" | "firstName" | "profileImageUrl">;
+}
+
+interface PublicProfile extends User {
+  recentReviews: ReviewWithReviewer[];
+}
 
 export default function Profile() {
   const { user, isLoading, isAuthenticated } = useAuth();
@@ -26,6 +36,11 @@ export default function Profile() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
+  const { data: profile } = useQuery<PublicProfile>({
+    queryKey: ["/api/users", user?.id],
+    enabled: !!user?.id,
+  });
+
   if (isLoading || !user) {
     return (
       <div className="flex items-center justify-center min-h-screen pb-20 md:pb-8">
@@ -72,7 +87,9 @@ export default function Profile() {
                   <span className="font-semibold">
                     {Number(user.rating || 0).toFixed(1)}
                   </span>
-                  <span className="text-sm text-muted-foreground">rating</span>
+                  <span className="text-sm text-muted-foreground">
+                    ({user.reviewCount || 0} avis)
+                  </span>
                 </div>
               </div>
             </div>
@@ -147,6 +164,78 @@ export default function Profile() {
           </Card>
         </div>
 
+        <IdentityVerificationCard isVerified={!!user.isVerified} />
+
+        <Card className="p-6 mb-6 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Mes revenus</h3>
+            <p className="text-sm text-muted-foreground">
+              Gains de vos voyages, virements et historique
+            </p>
+          </div>
+          <Link href="/earnings">
+            <Button variant="outline" data-testid="link-profile-earnings">
+              <Wallet className="h-4 w-4 mr-2" />
+              Voir
+            </Button>
+          </Link>
+        </Card>
+
+        <Card className="p-6 mb-6 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Parrainage</h3>
+            <p className="text-sm text-muted-foreground">
+              Invitez vos proches et gagnez des crédits sur vos envois
+            </p>
+          </div>
+          <Link href="/referrals">
+            <Button variant="outline" data-testid="link-profile-referrals">
+              <Gift className="h-4 w-4 mr-2" />
+              Voir
+            </Button>
+          </Link>
+        </Card>
+
+        {/* Recent Reviews */}
+        <Card className="p-6 md:p-8 mb-6">
+          <h3 className="text-xl font-semibold mb-6">Avis reçus</h3>
+
+          {profile?.recentReviews && profile.recentReviews.length > 0 ? (
+            <div className="space-y-4">
+              {profile.recentReviews.map((review) => (
+                <div key={review.id} className="flex gap-3" data-testid={`review-${review.id}`}>
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={review.reviewer?.profileImageUrl || undefined} />
+                    <AvatarFallback>{review.reviewer?.firstName?.[0] || "U"}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium">{review.reviewer?.firstName || "Utilisateur"}</span>
+                      <div className="flex items-center gap-0.5">
+                        {[1, 2, 3, 4, 5].map((star) => (
+                          <Star
+                            key={star}
+                            className={
+                              star <= review.rating
+                                ? "h-3.5 w-3.5 fill-amber-400 text-amber-400"
+                                : "h-3.5 w-3.5 text-muted-foreground"
+                            }
+                          />
+                        ))}
+                      </div>
+                    </div>
+                    {review.comment && (
+                      <p className="text-sm text-muted-foreground">{review.comment}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Aucun avis pour le moment.</p>
+          )}
+        </Card>
+
         {/* Account Details */}
         <Card className="p-6 md:p-8">
           <h3 className="text-xl font-semibold mb-6">Account Details</h3>
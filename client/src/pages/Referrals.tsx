@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Gift, Copy, Check, Users, Coins } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import type { CreditTransaction, Referral } from "@shared/schema";
+
+interface ReferralSummary {
+  code: string;
+  rewardAmount: string;
+  referred: boolean;
+  canClaim: boolean;
+  referrals: {
+    id: string;
+    firstName: string | null;
+    status: Referral["status"];
+    createdAt: string | null;
+    rewardedAt: string | null;
+  }[];
+  creditBalance: string;
+  credits: CreditTransaction[];
+}
+
+const creditTypeLabels: Record<CreditTransaction["type"], string> = {
+  referral_reward: "Récompense de parrainage",
+  booking: "Utilisé pour une réservation",
+  refund: "Rendu après annulation",
+};
+
+function formatAmount(amount: string | number): string {
+  return `${Number(amount).toFixed(2)}€`;
+}
+
+export default function Referrals() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+  const [claimCode, setClaimCode] = useState("");
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: summary, isLoading: summaryLoading } = useQuery<ReferralSummary>({
+    queryKey: ["/api/referrals"],
+    enabled: isAuthenticated,
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return await apiRequest("POST", "/api/referrals/claim", { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/referrals"] });
+      setClaimCode("");
+      toast({
+        title: "Code de parrainage enregistré",
+        description: "Vous recevrez vos crédits à la livraison de votre premier envoi",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Code refusé",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!summary) return;
+    await navigator.clipboard.writeText(summary.code);
+    setCopied(true);
+    toast({
+      title: "Code copié",
+      description: "Votre code de parrainage a été copié dans le presse-papiers",
+    });
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (summaryLoading || !summary) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-lg text-muted-foreground">Chargement...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20 md:pb-8">
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8 md:py-12">
+        <h1 className="text-3xl md:text-4xl font-semibold mb-2">Parrainage</h1>
+        <p className="text-muted-foreground mb-8">
+          Invitez vos proches : quand leur premier colis est livré, vous recevez chacun{" "}
+          {formatAmount(summary.rewardAmount)} de crédit sur vos prochains envois
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <Card className="p-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <Gift className="h-4 w-4" />
+              Votre code
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="text-2xl font-bold font-mono tracking-widest" data-testid="text-referral-code">
+                {summary.code}
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={handleCopy}
+                data-testid="button-copy-referral-code"
+              >
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              À saisir par vos filleuls avant leur première réservation
+            </p>
+          </Card>
+
+          <Card className="p-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <Coins className="h-4 w-4" />
+              Crédits disponibles
+            </div>
+            <div className="text-2xl font-bold text-chart-3" data-testid="text-credit-balance">
+              {formatAmount(summary.creditBalance)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Déduits du prix de vos réservations si vous le souhaitez
+            </p>
+          </Card>
+        </div>
+
+        {summary.canClaim && (
+          <Card className="p-6 md:p-8 mb-6">
+            <h3 className="text-xl font-semibold mb-2">Vous avez été invité ?</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Saisissez le code de la personne qui vous a invité avant votre première réservation
+            </p>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (claimCode.trim()) claimMutation.mutate(claimCode.trim());
+              }}
+            >
+              <Input
+                placeholder="Code de parrainage"
+                value={claimCode}
+                onChange={(e) => setClaimCode(e.target.value)}
+                data-testid="input-claim-referral-code"
+              />
+              <Button
+                type="submit"
+                disabled={!claimCode.trim() || claimMutation.isPending}
+                data-testid="button-claim-referral"
+              >
+                Valider
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        {/* Friends who joined with the user's code */}
+        <Card className="p-6 md:p-8 mb-6">
+          <h3 className="text-xl font-semibold mb-6">Vos filleuls</h3>
+
+          {summary.referrals.length === 0 ? (
+            <div className="text-center py-6">
+              <Users className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">
+                Personne n'a encore utilisé votre code. Partagez-le !
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {summary.referrals.map((referral) => (
+                <div
+                  key={referral.id}
+                  className="flex items-center justify-between gap-2 py-3"
+                  data-testid={`row-referral-${referral.id}`}
+                >
+                  <div>
+                    <div className="font-medium">{referral.firstName || "Utilisateur"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {referral.createdAt && `Inscrit le ${new Date(referral.createdAt).toLocaleDateString("fr-FR")}`}
+                    </div>
+                  </div>
+                  <Badge
+                    variant="outline"
+                    className={cn(referral.status === "rewarded" && "text-chart-3 border-chart-3")}
+                  >
+                    {referral.status === "rewarded" ? "Récompensé" : "En attente du premier envoi"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Credit history */}
+        <Card className="p-6 md:p-8">
+          <h3 className="text-xl font-semibold mb-6">Historique des crédits</h3>
+
+          {summary.credits.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucun mouvement pour le moment.</p>
+          ) : (
+            <div className="divide-y">
+              {summary.credits.map((credit) => (
+                <div
+                  key={credit.id}
+                  className="flex items-center justify-between gap-2 py-3 text-sm"
+                  data-testid={`row-credit-${credit.id}`}
+                >
+                  <div>
+                    <div>{creditTypeLabels[credit.type]}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {credit.createdAt && new Date(credit.createdAt).toLocaleDateString("fr-FR")}
+                    </div>
+                  </div>
+                  <span className={cn("font-medium", Number(credit.amount) > 0 && "text-chart-3")}>
+                    {Number(credit.amount) > 0 ? "+" : ""}
+                    {formatAmount(credit.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { TripCard } from "@/components/TripCard";
 import type { Trip, User } from "@shared/schema";
 
@@ -23,6 +25,7 @@ export default function Search() {
   const [destinationCity, setDestinationCity] = useState("");
   const [maxPrice, setMaxPrice] = useState("");
   const [minWeight, setMinWeight] = useState("");
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
 
   // Build query params
   const params = new URLSearchParams();
@@ -30,6 +33,7 @@ export default function Search() {
   if (destinationCity) params.append("destination", destinationCity);
   if (maxPrice) params.append("maxPrice", maxPrice);
   if (minWeight) params.append("minWeight", minWeight);
+  if (verifiedOnly) params.append("verifiedOnly", "true");
 
   const { data: trips, isLoading } = useQuery<TripWithTraveler[]>({
     queryKey: ["/api/trips/search", params.toString()],
@@ -114,13 +118,23 @@ export default function Search() {
             </div>
 
             {/* Clear filters button - Full width on mobile for better accessibility */}
-            <div className="mt-4 flex md:justify-end">
+            <div className="mt-4 flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="verified-only"
+                  checked={verifiedOnly}
+                  onCheckedChange={setVerifiedOnly}
+                  data-testid="switch-verified-only"
+                />
+                <Label htmlFor="verified-only">Voyageurs vérifiés uniquement</Label>
+              </div>
               <Button
                 onClick={() => {
                   setDepartureCity("");
                   setDestinationCity("");
                   setMaxPrice("");
                   setMinWeight("");
+                  setVerifiedOnly(false);
                 }}
                 variant="outline"
                 className="w-full md:w-auto"
@@ -15,6 +15,9 @@ import {
   CheckCircle,
   ChevronRight,
   Clock,
+  XCircle,
+  Pencil,
+  Tag,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -29,6 +32,7 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Form,
@@ -44,6 +48,9 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useAuth } from "@/hooks/useAuth";
 import { DateTimePicker } from "@/components/DateTimePicker";
+import { DeclineBookingDialog } from "@/components/DeclineBookingDialog";
+import { EditTripDialog } from "@/components/EditTripDialog";
+import { PriceBreakdown } from "@/components/PriceBreakdown";
 import { insertBookingSchema } from "@shared/schema";
 import type { Trip, User, Booking } from "@shared/schema";
 
@@ -55,6 +62,22 @@ interface BookingWithSender extends Booking {
   sender?: User;
 }
 
+interface PriceQuote {
+  travelerEarnings: string;
+  serviceFee: string;
+  taxAmount: string;
+  total: string;
+  serviceFeePercent: number;
+  serviceFeeFixed: string;
+  vatPercent: number;
+  promoCode: string | null;
+  promoCodeError: string | null;
+  discountAmount: string;
+  creditAmount: string;
+  availableCredit: string;
+  amountDue: string;
+}
+
 // Frontend-only booking schema for the form (uses Date objects)
 const bookingFormSchema = z.object({
   tripId: z.string(),
@@ -93,6 +116,15 @@ export default function TripDetails() {
   const { user } = useAuth();
 
   const [showBookingDialog, setShowBookingDialog] = useState(false);
+  const [decliningBookingId, setDecliningBookingId] = useState<string | null>(null);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showCancelTripDialog, setShowCancelTripDialog] = useState(false);
+  const [cancelTripReason, setCancelTripReason] = useState("");
+  // One key per booking attempt so retried submissions can't create duplicates
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [useCredits, setUseCredits] = useState(false);
 
   const { data: trip, isLoading } = useQuery<TripWithTraveler>({
     queryKey: ["/api/trips", tripId],
@@ -100,6 +132,7 @@ export default function TripDetails() {
   });
 
   const isOwnTrip = user?.id === trip?.travelerId;
+  const hasDeparted = !!trip && new Date(trip.departureDate) <= new Date();
 
   // Fetch bookings if this is the traveler's own trip
   const { data: tripBookings } = useQuery<BookingWithSender[]>({
@@ -137,7 +170,23 @@ export default function TripDetails() {
 
   // Watch weight for price calculation
   const weight = form.watch("weight");
-  const totalPrice = weight && trip ? (Number(weight) * Number(trip.pricePerKg)).toFixed(2) : "0.00";
+  const quoteWeight = Number(weight) > 0 ? Number(weight) : null;
+
+  // Fees, VAT and discounts depend on server-side rules, so the breakdown
+  // comes from the server
+  const quoteParams = new URLSearchParams({ weight: String(quoteWeight) });
+  if (appliedPromoCode) quoteParams.set("promoCode", appliedPromoCode);
+  if (useCredits) quoteParams.set("useCredits", "true");
+  const { data: priceQuote } = useQuery<PriceQuote>({
+    queryKey: [`/api/trips/${tripId}/price-quote?${quoteParams}`],
+    enabled: !!tripId && quoteWeight !== null && showBookingDialog,
+  });
+
+  const resetPromotions = () => {
+    setPromoCodeInput("");
+    setAppliedPromoCode(null);
+    setUseCredits(false);
+  };
 
   const bookingMutation = useMutation({
     mutationFn: async (data: BookingFormData) => {
@@ -157,17 +206,24 @@ export default function TripDetails() {
         pickupDateTime: data.pickupDateTime?.toISOString(),
         deliveryLocation: data.deliveryLocation || null,
         deliveryDateTime: data.deliveryDateTime?.toISOString() || null,
+        idempotencyKey,
+        // The server checks the code again and works out the price itself
+        promoCode: priceQuote?.promoCodeError ? null : appliedPromoCode,
+        useCredits,
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/bookings/my-bookings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
       queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/referrals"] });
       toast({
-        title: "Réservation confirmée !",
-        description: "Consultez vos codes PIN dans 'Mes Réservations'",
+        title: "Demande envoyée !",
+        description: "Le voyageur doit accepter votre demande. Suivez-la dans 'Mes Réservations'",
       });
       setShowBookingDialog(false);
+      setIdempotencyKey(crypto.randomUUID());
+      resetPromotions();
       form.reset();
       // Redirect to my bookings to see PINs
       setLocation("/my-bookings");
@@ -184,6 +240,9 @@ export default function TripDetails() {
         }, 500);
         return;
       }
+      // A failed charge leaves the booking payment-pending; submitting again
+      // with the same idempotency key retries the payment
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my-bookings"] });
       toast({
         title: "Booking failed",
         description: error.message || "Failed to book this trip",
@@ -192,6 +251,70 @@ export default function TripDetails() {
     },
   });
 
+  const handleResponseError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erreur",
+      description: error.message || "Impossible de traiter la demande",
+      variant: "destructive",
+    });
+  };
+
+  const acceptBookingMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/accept`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId, "bookings"] });
+      toast({
+        title: "Réservation acceptée",
+        description: "L'expéditeur a été prévenu",
+      });
+    },
+    onError: handleResponseError,
+  });
+
+  const declineBookingMutation = useMutation({
+    mutationFn: async ({ bookingId, reason }: { bookingId: string; reason: string }) => {
+      return await apiRequest("POST", `/api/bookings/${bookingId}/decline`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId] });
+      toast({
+        title: "Réservation refusée",
+        description: "L'expéditeur a été prévenu et sera remboursé",
+      });
+      setDecliningBookingId(null);
+    },
+    onError: handleResponseError,
+  });
+
+  const cancelTripMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      return await apiRequest("POST", `/api/trips/${tripId}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({
+        title: "Voyage annulé",
+        description: "Les expéditeurs ont été prévenus et seront remboursés",
+      });
+      setShowCancelTripDialog(false);
+      setCancelTripReason("");
+    },
+    onError: handleResponseError,
+  });
+
   const onSubmit = (data: BookingFormData) => {
     // Server will validate dates, so we skip client-side validation to avoid timezone issues
     bookingMutation.mutate(data);
@@ -266,12 +389,54 @@ export default function TripDetails() {
             </div>
 
             {/* Status badge */}
-            {trip.status === "active" && (
+            {trip.status === "active" && !hasDeparted && (
               <Badge className="bg-chart-3 text-white" data-testid="badge-trip-status">
                 <CheckCircle className="h-3 w-3 mr-1" />
                 Available
               </Badge>
             )}
+            {trip.status === "active" && hasDeparted && (
+              <Badge variant="secondary" data-testid="badge-trip-status">
+                <Clock className="h-3 w-3 mr-1" />
+                En cours
+              </Badge>
+            )}
+            {trip.status === "completed" && (
+              <Badge variant="outline" data-testid="badge-trip-status">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Terminé
+              </Badge>
+            )}
+            {trip.status === "cancelled" && (
+              <Badge variant="destructive" data-testid="badge-trip-status">
+                <XCircle className="h-3 w-3 mr-1" />
+                Annulé
+              </Badge>
+            )}
+
+            {isOwnTrip && trip.status === "active" && (
+              <div className="flex gap-2 flex-wrap">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowEditDialog(true)}
+                  data-testid="button-edit-trip"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Modifier
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setShowCancelTripDialog(true)}
+                  data-testid="button-cancel-trip"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Annuler le voyage
+                </Button>
+              </div>
+            )}
 
             {/* Trip info grid - Mobile optimized */}
             <div className="grid grid-cols-1 gap-3 md:gap-4">
@@ -332,6 +497,7 @@ export default function TripDetails() {
                       <div className="flex items-center gap-1 text-sm text-muted-foreground">
                         <Star className="h-4 w-4 fill-amber-400 text-amber-400 flex-shrink-0" />
                         <span>{Number(trip.traveler.rating || 0).toFixed(1)}</span>
+                        <span>({trip.traveler.reviewCount || 0} avis)</span>
                       </div>
                     </div>
                   </div>
@@ -411,6 +577,7 @@ export default function TripDetails() {
                 const statusConfig = {
                   pending: { label: "En attente", variant: "secondary" as const },
                   confirmed: { label: "Confirmé", variant: "default" as const },
+                  declined: { label: "Refusé", variant: "destructive" as const },
                   picked_up: { label: "Récupéré", variant: "default" as const },
                   in_transit: { label: "En transit", variant: "default" as const },
                   arrived: { label: "Arrivé", variant: "default" as const },
@@ -420,47 +587,155 @@ export default function TripDetails() {
                 const config = statusConfig[booking.status as keyof typeof statusConfig];
 
                 return (
-                  <Link
-                    key={booking.id}
-                    href={`/bookings/${booking.id}`}
-                  >
-                    <Card className="p-4 hover-elevate active-elevate-2 transition-all cursor-pointer" data-testid={`card-booking-${booking.id}`}>
-                      <div className="flex items-center justify-between gap-4">
-                        <div className="flex items-center gap-3 flex-1 min-w-0">
-                          <Avatar className="h-10 w-10 flex-shrink-0">
-                            <AvatarImage src={booking.sender?.profileImageUrl || undefined} />
-                            <AvatarFallback>
-                              {booking.sender?.firstName?.[0] || booking.sender?.email?.[0] || "S"}
-                            </AvatarFallback>
-                          </Avatar>
-                          <div className="flex-1 min-w-0">
-                            <div className="font-medium truncate">
-                              {booking.sender?.firstName && booking.sender?.lastName
-                                ? `${booking.sender.firstName} ${booking.sender.lastName}`
-                                : booking.senderName}
-                            </div>
-                            <div className="text-sm text-muted-foreground">
-                              {Number(booking.weight).toFixed(1)}kg • {Number(booking.price).toFixed(2)}€
+                  <div key={booking.id} className="space-y-2">
+                    <Link href={`/bookings/${booking.id}`}>
+                      <Card className="p-4 hover-elevate active-elevate-2 transition-all cursor-pointer" data-testid={`card-booking-${booking.id}`}>
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="flex items-center gap-3 flex-1 min-w-0">
+                            <Avatar className="h-10 w-10 flex-shrink-0">
+                              <AvatarImage src={booking.sender?.profileImageUrl || undefined} />
+                              <AvatarFallback>
+                                {booking.sender?.firstName?.[0] || booking.sender?.email?.[0] || "S"}
+                              </AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1 min-w-0">
+                              <div className="font-medium truncate">
+                                {booking.sender?.firstName && booking.sender?.lastName
+                                  ? `${booking.sender.firstName} ${booking.sender.lastName}`
+                                  : booking.senderName}
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {Number(booking.weight).toFixed(1)}kg • {Number(booking.travelerEarnings ?? booking.price).toFixed(2)}€
+                              </div>
                             </div>
                           </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <Badge variant={config.variant} data-testid={`badge-status-${booking.id}`}>
+                              {config.label}
+                            </Badge>
+                            <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                          </div>
                         </div>
-                        <div className="flex items-center gap-2 flex-shrink-0">
-                          <Badge variant={config.variant} data-testid={`badge-status-${booking.id}`}>
-                            {config.label}
-                          </Badge>
-                          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                      </Card>
+                    </Link>
+                    {booking.status === "pending" && (
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2 px-1">
+                        {booking.escrowStatus === "payment_pending" ? (
+                          <p className="text-xs text-muted-foreground flex-1">
+                            En attente du paiement de l'expéditeur
+                          </p>
+                        ) : booking.responseDeadline && (
+                          <p className="text-xs text-muted-foreground flex-1">
+                            Répondre avant le{" "}
+                            {new Date(booking.responseDeadline).toLocaleString("fr-FR", {
+                              day: "numeric",
+                              month: "short",
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })}
+                          </p>
+                        )}
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1 sm:flex-none min-h-11"
+                            onClick={() => setDecliningBookingId(booking.id)}
+                            disabled={declineBookingMutation.isPending || acceptBookingMutation.isPending}
+                            data-testid={`button-decline-booking-${booking.id}`}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Refuser
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="flex-1 sm:flex-none min-h-11"
+                            onClick={() => acceptBookingMutation.mutate(booking.id)}
+                            disabled={
+                              declineBookingMutation.isPending ||
+                              acceptBookingMutation.isPending ||
+                              booking.escrowStatus === "payment_pending"
+                            }
+                            data-testid={`button-accept-booking-${booking.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Accepter
+                          </Button>
                         </div>
                       </div>
-                    </Card>
-                  </Link>
+                    )}
+                  </div>
                 );
               })}
             </div>
           </Card>
         )}
 
+        <DeclineBookingDialog
+          open={!!decliningBookingId}
+          onOpenChange={(open) => !open && setDecliningBookingId(null)}
+          onConfirm={(reason) =>
+            decliningBookingId &&
+            declineBookingMutation.mutate({ bookingId: decliningBookingId, reason })
+          }
+          isPending={declineBookingMutation.isPending}
+        />
+
+        {isOwnTrip && (
+          <EditTripDialog
+            trip={trip}
+            open={showEditDialog}
+            onOpenChange={setShowEditDialog}
+          />
+        )}
+
+        <Dialog
+          open={showCancelTripDialog}
+          onOpenChange={(open) => {
+            setShowCancelTripDialog(open);
+            if (!open) setCancelTripReason("");
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Annuler le voyage</DialogTitle>
+              <DialogDescription>
+                Toutes les réservations de ce voyage seront annulées et les expéditeurs intégralement remboursés.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              rows={3}
+              maxLength={500}
+              placeholder="Motif (optionnel)"
+              value={cancelTripReason}
+              onChange={(e) => setCancelTripReason(e.target.value)}
+              data-testid="input-cancel-trip-reason"
+            />
+            <DialogFooter className="gap-3 sm:gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowCancelTripDialog(false)}
+                className="flex-1"
+              >
+                Retour
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => cancelTripMutation.mutate(cancelTripReason.trim())}
+                disabled={cancelTripMutation.isPending}
+                className="flex-1"
+                data-testid="button-confirm-cancel-trip"
+              >
+                {cancelTripMutation.isPending ? "Annulation..." : "Annuler le voyage"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* CTA - Sticky on mobile, inline on desktop */}
-        {!isOwnTrip && trip.status === "active" && (
+        {!isOwnTrip && trip.status === "active" && !hasDeparted && (
           <div className="fixed bottom-0 left-0 right-0 p-4 bg-background/95 backdrop-blur-sm border-t border-border shadow-lg md:relative md:bg-transparent md:backdrop-blur-none md:border-0 md:shadow-none md:mt-8 md:p-0 z-10">
             <div className="max-w-4xl mx-auto">
               {Number(trip.availableWeight) === 0 ? (
@@ -705,17 +980,80 @@ export default function TripDetails() {
                   />
                 </div>
 
+                {/* Promo code and referral credits */}
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium" htmlFor="input-promo-code">
+                      Code promo
+                    </label>
+                    <div className="flex gap-2 mt-2">
+                      <Input
+                        id="input-promo-code"
+                        placeholder="Ex : BIENVENUE10"
+                        value={promoCodeInput}
+                        onChange={(e) => setPromoCodeInput(e.target.value)}
+                        disabled={!!appliedPromoCode}
+                        data-testid="input-promo-code"
+                      />
+                      {appliedPromoCode ? (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => {
+                            setAppliedPromoCode(null);
+                            setPromoCodeInput("");
+                          }}
+                          data-testid="button-remove-promo-code"
+                        >
+                          Retirer
+                        </Button>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => setAppliedPromoCode(promoCodeInput.trim().toUpperCase())}
+                          disabled={!promoCodeInput.trim()}
+                          data-testid="button-apply-promo-code"
+                        >
+                          <Tag className="h-4 w-4 mr-2" />
+                          Appliquer
+                        </Button>
+                      )}
+                    </div>
+                    {appliedPromoCode && priceQuote?.promoCodeError && (
+                      <p className="text-sm text-destructive mt-1" data-testid="text-promo-code-error">
+                        {priceQuote.promoCodeError}
+                      </p>
+                    )}
+                  </div>
+
+                  {priceQuote && Number(priceQuote.availableCredit) > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="checkbox-use-credits"
+                        checked={useCredits}
+                        onCheckedChange={(checked) => setUseCredits(checked === true)}
+                        data-testid="checkbox-use-credits"
+                      />
+                      <label htmlFor="checkbox-use-credits" className="text-sm">
+                        Utiliser mes crédits de parrainage ({Number(priceQuote.availableCredit).toFixed(2)}€ disponibles)
+                      </label>
+                    </div>
+                  )}
+                </div>
+
                 {/* Price Summary */}
-                {weight && Number(weight) > 0 && (
+                {quoteWeight !== null && priceQuote && (
                   <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
-                    <div className="flex justify-between items-center">
+                    <div className="flex justify-between items-center mb-3">
                       <span className="font-medium">Prix total :</span>
                       <span className="text-2xl font-bold text-primary">
-                        {totalPrice}€
+                        {priceQuote.amountDue}€
                       </span>
                     </div>
+                    <PriceBreakdown {...priceQuote} total={priceQuote.amountDue} />
                     <p className="text-xs text-muted-foreground mt-2">
-                      {weight}kg × {Number(trip.pricePerKg).toFixed(2)}€/kg
+                      Rémunération du voyageur : {weight}kg × {Number(trip.pricePerKg).toFixed(2)}€/kg
                     </p>
                   </div>
                 )}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { ExternalLink, CheckCircle, XCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { IdentityVerification, User } from "@shared/schema";
+
+interface VerificationWithUser extends IdentityVerification {
+  user?: User;
+}
+
+type QueueStatus = IdentityVerification["status"];
+
+const documentTypeLabels: Record<IdentityVerification["documentType"], string> = {
+  passport: "Passeport",
+  id_card: "Carte d'identité",
+  driving_license: "Permis de conduire",
+};
+
+export default function VerificationQueue() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [status, setStatus] = useState<QueueStatus>("pending");
+  const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({});
+
+  const { data: verifications, isLoading } = useQuery<VerificationWithUser[]>({
+    queryKey: [`/api/verifications/queue?status=${status}`],
+    enabled: user?.role === "admin",
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({
+      id,
+      decision,
+      rejectionReason,
+    }: {
+      id: string;
+      decision: "approved" | "rejected";
+      rejectionReason?: string;
+    }) => {
+      return await apiRequest("POST", `/api/verifications/${id}/review`, {
+        decision,
+        rejectionReason,
+      });
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          String(query.queryKey[0]).startsWith("/api/verifications/queue"),
+      });
+      toast({
+        title: variables.decision === "approved" ? "Identité approuvée" : "Demande refusée",
+        description: "L'utilisateur a été prévenu",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible de traiter la demande",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "admin") {
+    return (
+      <div className="flex items-center justify-center min-h-screen pb-20 md:pb-8">
+        <div className="text-muted-foreground">Accès réservé aux administrateurs</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20 md:pb-8">
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8 md:py-12">
+        <h1 className="text-3xl md:text-4xl font-semibold mb-8">Vérifications d'identité</h1>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)} className="mb-6">
+          <TabsList>
+            <TabsTrigger value="pending" data-testid="tab-pending">En attente</TabsTrigger>
+            <TabsTrigger value="approved" data-testid="tab-approved">Approuvées</TabsTrigger>
+            <TabsTrigger value="rejected" data-testid="tab-rejected">Refusées</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Chargement...</div>
+        ) : !verifications || verifications.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">Aucune demande</Card>
+        ) : (
+          <div className="space-y-4">
+            {verifications.map((verification) => (
+              <Card key={verification.id} className="p-6" data-testid={`verification-${verification.id}`}>
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <div className="font-semibold">
+                      {verification.user?.firstName} {verification.user?.lastName}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{verification.user?.email}</div>
+                  </div>
+                  <div className="text-right text-sm text-muted-foreground">
+                    <div>{documentTypeLabels[verification.documentType]}</div>
+                    {verification.createdAt && (
+                      <div>{format(new Date(verification.createdAt), "PPP 'à' HH:mm", { locale: fr })}</div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex gap-3 mb-4">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={verification.documentPath} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Pièce d'identité
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={verification.selfiePath} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Selfie
+                    </a>
+                  </Button>
+                </div>
+
+                {verification.status === "rejected" && (
+                  <p className="text-sm text-muted-foreground">
+                    Motif : {verification.rejectionReason}
+                  </p>
+                )}
+
+                {verification.status === "pending" && (
+                  <div className="space-y-3">
+                    <Textarea
+                      rows={2}
+                      maxLength={500}
+                      placeholder="Motif du refus (requis pour refuser)"
+                      value={rejectionReasons[verification.id] || ""}
+                      onChange={(e) =>
+                        setRejectionReasons((prev) => ({
+                          ...prev,
+                          [verification.id]: e.target.value,
+                        }))
+                      }
+                      data-testid={`input-rejection-reason-${verification.id}`}
+                    />
+                    <div className="flex gap-3">
+                      <Button
+                        variant="destructive"
+                        onClick={() =>
+                          reviewMutation.mutate({
+                            id: verification.id,
+                            decision: "rejected",
+                            rejectionReason: rejectionReasons[verification.id]?.trim(),
+                          })
+                        }
+                        disabled={
+                          reviewMutation.isPending ||
+                          !rejectionReasons[verification.id]?.trim()
+                        }
+                        data-testid={`button-reject-${verification.id}`}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Refuser
+                      </Button>
+                      <Button
+                        onClick={() =>
+                          reviewMutation.mutate({ id: verification.id, decision: "approved" })
+                        }
+                        disabled={reviewMutation.isPending}
+                        data-testid={`button-approve-${verification.id}`}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Approuver
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
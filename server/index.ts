@@ -2,6 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { startReminderCron } from "./jobs/reminder-cron";
+import { startBookingExpiryCron } from "./jobs/booking-expiry-cron";
+import { startTripCompletionCron } from "./jobs/trip-completion-cron";
+import { startReviewCron } from "./jobs/review-cron";
+import { startMessageRetentionCron } from "./jobs/message-retention-cron";
+import { startPaymentReconciliationCron } from "./jobs/payment-reconciliation-cron";
 
 const app = express();
 
@@ -70,6 +75,21 @@ app.use((req, res, next) => {
   // Start reminder cron job
   startReminderCron();
 
+  // Start booking request expiry job
+  startBookingExpiryCron();
+
+  // Start trip completion job
+  startTripCompletionCron();
+
+  // Start review publication job
+  startReviewCron();
+
+  // Start message retention purge job
+  startMessageRetentionCron();
+
+  // Start payment reconciliation job
+  startPaymentReconciliationCron();
+
   // ALWAYS serve the app on the port specified in the environment variable PORT
   // Other ports are firewalled. Default to 5000 if not specified.
   // this serves both the API and the client.
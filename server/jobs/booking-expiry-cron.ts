@@ -0,0 +1,32 @@
+import cron from "node-cron";
+import { expireOverdueBookingRequests, expireUnpaidBookingRequests } from "../services/booking-requests";
+
+async function expire() {
+  await expireUnpaidBookingRequests();
+  await expireOverdueBookingRequests();
+}
+
+/**
+ * Start the booking request expiry cron job
+ * Runs every 5 minutes to cancel unpaid booking requests and auto-decline
+ * unanswered ones
+ */
+export function startBookingExpiryCron() {
+  // Run every 5 minutes
+  const task = cron.schedule("*/5 * * * *", async () => {
+    console.log("[Booking Expiry Cron] Checking for overdue booking requests...");
+    try {
+      await expire();
+    } catch (error) {
+      console.error("[Booking Expiry Cron] Error expiring booking requests:", error);
+    }
+  });
+
+  // Also run immediately on startup
+  console.log("[Booking Expiry Cron] Starting booking expiry job...");
+  expire().catch((error) => {
+    console.error("[Booking Expiry Cron] Error in initial expiry check:", error);
+  });
+
+  return task;
+}
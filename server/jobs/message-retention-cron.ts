@@ -0,0 +1,26 @@
+import cron from "node-cron";
+import { purgeExpiredMessages } from "../services/message-retention";
+
+/**
+ * Start the message retention cron job
+ * Runs daily to purge expired messages and attachments
+ */
+export function startMessageRetentionCron() {
+  // Run every day at 3:15 AM
+  const task = cron.schedule("15 3 * * *", async () => {
+    console.log("[Message Retention Cron] Purging expired messages...");
+    try {
+      await purgeExpiredMessages();
+    } catch (error) {
+      console.error("[Message Retention Cron] Error purging expired messages:", error);
+    }
+  });
+
+  // Also run immediately on startup
+  console.log("[Message Retention Cron] Starting message retention job...");
+  purgeExpiredMessages().catch((error) => {
+    console.error("[Message Retention Cron] Error in initial purge:", error);
+  });
+
+  return task;
+}
@@ -0,0 +1,33 @@
+import cron from "node-cron";
+import { reconcileBookingPayments } from "../services/booking-creation";
+import { retryPendingPayouts } from "../services/traveler-wallet";
+
+async function reconcile() {
+  await reconcileBookingPayments();
+  await retryPendingPayouts();
+}
+
+/**
+ * Start the payment reconciliation cron job
+ * Runs every 10 minutes to settle payments and payouts interrupted between
+ * the provider and the database
+ */
+export function startPaymentReconciliationCron() {
+  // Run every 10 minutes
+  const task = cron.schedule("*/10 * * * *", async () => {
+    console.log("[Payment Reconciliation Cron] Checking for interrupted payments and payouts...");
+    try {
+      await reconcile();
+    } catch (error) {
+      console.error("[Payment Reconciliation Cron] Error reconciling payments:", error);
+    }
+  });
+
+  // Also run immediately on startup
+  console.log("[Payment Reconciliation Cron] Starting payment reconciliation job...");
+  reconcile().catch((error) => {
+    console.error("[Payment Reconciliation Cron] Error in initial reconciliation:", error);
+  });
+
+  return task;
+}
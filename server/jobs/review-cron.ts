@@ -0,0 +1,26 @@
+import cron from "node-cron";
+import { publishExpiredReviews } from "../services/reviews";
+
+/**
+ * Start the review publication cron job
+ * Runs every hour to publish reviews whose review window has closed
+ */
+export function startReviewCron() {
+  // Run at 30 minutes past every hour
+  const task = cron.schedule("30 * * * *", async () => {
+    console.log("[Review Cron] Checking for reviews to publish...");
+    try {
+      await publishExpiredReviews();
+    } catch (error) {
+      console.error("[Review Cron] Error publishing reviews:", error);
+    }
+  });
+
+  // Also run immediately on startup
+  console.log("[Review Cron] Starting review publication job...");
+  publishExpiredReviews().catch((error) => {
+    console.error("[Review Cron] Error in initial review check:", error);
+  });
+
+  return task;
+}
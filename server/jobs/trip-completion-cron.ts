@@ -0,0 +1,26 @@
+import cron from "node-cron";
+import { processDepartedTrips } from "../services/trip-completion";
+
+/**
+ * Start the trip completion cron job
+ * Runs every hour to close departed trips and complete arrived ones
+ */
+export function startTripCompletionCron() {
+  // Run at the start of every hour
+  const task = cron.schedule("0 * * * *", async () => {
+    console.log("[Trip Completion Cron] Checking for departed trips...");
+    try {
+      await processDepartedTrips();
+    } catch (error) {
+      console.error("[Trip Completion Cron] Error processing trips:", error);
+    }
+  });
+
+  // Also run immediately on startup
+  console.log("[Trip Completion Cron] Starting trip completion job...");
+  processDepartedTrips().catch((error) => {
+    console.error("[Trip Completion Cron] Error in initial trip check:", error);
+  });
+
+  return task;
+}
@@ -7,9 +7,11 @@ const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 // Can be flexibly defined according to the use case.
 //
 // For ParcelLink, we support:
-// - CONVERSATION_PARTICIPANT: users who are part of a specific booking conversation
+// - CONVERSATION_PARTICIPANT: users who are part of a specific conversation thread
+// - VERIFICATION_REVIEWER: staff reviewing identity verification submissions
 export enum ObjectAccessGroupType {
   CONVERSATION_PARTICIPANT = "conversation_participant",
+  VERIFICATION_REVIEWER = "verification_reviewer",
 }
 
 // The logic user group that can access the object.
@@ -18,7 +20,8 @@ export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
   // The logic id that is enough to identify the qualified group members.
   //
-  // For CONVERSATION_PARTICIPANT: the booking ID
+  // For CONVERSATION_PARTICIPANT: the thread ID (see getThreadId)
+  // For VERIFICATION_REVIEWER: the verification submission ID
   id: string;
 }
 
@@ -69,27 +72,16 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
-// Access group for conversation participants (sender and traveler in a booking)
+// Access group for the two participants of a conversation thread
 class ConversationParticipantAccessGroup extends BaseObjectAccessGroup {
-  constructor(bookingId: string) {
-    super(ObjectAccessGroupType.CONVERSATION_PARTICIPANT, bookingId);
+  constructor(threadId: string) {
+    super(ObjectAccessGroupType.CONVERSATION_PARTICIPANT, threadId);
   }
 
   async hasMember(userId: string): Promise<boolean> {
-    // In real implementation, would query the database to check if userId
-    // is either the sender or the traveler of the booking
-    // For now, we'll use a simple import to avoid circular dependencies
-    const { storage } = await import("./storage");
+    const { isThreadMember } = await import("./services/conversation-threads");
     try {
-      const booking = await storage.getBooking(this.id);
-      if (!booking) return false;
-      
-      // Check if user is sender or if they're the traveler
-      if (booking.senderId === userId) return true;
-      
-      // Get the trip to check if user is the traveler
-      const trip = await storage.getTrip(booking.tripId);
-      return trip?.travelerId === userId;
+      return await isThreadMember(this.id, userId);
     } catch (error) {
       console.error("Error checking conversation participant:", error);
       return false;
@@ -97,12 +89,31 @@ class ConversationParticipantAccessGroup extends BaseObjectAccessGroup {
   }
 }
 
+// Access group for identity documents: only verification reviewers can read them
+class VerificationReviewerAccessGroup extends BaseObjectAccessGroup {
+  constructor(verificationId: string) {
+    super(ObjectAccessGroupType.VERIFICATION_REVIEWER, verificationId);
+  }
+
+  async hasMember(userId: string): Promise<boolean> {
+    const { isVerificationReviewer } = await import("./services/identity-verification");
+    try {
+      return await isVerificationReviewer(userId);
+    } catch (error) {
+      console.error("Error checking verification reviewer:", error);
+      return false;
+    }
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
     case ObjectAccessGroupType.CONVERSATION_PARTICIPANT:
       return new ConversationParticipantAccessGroup(group.id);
+    case ObjectAccessGroupType.VERIFICATION_REVIEWER:
+      return new VerificationReviewerAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -38,6 +38,14 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
+export class ObjectOwnershipError extends Error {
+  constructor() {
+    super("Object belongs to another user");
+    this.name = "ObjectOwnershipError";
+    Object.setPrototypeOf(this, ObjectOwnershipError.prototype);
+  }
+}
+
 // The object storage service is used to interact with the object storage service.
 export class ObjectStorageService {
   constructor() {}
@@ -206,6 +214,21 @@ export class ObjectStorageService {
     return `/objects/${entityId}`;
   }
 
+  // Deletes the object entity behind a URL or object path. Objects that are
+  // already gone are ignored.
+  async deleteObjectEntity(rawPath: string): Promise<void> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    try {
+      const objectFile = await this.getObjectEntityFile(normalizedPath);
+      await objectFile.delete();
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return;
+      }
+      throw error;
+    }
+  }
+
   // Tries to set the ACL policy for the object entity and return the normalized path.
   async trySetObjectEntityAclPolicy(
     rawPath: string,
@@ -216,7 +239,13 @@ export class ObjectStorageService {
       return normalizedPath;
     }
 
+    // A fresh upload has no policy yet; once claimed, only its owner can
+    // change who reads it
     const objectFile = await this.getObjectEntityFile(normalizedPath);
+    const currentPolicy = await getObjectAclPolicy(objectFile);
+    if (currentPolicy && currentPolicy.owner !== aclPolicy.owner) {
+      throw new ObjectOwnershipError();
+    }
     await setObjectAclPolicy(objectFile, aclPolicy);
     return normalizedPath;
   }
@@ -3,10 +3,12 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { getAccountRestriction } from "./services/moderation";
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -44,6 +46,9 @@ export function getSession() {
   });
 }
 
+// Shared by Express and the WebSocket upgrade so both read the same sessions
+let sessionMiddleware: RequestHandler | null = null;
+
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
@@ -66,7 +71,8 @@ async function upsertUser(claims: any) {
 
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -124,6 +130,56 @@ export async function setupAuth(app: Express) {
   });
 }
 
+/**
+ * Resolve the signed-in user of a WebSocket upgrade request from its session
+ * cookie. Returns null when there is no session or its tokens have expired;
+ * the next HTTP request refreshes them.
+ */
+export async function getSessionUserId(req: IncomingMessage): Promise<string | null> {
+  const middleware = sessionMiddleware;
+  if (!middleware) {
+    return null;
+  }
+
+  // The upgrade has no Express response; the session is only read, never written
+  await new Promise<void>((resolve, reject) => {
+    middleware(req as Request, {} as Response, (err?: unknown) =>
+      err ? reject(err) : resolve()
+    );
+  });
+
+  const user = (req as any).session?.passport?.user;
+  if (!user?.claims?.sub || !user.expires_at) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return now <= user.expires_at ? user.claims.sub : null;
+}
+
+// Banned users can still load their own profile so the client can explain the ban
+const BANNED_USER_ALLOWED_PATHS = ["/api/auth/user"];
+
+// Reject banned accounts. Suspended users keep access to finish their ongoing
+// bookings; creating trips and bookings is checked by those routes.
+const enforceAccountStatus: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  try {
+    const dbUser = await storage.getUser(user.claims.sub);
+    const restriction = dbUser && getAccountRestriction(dbUser);
+
+    if (restriction?.status === "banned" && !BANNED_USER_ALLOWED_PATHS.includes(req.path)) {
+      return res.status(403).json({ message: "Account banned", restriction });
+    }
+    return next();
+  } catch (error) {
+    console.error("Error checking account status:", error);
+    res.status(500).json({ message: "Failed to check account status" });
+    return;
+  }
+};
+
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
   const user = req.user as any;
 
@@ -133,7 +189,7 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
 
   const now = Math.floor(Date.now() / 1000);
   if (now <= user.expires_at) {
-    return next();
+    return enforceAccountStatus(req, res, next);
   }
 
   const refreshToken = user.refresh_token;
@@ -146,9 +202,26 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     const config = await getOidcConfig();
     const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
     updateUserSession(user, tokenResponse);
-    return next();
+    return enforceAccountStatus(req, res, next);
   } catch (error) {
     res.status(401).json({ message: "Unauthorized" });
     return;
   }
 };
+
+// Must run after isAuthenticated
+export const isAdmin: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  try {
+    const dbUser = await storage.getUser(user?.claims?.sub);
+    if (dbUser?.role !== "admin") {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    return next();
+  } catch (error) {
+    console.error("Error checking admin role:", error);
+    res.status(500).json({ message: "Failed to check permissions" });
+    return;
+  }
+};
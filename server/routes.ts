@@ -1,29 +1,114 @@
 import type { Express } from "express";
-import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
+import { createServer, type IncomingMessage, type Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, isAdmin, getSessionUserId } from "./replitAuth";
 import {
   insertTripSchema,
   insertBookingSchema,
   insertMessageSchema,
+  insertReviewSchema,
   insertMessageAttachmentSchema,
-  trips,
   bookings as bookingsTable,
   reminders as remindersTable,
+  type Booking,
+  type Message,
+  type Notification,
 } from "@shared/schema";
 import { z } from "zod";
 import {
   ObjectStorageService,
   ObjectNotFoundError,
+  ObjectOwnershipError,
 } from "./objectStorage";
-import { ObjectAccessGroupType, ObjectPermission } from "./objectAcl";
+import { ObjectPermission } from "./objectAcl";
 import { validateUploadedFile, validateFileMetadata } from "./fileValidator";
 import { filterContent, shouldBlockContent } from "./contentFilter";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
-import { scheduleAppointmentReminders, cancelBookingReminders } from "./services/reminder-scheduler";
+import { cancelBookingReminders } from "./services/reminder-scheduler";
 import { generateICSFile } from "./services/calendar";
+import {
+  calculateResponseDeadline,
+  calculatePaymentDeadline,
+  declineBookingRequest,
+} from "./services/booking-requests";
+import {
+  createBookingRequest,
+  findBookingByIdempotencyKey,
+  announceBookingRequest,
+  BookingCapacityError,
+} from "./services/booking-creation";
+import {
+  transitionBooking,
+  resolveBookingActorRole,
+  getAllowedTransitions,
+  canTransition,
+  BookingTransitionError,
+  STATUS_LABELS,
+} from "./services/booking-lifecycle";
+import { cancelBooking, getCancellationQuote } from "./services/booking-cancellation";
+import { chargeBooking, settleEscrow, getFailedRefunds, PaymentError } from "./services/escrow-ledger";
+import { calculatePriceBreakdown } from "./services/pricing";
+import {
+  quoteBooking,
+  listPromoCodes,
+  createPromoCode,
+  setPromoCodeActive,
+  PromotionError,
+} from "./services/promotions";
+import {
+  getReferralSummary,
+  claimReferral,
+  rewardReferral,
+  ReferralError,
+} from "./services/referrals";
+import {
+  getBookingDocumentPdf,
+  sendDeliveryConfirmations,
+  BookingDocumentError,
+} from "./services/booking-documents";
+import {
+  getWallet,
+  getPayoutHistory,
+  requestPayout,
+  PayoutError,
+} from "./services/traveler-wallet";
+import { updateTrip, cancelTrip, TripUpdateError } from "./services/trip-management";
+import { submitReview, getReviewDeadline, ReviewError } from "./services/reviews";
+import {
+  submitVerification,
+  reviewVerification,
+  VerificationError,
+} from "./services/identity-verification";
+import {
+  resolveReport,
+  takeModerationAction,
+  getAccountRestriction,
+  ModerationError,
+} from "./services/moderation";
+import {
+  addConnection,
+  removeConnection,
+  getOnlineUserIds,
+  isUserOnline,
+  sendToUser,
+  broadcast,
+  startRealtime,
+} from "./services/realtime";
+import { createNotification, pushNotifications } from "./services/notifications";
+import { markMessagesDelivered, markMessagesAsRead } from "./services/message-status";
+import {
+  assertBookingThreadParticipants,
+  ConversationThreadError,
+  getThreadAclPolicy,
+} from "./services/conversation-threads";
+import {
+  editMessage,
+  deleteMessage,
+  MessageEditError,
+  MAX_MESSAGE_LENGTH,
+} from "./services/message-editing";
 
 // Create API schemas that accept date strings and coerce numbers
 const createTripSchema = insertTripSchema
@@ -41,48 +126,112 @@ const createTripSchema = insertTripSchema
     pricePerKg: z.coerce.number().positive("Price per kg must be positive"),
   });
 
-// WebSocket client tracking
-interface WSClient {
-  ws: WebSocket;
+// Fields a traveler may change on an existing trip
+const updateTripSchema = z
+  .object({
+    departureDate: z.string().transform((val) => new Date(val)),
+    arrivalDate: z.string().transform((val) => new Date(val)),
+    maxWeight: z.coerce.number().positive("Maximum weight must be positive"),
+    pricePerKg: z.coerce.number().positive("Price per kg must be positive"),
+    maxDimensions: z.string().nullable(),
+    acceptedItems: z.string().nullable(),
+    restrictedItems: z.string().nullable(),
+  })
+  .partial();
+
+const uploadedFileSchema = z.object({
+  url: z.string().min(1),
+  fileName: z.string().min(1),
+  fileType: z.string().min(1),
+  fileSize: z.number().positive(),
+});
+
+const submitVerificationSchema = z.object({
+  documentType: z.enum(["passport", "id_card", "driving_license"]),
+  document: uploadedFileSchema,
+  selfie: uploadedFileSchema,
+});
+
+const resolveReportSchema = z.object({
+  status: z.enum(["resolved", "dismissed"]),
+  note: z.string().trim().max(1000).optional().nullable(),
+});
+
+const moderationActionSchema = z.object({
+  action: z.enum(["warning", "suspension", "ban"]),
+  reason: z.string().trim().min(1).max(1000),
+  durationDays: z.number().int().min(1).max(365).optional().nullable(),
+  reportId: z.string().optional().nullable(),
+});
+
+const legalHoldSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const bookingPromotionSchema = z.object({
+  promoCode: z.string().trim().max(32).optional().nullable(),
+  useCredits: z.boolean().optional(),
+});
+
+const createPromoCodeSchema = z.object({
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/),
+  description: z.string().trim().max(500).optional().nullable(),
+  discountType: z.enum(["percent", "fixed"]),
+  discountValue: z.number().positive(),
+  minOrderAmount: z.number().positive().optional().nullable(),
+  startsAt: z.coerce.date().optional().nullable(),
+  endsAt: z.coerce.date().optional().nullable(),
+  maxUses: z.number().int().positive().optional().nullable(),
+  perUserLimit: z.number().int().positive().default(1),
+});
+
+const promoCodeStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+const claimReferralSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+});
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+// Upgrade request once verifyClient has resolved the session's user
+interface AuthenticatedUpgradeRequest extends IncomingMessage {
   userId: string;
-  onlineStatus: "online" | "offline";
-  lastSeen: Date;
-  typingTo?: string; // userId of the person they're typing to
-  typingTimeout?: NodeJS.Timeout;
 }
 
-const clients = new Map<string, WSClient>();
-
 // Helper function to broadcast user status to relevant clients
 function broadcastUserStatus(userId: string, status: "online" | "offline") {
-  const statusMessage = {
+  broadcast({
     type: "user_status",
     userId,
     status,
     timestamp: new Date().toISOString(),
-  };
+  });
+}
 
-  // Broadcast to all connected clients
-  for (const [, client] of Array.from(clients.entries())) {
-    if (client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(JSON.stringify(statusMessage));
-    }
-  }
+// Acknowledge a resent message that was already stored, without creating it again
+async function acknowledgeStoredMessage(ws: WebSocket, message: Message, clientMessageId: string) {
+  const attachments = await storage.getMessageAttachments(message.id);
+  ws.send(
+    JSON.stringify({
+      type: "message_sent",
+      message: { ...message, attachments },
+      status: "sent",
+      clientMessageId,
+    })
+  );
 }
 
 // Helper function to broadcast typing indicator
 function broadcastTypingIndicator(senderId: string, receiverId: string, isTyping: boolean) {
-  const receiverClient = clients.get(receiverId);
-  if (receiverClient && receiverClient.ws.readyState === WebSocket.OPEN) {
-    receiverClient.ws.send(
-      JSON.stringify({
-        type: "typing_indicator",
-        userId: senderId,
-        isTyping,
-        timestamp: new Date().toISOString(),
-      })
-    );
-  }
+  sendToUser(receiverId, {
+    type: "typing_indicator",
+    userId: senderId,
+    isTyping,
+    timestamp: new Date().toISOString(),
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -105,6 +254,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/trips", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const restriction = user && getAccountRestriction(user);
+      if (restriction) {
+        return res.status(403).json({
+          message: "Votre compte est restreint : vous ne pouvez pas publier de voyage",
+          restriction,
+        });
+      }
+
       const validatedData = createTripSchema.parse({
         ...req.body,
         travelerId: userId,
@@ -178,6 +336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         minWeight: req.query.minWeight
           ? parseFloat(req.query.minWeight as string)
           : undefined,
+        verifiedOnly: req.query.verifiedOnly === "true",
       };
 
       const trips = await storage.searchTrips(filters);
@@ -212,6 +371,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price breakdown of a parcel of the given weight, shown before booking
+  // Price for the signed-in sender, with the promo code and credits they want to use
+  app.get("/api/trips/:id/price-quote", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const weight = Number(req.query.weight);
+      if (!Number.isFinite(weight) || weight <= 0) {
+        return res.status(400).json({ message: "Le poids doit être supérieur à zéro" });
+      }
+
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+
+      const promoCode = typeof req.query.promoCode === "string" ? req.query.promoCode : null;
+      const useCredits = req.query.useCredits === "true";
+      res.json(await quoteBooking(userId, calculatePriceBreakdown(trip, weight), { promoCode, useCredits }));
+    } catch (error) {
+      console.error("Error computing price quote:", error);
+      res.status(500).json({ message: "Failed to compute price quote" });
+    }
+  });
+
+  app.patch("/api/trips/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+
+      // Only the traveler can edit their trip
+      if (trip.travelerId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const changes = updateTripSchema.parse(req.body);
+      const updatedTrip = await updateTrip(trip.id, changes);
+      res.json(updatedTrip);
+    } catch (error: any) {
+      if (error instanceof TripUpdateError) {
+        return res.status(error.status).json({
+          message: error.message,
+          conflictingBookingIds: error.conflictingBookingIds,
+        });
+      }
+      console.error("Error updating trip:", error);
+      res.status(400).json({
+        message: error.message || "Failed to update trip",
+      });
+    }
+  });
+
+  // Traveler cancels a trip: every booking on it is cancelled and refunded
+  app.post("/api/trips/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+
+      // Only the traveler can cancel their trip
+      if (trip.travelerId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (trip.status !== "active") {
+        return res.status(409).json({ message: "Seuls les voyages actifs peuvent être annulés" });
+      }
+
+      const reason =
+        typeof req.body?.reason === "string" && req.body.reason.trim()
+          ? req.body.reason.trim().slice(0, 500)
+          : null;
+
+      const result = await cancelTrip(trip, reason);
+      res.json({ ...result.trip, cancelledBookings: result.cancelledBookings });
+    } catch (error) {
+      if (error instanceof TripUpdateError) {
+        return res.status(error.status).json({
+          message: error.message,
+          conflictingBookingIds: error.conflictingBookingIds,
+        });
+      }
+      console.error("Error cancelling trip:", error);
+      res.status(500).json({ message: "Failed to cancel trip" });
+    }
+  });
+
   app.get("/api/trips/:id/bookings", isAuthenticated, async (req: any, res) => {
     try {
       const tripId = req.params.id;
@@ -253,6 +503,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         senderId: userId,
       });
+      const promotions = bookingPromotionSchema.parse(req.body);
+
+      // Retried requests (e.g. flaky mobile connections) reuse the same key
+      const rawIdempotencyKey = req.get("Idempotency-Key") || req.body.idempotencyKey;
+      const idempotencyKey =
+        typeof rawIdempotencyKey === "string" && rawIdempotencyKey.trim()
+          ? rawIdempotencyKey.trim().slice(0, 100)
+          : null;
 
       // Get trip to validate weight and get traveler info
       const trip = await storage.getTrip(validatedData.tripId);
@@ -261,6 +519,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
+      // The booking stays payment-pending until the charge succeeds; the
+      // traveler gets the request message and notification once it is paid.
+      // Charging a booking that is already paid does nothing.
+      const payBooking = async (booking: Booking): Promise<Booking> => {
+        let travelerNotifications: Notification[] = [];
+        const paidBooking = await chargeBooking(booking, req.body.paymentMethodId, {
+          onPaid: async (tx, paid) => {
+            travelerNotifications = [await announceBookingRequest(tx, paid, trip)];
+          },
+        });
+        await pushNotifications(travelerNotifications);
+        return paidBooking;
+      };
+
+      // A retry of a request whose booking was stored: pay it if the first
+      // attempt did not get that far
+      if (idempotencyKey) {
+        const existingBooking = await findBookingByIdempotencyKey(userId, idempotencyKey);
+        if (existingBooking) {
+          res.json({
+            ...(await payBooking(existingBooking)),
+            conversationUserId: trip.travelerId
+          });
+          return;
+        }
+      }
+
+      if (trip.status !== "active" || new Date(trip.departureDate) <= new Date()) {
+        res.status(400).json({
+          message: "Ce voyage n'accepte plus de réservations"
+        });
+        return;
+      }
+
+      const sender = await storage.getUser(userId);
+      const senderRestriction = sender && getAccountRestriction(sender);
+      if (senderRestriction) {
+        res.status(403).json({
+          message: "Votre compte est restreint : vous ne pouvez pas réserver de voyage",
+          restriction: senderRestriction,
+        });
+        return;
+      }
+
+      const traveler = await storage.getUser(trip.travelerId);
+      if (traveler && getAccountRestriction(traveler)) {
+        res.status(400).json({
+          message: "Ce voyage n'accepte plus de réservations"
+        });
+        return;
+      }
+
       // Validate appointment dates if provided (allow times on same day as trip)
       if (validatedData.pickupDateTime) {
         const pickupDate = new Date(validatedData.pickupDateTime);
@@ -309,63 +619,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // SECURITY: Calculate price on server (never trust client-provided price)
-      const serverCalculatedPrice = (requestedWeight * Number(trip.pricePerKg)).toFixed(2);
-
-      // Create the booking with server-calculated price
-      const booking = await storage.createBooking({
-        ...validatedData,
-        price: serverCalculatedPrice,
-      });
-
-      // Update trip available weight
-      const newAvailableWeight = availableWeight - requestedWeight;
-      await db
-        .update(trips)
-        .set({ 
-          availableWeight: newAvailableWeight.toString(),
-          updatedAt: new Date() 
-        })
-        .where(eq(trips.id, trip.id));
-
-      // Create system message to start conversation
-      const systemMessage = await storage.createMessage({
-        bookingId: booking.id,
-        senderId: userId,
-        receiverId: trip.travelerId,
-        content: `Nouvelle réservation confirmée\n\nColis : ${validatedData.description || "Colis à livrer"}\nPoids : ${requestedWeight}kg\nPrix total : ${serverCalculatedPrice}€\n\nExpéditeur : ${validatedData.senderName}\nTéléphone : ${validatedData.senderPhone}\n\nVous pouvez maintenant discuter pour coordonner la livraison.`,
-      });
-
-      // Create notification for traveler
-      await storage.createNotification({
-        userId: trip.travelerId,
-        type: "booking",
-        title: "Nouvelle réservation !",
-        message: `Vous avez une nouvelle réservation pour ${trip.departureCity} → ${trip.destinationCity}`,
-        relatedId: booking.id,
+      const breakdown = calculatePriceBreakdown(trip, requestedWeight);
+      const serverCalculatedPrice = breakdown.total;
+
+      // Create the booking request with server-calculated price; the promo
+      // code and credits are validated and taken off when it is created
+      // The traveler must accept it before the response deadline, and it is
+      // cancelled if it is still unpaid after the payment deadline
+      // Capacity, booking and reminders are written atomically
+      const responseDeadline = calculateResponseDeadline();
+      const { booking, created } = await createBookingRequest({
+        bookingData: {
+          ...validatedData,
+          price: serverCalculatedPrice,
+        },
+        breakdown,
+        promotions,
+        trip,
+        responseDeadline,
+        paymentDeadline: calculatePaymentDeadline(),
+        idempotencyKey,
       });
 
-      // Schedule appointment reminders (T-24h and T-2h)
-      if (booking.pickupDateTime || booking.deliveryDateTime) {
-        try {
-          await scheduleAppointmentReminders(
-            booking.id,
-            userId,
-            trip.travelerId,
-            booking.pickupDateTime,
-            booking.deliveryDateTime
-          );
-          console.log(`[Reminders] Scheduled appointment reminders for booking ${booking.id}`);
-        } catch (error) {
-          console.error(`[Reminders] Error scheduling reminders for booking ${booking.id}:`, error);
-          // Don't fail the booking if reminder scheduling fails
-        }
+      if (created) {
+        console.log(`[Bookings] Created booking ${booking.id} for trip ${trip.id}`);
       }
 
+      const paidBooking = await payBooking(booking);
+
       res.json({ 
-        ...booking, 
+        ...paidBooking, 
         conversationUserId: trip.travelerId 
       });
     } catch (error: any) {
+      if (error instanceof BookingCapacityError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentError || error instanceof PromotionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating booking:", error);
       res.status(400).json({
         message: error.message || "Failed to create booking",
@@ -397,8 +689,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/bookings/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/bookings/:id", isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const booking = await storage.getBooking(req.params.id);
       if (!booking) {
         return res.status(404).json({ message: "Booking not found" });
@@ -411,10 +704,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         traveler = await storage.getUser(trip.travelerId);
       }
 
+      // Statuses the current user can move this booking to
+      const role = trip ? resolveBookingActorRole(booking, trip, userId) : null;
+      const allowedTransitions = role
+        ? getAllowedTransitions(booking.status, role)
+        : [];
+
       res.json({
         ...booking,
         trip: trip ? { ...trip, traveler } : undefined,
         sender,
+        allowedTransitions,
       });
     } catch (error) {
       console.error("Error fetching booking:", error);
@@ -422,77 +722,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(
-    "/api/bookings/:id/verify-pin",
+  // Audit log of a booking's status transitions
+  app.get(
+    "/api/bookings/:id/events",
     isAuthenticated,
     async (req: any, res) => {
       try {
-        const { pin, action } = req.body;
+        const userId = req.user.claims.sub;
         const booking = await storage.getBooking(req.params.id);
 
         if (!booking) {
           return res.status(404).json({ message: "Booking not found" });
         }
 
-        // Check if appointment confirmation is required
-        if (action === "pickup") {
-          if (booking.pickupDateTime && !booking.pickupConfirmedAt) {
-            return res.status(400).json({ 
-              message: "Vous devez confirmer votre présence au rendez-vous de remise avant de valider le code PIN" 
-            });
-          }
-        } else if (action === "delivery") {
-          if (booking.deliveryDateTime && !booking.deliveryConfirmedAt) {
-            return res.status(400).json({ 
-              message: "Vous devez confirmer votre présence au rendez-vous de livraison avant de valider le code PIN" 
-            });
-          }
-        }
-
-        // Verify PIN
-        const isValid =
-          (action === "pickup" && booking.pickupPIN === pin) ||
-          (action === "delivery" && booking.deliveryPIN === pin);
-
-        if (!isValid) {
-          return res.status(400).json({ message: "Invalid PIN" });
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
         }
 
-        // Update booking status
-        let newStatus = booking.status;
-        if (action === "pickup") {
-          newStatus = "picked_up";
-        } else if (action === "delivery") {
-          newStatus = "delivered";
-          // Release escrow
-          await storage.updateBookingEscrowStatus(booking.id, "released");
+        // Only sender and traveler can view the booking history
+        if (!resolveBookingActorRole(booking, trip, userId)) {
+          return res.status(403).json({ message: "Unauthorized" });
         }
 
-        const updatedBooking = await storage.updateBookingStatus(
-          booking.id,
-          newStatus
-        );
-
-        // Create notification for sender
-        await storage.createNotification({
-          userId: booking.senderId,
-          type: "status_update",
-          title: "Booking Updated",
-          message: `Your parcel status has been updated to: ${newStatus.replace("_", " ")}`,
-          relatedId: booking.id,
-        });
-
-        res.json(updatedBooking);
+        const events = await storage.getBookingEvents(booking.id);
+        res.json(events);
       } catch (error) {
-        console.error("Error verifying PIN:", error);
-        res.status(500).json({ message: "Failed to verify PIN" });
+        console.error("Error fetching booking events:", error);
+        res.status(500).json({ message: "Failed to fetch booking events" });
       }
     }
   );
 
-  // Update appointment (location and/or datetime)
-  app.patch(
-    "/api/bookings/:id/appointment",
+  // Sender pays a booking whose charge failed
+  app.post(
+    "/api/bookings/:id/pay",
     isAuthenticated,
     async (req: any, res) => {
       try {
@@ -503,70 +767,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Booking not found" });
         }
 
-        // Only sender can update appointment
         if (booking.senderId !== userId) {
           return res.status(403).json({ message: "Unauthorized" });
         }
 
-        const { pickupLocation, pickupDateTime, deliveryLocation, deliveryDateTime } = req.body;
-
-        // Validate appointment dates against trip dates if provided (allow times on same day as trip)
-        if (pickupDateTime || deliveryDateTime) {
-          const trip = await storage.getTrip(booking.tripId);
-          if (!trip) {
-            return res.status(404).json({ message: "Trip not found" });
-          }
-
-          if (pickupDateTime) {
-            const pickupDate = new Date(pickupDateTime);
-            const departureDate = new Date(trip.departureDate);
-            const arrivalDate = new Date(trip.arrivalDate);
-
-            // For pickup: must be on or after departure, but before or at arrival
-            if (pickupDate < departureDate || pickupDate > arrivalDate) {
-              return res.status(400).json({
-                message: "La date de remise doit être entre la date de départ et d'arrivée du voyage"
-              });
-            }
-          }
-
-          if (deliveryDateTime) {
-            const deliveryDate = new Date(deliveryDateTime);
-            const departureDate = new Date(trip.departureDate);
-            const arrivalDate = new Date(trip.arrivalDate);
-
-            // For delivery: must be after departure, but on or before arrival
-            if (deliveryDate < departureDate || deliveryDate > arrivalDate) {
-              return res.status(400).json({
-                message: "La date de livraison doit être entre la date de départ et d'arrivée du voyage"
-              });
-            }
-          }
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
         }
 
-        const updates: any = {};
-        if (pickupLocation !== undefined) updates.pickupLocation = pickupLocation;
-        if (pickupDateTime !== undefined) updates.pickupDateTime = new Date(pickupDateTime);
-        if (deliveryLocation !== undefined) updates.deliveryLocation = deliveryLocation;
-        if (deliveryDateTime !== undefined) updates.deliveryDateTime = deliveryDateTime ? new Date(deliveryDateTime) : null;
-
-        const updatedBooking = await storage.updateBookingAppointment(
-          booking.id,
-          updates,
-          userId
-        );
+        // The traveler only hears about the request once it is paid
+        let travelerNotifications: Notification[] = [];
+        const paidBooking = await chargeBooking(booking, req.body.paymentMethodId, {
+          onPaid: async (tx, paid) => {
+            travelerNotifications = [await announceBookingRequest(tx, paid, trip)];
+          },
+        });
+        await pushNotifications(travelerNotifications);
 
-        res.json(updatedBooking);
+        res.json(paidBooking);
       } catch (error) {
-        console.error("Error updating appointment:", error);
-        res.status(500).json({ message: "Failed to update appointment" });
+        if (error instanceof PaymentError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error paying booking:", error);
+        res.status(500).json({ message: "Failed to pay booking" });
       }
     }
   );
 
-  // Confirm pickup appointment presence
+  // Traveler accepts a pending booking request
   app.post(
-    "/api/bookings/:id/confirm-pickup",
+    "/api/bookings/:id/accept",
     isAuthenticated,
     async (req: any, res) => {
       try {
@@ -582,27 +814,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Trip not found" });
         }
 
-        // Both sender and traveler can confirm pickup
-        if (booking.senderId !== userId && trip.travelerId !== userId) {
+        // Only the traveler can accept a booking request
+        if (trip.travelerId !== userId) {
           return res.status(403).json({ message: "Unauthorized" });
         }
 
-        const updatedBooking = await storage.confirmPickupAppointment(
-          booking.id,
-          userId
-        );
+        if (booking.responseDeadline && new Date(booking.responseDeadline) < new Date()) {
+          return res.status(400).json({
+            message: "Le délai de réponse pour cette demande est dépassé"
+          });
+        }
+
+        if (booking.escrowStatus === "payment_pending") {
+          return res.status(409).json({
+            message: "Le paiement de cette réservation n'a pas encore été confirmé"
+          });
+        }
+
+        const updatedBooking = await transitionBooking({
+          bookingId: booking.id,
+          to: "confirmed",
+          actor: { role: "traveler", userId },
+          updates: { respondedAt: new Date() },
+        });
+
+        await storage.createMessage({
+          bookingId: booking.id,
+          senderId: userId,
+          receiverId: booking.senderId,
+          content: `Réservation acceptée\n\nColis : ${booking.description || "Colis à livrer"}\nPoids : ${Number(booking.weight)}kg\n\nVous pouvez maintenant discuter pour coordonner la remise du colis.`,
+        });
+
+        await createNotification({
+          userId: booking.senderId,
+          type: "booking",
+          title: "Réservation acceptée !",
+          message: `Votre réservation pour ${trip.departureCity} → ${trip.destinationCity} a été acceptée`,
+          relatedId: booking.id,
+        });
 
         res.json(updatedBooking);
       } catch (error) {
-        console.error("Error confirming pickup:", error);
-        res.status(500).json({ message: "Failed to confirm pickup" });
+        if (error instanceof BookingTransitionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error accepting booking:", error);
+        res.status(500).json({ message: "Failed to accept booking" });
       }
     }
   );
 
-  // Confirm delivery appointment presence
+  // Traveler declines a pending booking request (optional reason)
   app.post(
-    "/api/bookings/:id/confirm-delivery",
+    "/api/bookings/:id/decline",
     isAuthenticated,
     async (req: any, res) => {
       try {
@@ -618,15 +882,490 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Trip not found" });
         }
 
-        // Both sender and traveler can confirm delivery
-        if (booking.senderId !== userId && trip.travelerId !== userId) {
+        // Only the traveler can decline a booking request
+        if (trip.travelerId !== userId) {
           return res.status(403).json({ message: "Unauthorized" });
         }
 
-        const updatedBooking = await storage.confirmDeliveryAppointment(
-          booking.id,
-          userId
-        );
+        const reason =
+          typeof req.body?.reason === "string" && req.body.reason.trim()
+            ? req.body.reason.trim().slice(0, 500)
+            : null;
+
+        const updatedBooking = await declineBookingRequest(booking.id, userId, reason);
+        res.json(updatedBooking);
+      } catch (error) {
+        if (error instanceof BookingTransitionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error declining booking:", error);
+        res.status(500).json({ message: "Failed to decline booking" });
+      }
+    }
+  );
+
+  // Traveler reports progress while carrying the parcel (in transit, arrived)
+  app.post(
+    "/api/bookings/:id/status",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const { status } = req.body;
+
+        // PIN-validated and cancellation steps have their own routes
+        if (status !== "in_transit" && status !== "arrived") {
+          return res.status(400).json({ message: "Invalid status" });
+        }
+
+        const booking = await storage.getBooking(req.params.id);
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        const role = resolveBookingActorRole(booking, trip, userId);
+        if (!role) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const updatedBooking = await transitionBooking({
+          bookingId: booking.id,
+          to: status,
+          actor: { role, userId },
+        });
+
+        await createNotification({
+          userId: booking.senderId,
+          type: "status_update",
+          title: "Suivi du colis",
+          message: `Votre colis est maintenant ${STATUS_LABELS[updatedBooking.status]}`,
+          relatedId: booking.id,
+        });
+
+        res.json(updatedBooking);
+      } catch (error) {
+        if (error instanceof BookingTransitionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error updating booking status:", error);
+        res.status(500).json({ message: "Failed to update booking status" });
+      }
+    }
+  );
+
+  // Preview the refund before cancelling a booking
+  app.get(
+    "/api/bookings/:id/cancellation-quote",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        const role = resolveBookingActorRole(booking, trip, userId);
+        if (!role) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        res.json({
+          ...getCancellationQuote(booking, trip, role),
+          canCancel: canTransition(booking.status, "cancelled", role),
+        });
+      } catch (error) {
+        console.error("Error computing cancellation quote:", error);
+        res.status(500).json({ message: "Failed to compute cancellation quote" });
+      }
+    }
+  );
+
+  // Sender or traveler cancels a booking (optional reason)
+  app.post(
+    "/api/bookings/:id/cancel",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        const role = resolveBookingActorRole(booking, trip, userId);
+        if (!role) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const reason =
+          typeof req.body?.reason === "string" && req.body.reason.trim()
+            ? req.body.reason.trim().slice(0, 500)
+            : null;
+
+        const result = await cancelBooking(booking, trip, userId, role, reason);
+        res.json({ ...result.booking, refund: result.quote });
+      } catch (error) {
+        if (error instanceof BookingTransitionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error cancelling booking:", error);
+        res.status(500).json({ message: "Failed to cancel booking" });
+      }
+    }
+  );
+
+  // Reviews on a booking: the caller's own review, plus published ones
+  app.get(
+    "/api/bookings/:id/reviews",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        if (!resolveBookingActorRole(booking, trip, userId)) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const bookingReviews = await storage.getBookingReviews(booking.id);
+        const visibleReviews = bookingReviews.filter(
+          (review) => review.reviewerId === userId || review.publishedAt
+        );
+        const hasReviewed = bookingReviews.some((review) => review.reviewerId === userId);
+        const reviewDeadline = getReviewDeadline(booking);
+
+        res.json({
+          reviews: visibleReviews,
+          reviewDeadline,
+          canReview:
+            booking.status === "delivered" &&
+            !hasReviewed &&
+            !!reviewDeadline &&
+            reviewDeadline > new Date(),
+        });
+      } catch (error) {
+        console.error("Error fetching booking reviews:", error);
+        res.status(500).json({ message: "Failed to fetch reviews" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/bookings/:id/reviews",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        // Only sender and traveler can review each other
+        if (!resolveBookingActorRole(booking, trip, userId)) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const { rating, comment } = insertReviewSchema
+          .pick({ rating: true, comment: true })
+          .parse(req.body);
+
+        const review = await submitReview({
+          booking,
+          trip,
+          reviewerId: userId,
+          rating,
+          comment: comment?.trim() || null,
+        });
+
+        res.json(review);
+      } catch (error: any) {
+        if (error instanceof ReviewError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "La note doit être comprise entre 1 et 5" });
+        }
+        console.error("Error submitting review:", error);
+        res.status(500).json({ message: "Failed to submit review" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/bookings/:id/verify-pin",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const { pin, action } = req.body;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        const role = resolveBookingActorRole(booking, trip, userId);
+        if (!role) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        if (action !== "pickup" && action !== "delivery") {
+          return res.status(400).json({ message: "Invalid action" });
+        }
+
+        // The traveler must have accepted the booking before pickup
+        if (action === "pickup" && booking.status === "pending") {
+          return res.status(400).json({
+            message: "La réservation doit être acceptée par le voyageur avant la remise du colis"
+          });
+        }
+
+        // Check if appointment confirmation is required
+        if (action === "pickup") {
+          if (booking.pickupDateTime && !booking.pickupConfirmedAt) {
+            return res.status(400).json({ 
+              message: "Vous devez confirmer votre présence au rendez-vous de remise avant de valider le code PIN" 
+            });
+          }
+        } else if (action === "delivery") {
+          if (booking.deliveryDateTime && !booking.deliveryConfirmedAt) {
+            return res.status(400).json({ 
+              message: "Vous devez confirmer votre présence au rendez-vous de livraison avant de valider le code PIN" 
+            });
+          }
+        }
+
+        // Verify PIN
+        const isValid =
+          (action === "pickup" && booking.pickupPIN === pin) ||
+          (action === "delivery" && booking.deliveryPIN === pin);
+
+        if (!isValid) {
+          return res.status(400).json({ message: "Invalid PIN" });
+        }
+
+        // Update booking status (delivery also releases escrow and rewards a
+        // pending referral, in the same transaction)
+        let referralNotifications: Notification[] = [];
+        const updatedBooking = await transitionBooking({
+          bookingId: booking.id,
+          to: action === "pickup" ? "picked_up" : "delivered",
+          actor: { role, userId },
+          metadata: { verifiedBy: "pin", action },
+          updates: action === "delivery" ? { deliveredAt: new Date() } : undefined,
+          onTransition: action === "delivery"
+            ? async (tx, delivered) => {
+                const settled = await settleEscrow(tx, delivered);
+                referralNotifications = await rewardReferral(tx, settled);
+                return settled;
+              }
+            : undefined,
+        });
+        await pushNotifications(referralNotifications);
+
+        // Create notification for sender
+        await createNotification({
+          userId: booking.senderId,
+          type: "status_update",
+          title: "Booking Updated",
+          message: `Your parcel status has been updated to: ${updatedBooking.status.replace("_", " ")}`,
+          relatedId: booking.id,
+        });
+
+        // Receipt and invoice go out by email without holding up the response
+        if (updatedBooking.status === "delivered") {
+          sendDeliveryConfirmations(updatedBooking, trip).catch((error) => {
+            console.error("Error sending delivery confirmations:", error);
+          });
+        }
+
+        res.json(updatedBooking);
+      } catch (error) {
+        if (error instanceof BookingTransitionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error verifying PIN:", error);
+        res.status(500).json({ message: "Failed to verify PIN" });
+      }
+    }
+  );
+
+  // Update appointment (location and/or datetime)
+  app.patch(
+    "/api/bookings/:id/appointment",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        // Only sender can update appointment
+        if (booking.senderId !== userId) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const { pickupLocation, pickupDateTime, deliveryLocation, deliveryDateTime } = req.body;
+
+        // Validate appointment dates against trip dates if provided (allow times on same day as trip)
+        if (pickupDateTime || deliveryDateTime) {
+          const trip = await storage.getTrip(booking.tripId);
+          if (!trip) {
+            return res.status(404).json({ message: "Trip not found" });
+          }
+
+          if (pickupDateTime) {
+            const pickupDate = new Date(pickupDateTime);
+            const departureDate = new Date(trip.departureDate);
+            const arrivalDate = new Date(trip.arrivalDate);
+
+            // For pickup: must be on or after departure, but before or at arrival
+            if (pickupDate < departureDate || pickupDate > arrivalDate) {
+              return res.status(400).json({
+                message: "La date de remise doit être entre la date de départ et d'arrivée du voyage"
+              });
+            }
+          }
+
+          if (deliveryDateTime) {
+            const deliveryDate = new Date(deliveryDateTime);
+            const departureDate = new Date(trip.departureDate);
+            const arrivalDate = new Date(trip.arrivalDate);
+
+            // For delivery: must be after departure, but on or before arrival
+            if (deliveryDate < departureDate || deliveryDate > arrivalDate) {
+              return res.status(400).json({
+                message: "La date de livraison doit être entre la date de départ et d'arrivée du voyage"
+              });
+            }
+          }
+        }
+
+        const updates: any = {};
+        if (pickupLocation !== undefined) updates.pickupLocation = pickupLocation;
+        if (pickupDateTime !== undefined) updates.pickupDateTime = new Date(pickupDateTime);
+        if (deliveryLocation !== undefined) updates.deliveryLocation = deliveryLocation;
+        if (deliveryDateTime !== undefined) updates.deliveryDateTime = deliveryDateTime ? new Date(deliveryDateTime) : null;
+
+        const updatedBooking = await storage.updateBookingAppointment(
+          booking.id,
+          updates,
+          userId
+        );
+
+        res.json(updatedBooking);
+      } catch (error) {
+        console.error("Error updating appointment:", error);
+        res.status(500).json({ message: "Failed to update appointment" });
+      }
+    }
+  );
+
+  // Confirm pickup appointment presence
+  app.post(
+    "/api/bookings/:id/confirm-pickup",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        // Both sender and traveler can confirm pickup
+        if (booking.senderId !== userId && trip.travelerId !== userId) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const updatedBooking = await storage.confirmPickupAppointment(
+          booking.id,
+          userId
+        );
+
+        res.json(updatedBooking);
+      } catch (error) {
+        console.error("Error confirming pickup:", error);
+        res.status(500).json({ message: "Failed to confirm pickup" });
+      }
+    }
+  );
+
+  // Confirm delivery appointment presence
+  app.post(
+    "/api/bookings/:id/confirm-delivery",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        // Both sender and traveler can confirm delivery
+        if (booking.senderId !== userId && trip.travelerId !== userId) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const updatedBooking = await storage.confirmDeliveryAppointment(
+          booking.id,
+          userId
+        );
 
         res.json(updatedBooking);
       } catch (error) {
@@ -817,27 +1556,215 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // PDF receipt of a paid booking
+  app.get(
+    "/api/bookings/:id/receipt.pdf",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        // Only the sender gets the receipt
+        if (booking.senderId !== userId) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const { filename, pdf } = await getBookingDocumentPdf(booking, trip, "receipt");
+
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        res.send(pdf);
+      } catch (error) {
+        if (error instanceof BookingDocumentError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error generating receipt:", error);
+        res.status(500).json({ message: "Failed to generate receipt" });
+      }
+    }
+  );
+
+  // PDF invoice of the traveler's service
+  app.get(
+    "/api/bookings/:id/invoice.pdf",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.user.claims.sub;
+        const booking = await storage.getBooking(req.params.id);
+
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) {
+          return res.status(404).json({ message: "Trip not found" });
+        }
+
+        // Only the traveler gets the invoice
+        if (trip.travelerId !== userId) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+
+        const { filename, pdf } = await getBookingDocumentPdf(booking, trip, "invoice");
+
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        res.send(pdf);
+      } catch (error) {
+        if (error instanceof BookingDocumentError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error generating invoice:", error);
+        res.status(500).json({ message: "Failed to generate invoice" });
+      }
+    }
+  );
+
+  // ==================== Wallet Routes ====================
+  // Traveler earnings: held, available and paid-out amounts per booking
+  app.get("/api/wallet", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getWallet(userId));
+    } catch (error) {
+      console.error("Error fetching wallet:", error);
+      res.status(500).json({ message: "Failed to fetch wallet" });
+    }
+  });
+
+  app.get("/api/wallet/payouts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getPayoutHistory(userId));
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  // Pay out the whole available balance
+  app.post("/api/wallet/payouts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const user = await storage.getUser(userId);
+      const restriction = user && getAccountRestriction(user);
+      if (restriction) {
+        return res.status(403).json({
+          message: "Votre compte est restreint : vous ne pouvez pas demander de virement",
+          restriction,
+        });
+      }
+
+      const payout = await requestPayout(userId);
+      res.json(payout);
+    } catch (error) {
+      if (error instanceof PayoutError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error requesting payout:", error);
+      res.status(500).json({ message: "Failed to request payout" });
+    }
+  });
+
+  // ==================== Referral Routes ====================
+  // The user's referral code, the friends who joined with it and their credits
+  app.get("/api/referrals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getReferralSummary(userId));
+    } catch (error) {
+      if (error instanceof ReferralError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching referrals:", error);
+      res.status(500).json({ message: "Failed to fetch referrals" });
+    }
+  });
+
+  // Enter the code of the friend who invited you, before your first booking
+  app.post("/api/referrals/claim", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { code } = claimReferralSchema.parse(req.body);
+      res.json(await claimReferral(userId, code));
+    } catch (error) {
+      if (error instanceof ReferralError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error claiming referral:", error);
+      res.status(500).json({ message: "Failed to claim referral" });
+    }
+  });
+
   // ==================== Message Routes ====================
   app.get("/api/messages/conversations", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const conversations = await storage.getUserConversations(userId);
-
-      // Fetch user details for each conversation
-      const conversationsWithUsers = await Promise.all(
-        conversations.map(async (conv) => {
-          const user = await storage.getUser(conv.userId);
-          return { ...conv, user };
-        })
-      );
-
-      res.json(conversationsWithUsers);
+      res.json(conversations);
     } catch (error) {
       console.error("Error fetching conversations:", error);
       res.status(500).json({ message: "Failed to fetch conversations" });
     }
   });
 
+  // Search the caller's messages, grouped by thread
+  app.get("/api/messages/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const query = String(req.query.q ?? "").trim();
+      if (query.length < 2 || query.length > 200) {
+        return res.status(400).json({ message: "Search query must be between 2 and 200 characters" });
+      }
+
+      const results = await storage.searchMessages(userId, query);
+
+      // Threads are listed in the order of their best match
+      const threads = new Map<string, any>();
+      for (const result of results) {
+        let thread = threads.get(result.threadId);
+        if (!thread) {
+          thread = {
+            threadId: result.threadId,
+            userId: result.otherUserId,
+            bookingId: result.message.bookingId,
+            user: result.user,
+            trip: result.trip,
+            matches: [],
+          };
+          threads.set(result.threadId, thread);
+        }
+        thread.matches.push({
+          messageId: result.message.id,
+          senderId: result.message.senderId,
+          createdAt: result.message.createdAt,
+          headline: result.headline,
+        });
+      }
+
+      res.json(Array.from(threads.values()));
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
   app.get("/api/messages/:otherUserId", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -848,31 +1775,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Cannot access messages with blocked user" });
       }
       
-      // Parse pagination parameters
-      const limit = parseInt(req.query.limit as string) || 50;
-      const offset = parseInt(req.query.offset as string) || 0;
+      // Without a bookingId this is the direct thread, outside of any booking
+      const bookingId = (req.query.bookingId as string) || null;
+      if (bookingId) {
+        await assertBookingThreadParticipants(bookingId, userId, req.params.otherUserId);
+      }
+
+      // Pages go back in time from the `before` message (the newest page without it)
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const before = (req.query.before as string) || undefined;
       
-      const messages = await storage.getConversationMessages(
+      const page = await storage.getConversationMessages(
         userId,
         req.params.otherUserId,
-        { limit, offset }
+        bookingId,
+        { limit: limit + 1, before }
       );
+      const hasMore = page.length > limit;
+      const messages = hasMore ? page.slice(1) : page;
 
-      // Mark messages as read
-      await storage.markMessagesAsRead(userId, req.params.otherUserId);
+      // Opening the thread marks everything as read (and tells the sender)
+      if (!before) {
+        await markMessagesAsRead(userId, req.params.otherUserId, bookingId);
+      }
 
-      // Fetch sender, receiver details, and attachments for each message
-      const messagesWithUsers = await Promise.all(
-        messages.map(async (msg) => {
-          const sender = await storage.getUser(msg.senderId);
-          const receiver = await storage.getUser(msg.receiverId);
-          const attachments = await storage.getMessageAttachments(msg.id);
-          return { ...msg, sender, receiver, attachments };
-        })
-      );
+      // Both users and all attachments of the page are fetched at once
+      const [currentUser, otherUser, attachments] = await Promise.all([
+        storage.getUser(userId),
+        storage.getUser(req.params.otherUserId),
+        storage.getAttachmentsForMessages(messages.map((msg) => msg.id)),
+      ]);
+      const usersById = new Map([
+        [userId, currentUser],
+        [req.params.otherUserId, otherUser],
+      ]);
+
+      const messagesWithUsers = messages.map((msg) => ({
+        ...msg,
+        sender: usersById.get(msg.senderId),
+        receiver: usersById.get(msg.receiverId),
+        attachments: attachments.filter((attachment) => attachment.messageId === msg.id),
+      }));
 
-      res.json(messagesWithUsers);
+      res.json({
+        messages: messagesWithUsers,
+        nextCursor: hasMore ? messages[0].id : null,
+      });
     } catch (error) {
+      if (error instanceof ConversationThreadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error fetching messages:", error);
       res.status(500).json({ message: "Failed to fetch messages" });
     }
@@ -895,12 +1847,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/message-attachments", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { fileUrl, fileName, fileType, fileSize, thumbnailUrl, messageId, bookingId } = req.body;
+      const { fileUrl, fileName, fileType, fileSize, thumbnailUrl, messageId, bookingId, receiverId } = req.body;
 
-      if (!fileUrl || !fileName || !fileType || !fileSize) {
+      if (!fileUrl || !fileName || !fileType || !fileSize || !receiverId) {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
+      if (bookingId) {
+        await assertBookingThreadParticipants(bookingId, userId, receiverId);
+      }
+
       // Step 1: Basic metadata validation (fast checks)
       const metadataValidation = validateFileMetadata({
         fileName,
@@ -945,23 +1901,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: fileValidation.error });
       }
 
-      // Set ACL policy for the uploaded file
+      // Only the thread's participants can read the uploaded file
       const objectStorageService = new ObjectStorageService();
       const objectPath = await objectStorageService.trySetObjectEntityAclPolicy(
         fileUrl,
-        {
-          owner: userId,
-          visibility: "private",
-          aclRules: bookingId ? [
-            {
-              group: {
-                type: ObjectAccessGroupType.CONVERSATION_PARTICIPANT,
-                id: bookingId,
-              },
-              permission: ObjectPermission.READ,
-            },
-          ] : [],
-        }
+        getThreadAclPolicy(userId, receiverId, bookingId || null)
       );
 
       // Create attachment record with normalized MIME type
@@ -977,6 +1921,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({ attachment, objectPath });
     } catch (error) {
+      if (error instanceof ConversationThreadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ObjectOwnershipError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
       console.error("Error creating message attachment:", error);
       res.status(500).json({ message: "Failed to create message attachment" });
     }
@@ -1047,7 +2000,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const blocked = await storage.blockUser(blockerId, blockedId, reason);
       
       // Create notification for system log (optional)
-      await storage.createNotification({
+      await createNotification({
         userId: blockerId,
         type: "system",
         title: "User Blocked",
@@ -1055,60 +2008,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
         relatedId: blocked.id,
       });
 
-      res.json(blocked);
-    } catch (error) {
-      console.error("Error blocking user:", error);
-      res.status(500).json({ message: "Failed to block user" });
+      res.json(blocked);
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+
+  app.delete("/api/users/block/:blockedId", isAuthenticated, async (req: any, res) => {
+    try {
+      const blockerId = req.user.claims.sub;
+      const { blockedId } = req.params;
+
+      await storage.unblockUser(blockerId, blockedId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      res.status(500).json({ message: "Failed to unblock user" });
+    }
+  });
+
+  app.get("/api/users/blocked", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const blockedUsers = await storage.getBlockedUsers(userId);
+      
+      // Fetch user details for each blocked user
+      const blockedWithUsers = await Promise.all(
+        blockedUsers.map(async (block) => {
+          const user = await storage.getUser(block.blockedId);
+          return { ...block, user };
+        })
+      );
+
+      res.json(blockedWithUsers);
+    } catch (error) {
+      console.error("Error fetching blocked users:", error);
+      res.status(500).json({ message: "Failed to fetch blocked users" });
+    }
+  });
+
+  // Get user by ID
+  app.get("/api/users/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const reviews = await storage.getPublishedUserReviews(userId);
+      const recentReviews = await Promise.all(
+        reviews.map(async (review) => {
+          const reviewer = await storage.getUser(review.reviewerId);
+          return {
+            ...review,
+            reviewer: reviewer
+              ? {
+                  id: reviewer.id,
+                  firstName: reviewer.firstName,
+                  profileImageUrl: reviewer.profileImageUrl,
+                }
+              : undefined,
+          };
+        })
+      );
+
+      res.json({ ...user, recentReviews });
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  // ==================== Identity Verification Routes ====================
+  app.get("/api/verifications/me", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const verification = await storage.getLatestUserVerification(userId);
+      res.json(verification || null);
+    } catch (error) {
+      console.error("Error fetching verification:", error);
+      res.status(500).json({ message: "Failed to fetch verification" });
+    }
+  });
+
+  app.post("/api/verifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { documentType, document, selfie } = submitVerificationSchema.parse(req.body);
+
+      const verification = await submitVerification({
+        userId,
+        documentType,
+        document,
+        selfie,
+      });
+
+      res.json(verification);
+    } catch (error: any) {
+      if (error instanceof VerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error submitting verification:", error);
+      res.status(500).json({ message: "Failed to submit verification" });
     }
   });
 
-  app.delete("/api/users/block/:blockedId", isAuthenticated, async (req: any, res) => {
+  // Review queue (admins only)
+  app.get("/api/verifications/queue", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const blockerId = req.user.claims.sub;
-      const { blockedId } = req.params;
+      const status = (req.query.status as string) || "pending";
+      const verifications = await storage.getVerificationsByStatus(status);
 
-      await storage.unblockUser(blockerId, blockedId);
-      res.json({ success: true });
+      const verificationsWithUsers = await Promise.all(
+        verifications.map(async (verification) => {
+          const user = await storage.getUser(verification.userId);
+          return { ...verification, user };
+        })
+      );
+
+      res.json(verificationsWithUsers);
     } catch (error) {
-      console.error("Error unblocking user:", error);
-      res.status(500).json({ message: "Failed to unblock user" });
+      console.error("Error fetching verification queue:", error);
+      res.status(500).json({ message: "Failed to fetch verification queue" });
     }
   });
 
-  app.get("/api/users/blocked", isAuthenticated, async (req: any, res) => {
+  app.post("/api/verifications/:id/review", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const blockedUsers = await storage.getBlockedUsers(userId);
-      
-      // Fetch user details for each blocked user
-      const blockedWithUsers = await Promise.all(
-        blockedUsers.map(async (block) => {
-          const user = await storage.getUser(block.blockedId);
-          return { ...block, user };
-        })
-      );
 
-      res.json(blockedWithUsers);
+      const { decision, rejectionReason } = req.body;
+      if (decision !== "approved" && decision !== "rejected") {
+        return res.status(400).json({ message: "Invalid decision" });
+      }
+
+      const verification = await reviewVerification({
+        verificationId: req.params.id,
+        reviewerId: userId,
+        decision,
+        rejectionReason:
+          typeof rejectionReason === "string" && rejectionReason.trim()
+            ? rejectionReason.trim().slice(0, 500)
+            : null,
+      });
+
+      res.json(verification);
     } catch (error) {
-      console.error("Error fetching blocked users:", error);
-      res.status(500).json({ message: "Failed to fetch blocked users" });
+      if (error instanceof VerificationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error reviewing verification:", error);
+      res.status(500).json({ message: "Failed to review verification" });
     }
   });
 
-  // Get user by ID
-  app.get("/api/users/:userId", isAuthenticated, async (req: any, res) => {
+  // ==================== Message Editing Routes ====================
+  app.patch("/api/messages/:messageId", isAuthenticated, async (req: any, res) => {
     try {
-      const { userId } = req.params;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const userId = req.user.claims.sub;
+      const { content } = req.body;
+      if (typeof content !== "string") {
+        return res.status(400).json({ message: "Missing content" });
       }
 
-      res.json(user);
+      const message = await editMessage({
+        messageId: req.params.messageId,
+        userId,
+        content,
+      });
+
+      res.json(message);
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      if (error instanceof MessageEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error editing message:", error);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  // ?scope=me hides the message for the current user, ?scope=everyone clears it for both
+  app.delete("/api/messages/:messageId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const scope = req.query.scope === "everyone" ? "everyone" : "me";
+
+      const message = await deleteMessage({
+        messageId: req.params.messageId,
+        userId,
+        scope,
+      });
+
+      res.json(message);
+    } catch (error) {
+      if (error instanceof MessageEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting message:", error);
+      res.status(500).json({ message: "Failed to delete message" });
     }
   });
 
@@ -1137,7 +2240,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Create notification for admins (in a real app, this would notify moderators)
-      await storage.createNotification({
+      await createNotification({
         userId: reporterId,
         type: "system",
         title: "Message Reported",
@@ -1152,7 +2255,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/messages/:messageId/reports", isAuthenticated, async (req: any, res) => {
+  app.get("/api/messages/:messageId/reports", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
       const { messageId } = req.params;
       const reports = await storage.getMessageReports(messageId);
@@ -1174,6 +2277,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== Admin Moderation Routes ====================
+  app.get("/api/admin/reports", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      const category = req.query.category as string | undefined;
+      const reports = await storage.getReports({ status, category });
+
+      const reportsWithMessages = await Promise.all(
+        reports.map(async (report) => {
+          const message = await storage.getMessage(report.messageId);
+          const reportedUser = message ? await storage.getUser(message.senderId) : undefined;
+          return { ...report, message, reportedUser };
+        })
+      );
+
+      res.json(reportsWithMessages);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  // Report details with the surrounding conversation and the reported user's history
+  app.get("/api/admin/reports/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const report = await storage.getMessageReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const message = await storage.getMessage(report.messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const context = await storage.getMessageContext(message);
+      const reporter = await storage.getUser(report.reporterId);
+      const reportedUser = await storage.getUser(message.senderId);
+      const moderationHistory = await storage.getUserModerationActions(message.senderId);
+      const booking = message.bookingId ? await storage.getBooking(message.bookingId) : undefined;
+
+      res.json({
+        ...report,
+        message,
+        context,
+        reporter,
+        reportedUser,
+        moderationHistory,
+        booking,
+      });
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      res.status(500).json({ message: "Failed to fetch report" });
+    }
+  });
+
+  app.post("/api/admin/reports/:id/resolve", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { status, note } = resolveReportSchema.parse(req.body);
+
+      const report = await resolveReport({
+        reportId: req.params.id,
+        reviewerId: userId,
+        status,
+        note,
+      });
+
+      res.json(report);
+    } catch (error: any) {
+      if (error instanceof ModerationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error resolving report:", error);
+      res.status(500).json({ message: "Failed to resolve report" });
+    }
+  });
+
+  // Warn, suspend or ban a user
+  app.post("/api/admin/users/:userId/moderation", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const actorId = req.user.claims.sub;
+      const { action, reason, durationDays, reportId } = moderationActionSchema.parse(req.body);
+
+      const moderationAction = await takeModerationAction({
+        userId: req.params.userId,
+        actorId,
+        action,
+        reason,
+        durationDays,
+        reportId,
+      });
+
+      res.json(moderationAction);
+    } catch (error: any) {
+      if (error instanceof ModerationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error taking moderation action:", error);
+      res.status(500).json({ message: "Failed to take moderation action" });
+    }
+  });
+
+  app.get("/api/admin/users/:userId/moderation", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const actions = await storage.getUserModerationActions(req.params.userId);
+      res.json(actions);
+    } catch (error) {
+      console.error("Error fetching moderation history:", error);
+      res.status(500).json({ message: "Failed to fetch moderation history" });
+    }
+  });
+
+  // Keep a booking's messages past their retention (disputes, investigations)
+  app.post("/api/admin/bookings/:id/legal-hold", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { enabled } = legalHoldSchema.parse(req.body);
+      const booking = await storage.setBookingLegalHold(req.params.id, enabled);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      res.json(booking);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating legal hold:", error);
+      res.status(500).json({ message: "Failed to update legal hold" });
+    }
+  });
+
+  // ==================== Admin Promotion Routes ====================
+  app.get("/api/admin/promo-codes", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      res.json(await listPromoCodes());
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      res.status(500).json({ message: "Failed to fetch promo codes" });
+    }
+  });
+
+  app.post("/api/admin/promo-codes", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const data = createPromoCodeSchema.parse(req.body);
+      res.json(await createPromoCode(data, adminId));
+    } catch (error: any) {
+      if (error instanceof PromotionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ message: "Failed to create promo code" });
+    }
+  });
+
+  // Turn a code on or off; codes are never deleted so past bookings keep theirs
+  app.patch("/api/admin/promo-codes/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { isActive } = promoCodeStatusSchema.parse(req.body);
+      res.json(await setPromoCodeActive(req.params.id, isActive));
+    } catch (error: any) {
+      if (error instanceof PromotionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating promo code:", error);
+      res.status(500).json({ message: "Failed to update promo code" });
+    }
+  });
+
+  // ==================== Admin Payment Routes ====================
+  // Refunds the provider kept rejecting; the sender has not been paid back
+  app.get("/api/admin/refunds/failed", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      res.json(await getFailedRefunds());
+    } catch (error) {
+      console.error("Error fetching failed refunds:", error);
+      res.status(500).json({ message: "Failed to fetch failed refunds" });
+    }
+  });
+
   // ==================== Object Storage Routes ====================
   app.post("/api/object-storage/presigned-url", isAuthenticated, async (req: any, res) => {
     try {
@@ -1188,102 +2483,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ==================== WebSocket Server ====================
   const httpServer = createServer(app);
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/ws",
+    // Only accept sockets opened from a signed-in session; the identity comes
+    // from the session cookie, never from the client's messages
+    verifyClient: (info, done) => {
+      getSessionUserId(info.req)
+        .then(async (userId) => {
+          if (!userId) {
+            return done(false, 401, "Unauthorized");
+          }
+
+          const user = await storage.getUser(userId);
+          if (!user || getAccountRestriction(user)?.status === "banned") {
+            return done(false, 403, "Forbidden");
+          }
+
+          (info.req as AuthenticatedUpgradeRequest).userId = userId;
+          done(true);
+        })
+        .catch((error) => {
+          console.error("Error authenticating WebSocket:", error);
+          done(false, 500, "Internal Server Error");
+        });
+    },
+  });
+
+  wss.on("connection", (ws: WebSocket, req: AuthenticatedUpgradeRequest) => {
+    const senderId = req.userId;
+
+    // Handlers are attached right away so nothing sent meanwhile is lost
+    const registration = addConnection(senderId, ws).then(async ({ client, cameOnline }) => {
+      console.log(`User ${senderId} connected via WebSocket`);
+
+      // Other devices of the same user are already shown online
+      if (cameOnline) {
+        broadcastUserStatus(senderId, "online");
+      }
+
+      // Send current online users to the newly connected socket
+      ws.send(JSON.stringify({
+        type: "online_users",
+        users: await getOnlineUserIds(),
+      }));
+
+      // Messages received while offline have now reached a device
+      await markMessagesDelivered(senderId);
+
+      return client;
+    });
 
-  wss.on("connection", (ws: WebSocket) => {
-    console.log("WebSocket client connected");
+    registration.catch((error) => {
+      console.error("Error registering WebSocket connection:", error);
+      ws.close(1011, "Internal error");
+    });
 
     ws.on("message", async (data: Buffer) => {
       try {
+        const client = await registration;
         const message = JSON.parse(data.toString());
 
-        // Handle authentication
-        if (message.type === "auth") {
-          clients.set(message.userId, { 
-            ws, 
-            userId: message.userId,
-            onlineStatus: "online",
-            lastSeen: new Date(),
-          });
-          console.log(`User ${message.userId} authenticated via WebSocket`);
-          
-          // Broadcast user online status
-          broadcastUserStatus(message.userId, "online");
-          
-          // Send current online users to the newly connected user
-          const onlineUsers = Array.from(clients.entries())
-            .filter(([_, client]) => client.onlineStatus === "online")
-            .map(([userId, _]) => userId);
-          
-          ws.send(JSON.stringify({
-            type: "online_users",
-            users: onlineUsers,
-          }));
-          
-          return;
-        }
+        // Handle typing indicator
+        if (message.type === "typing") {
+          // Clear existing typing timeout
+          if (client.typingTimeout) {
+            clearTimeout(client.typingTimeout);
+          }
 
-        // Get authenticated user
-        const senderId = Array.from(clients.entries()).find(
-          ([_, client]) => client.ws === ws
-        )?.[0];
+          // Update typing state
+          client.typingTo = message.receiverId;
 
-        if (!senderId) {
-          ws.send(JSON.stringify({ type: "error", message: "Not authenticated" }));
-          return;
-        }
+          // Broadcast typing indicator
+          broadcastTypingIndicator(senderId, message.receiverId, true);
 
-        // Handle typing indicator
-        if (message.type === "typing") {
-          const client = clients.get(senderId);
-          if (client) {
-            // Clear existing typing timeout
-            if (client.typingTimeout) {
-              clearTimeout(client.typingTimeout);
+          // Auto-stop typing after 3 seconds of inactivity
+          client.typingTimeout = setTimeout(() => {
+            if (client.typingTo === message.receiverId) {
+              client.typingTo = undefined;
+              broadcastTypingIndicator(senderId, message.receiverId, false);
             }
-
-            // Update typing state
-            client.typingTo = message.receiverId;
-            
-            // Broadcast typing indicator
-            broadcastTypingIndicator(senderId, message.receiverId, true);
-
-            // Auto-stop typing after 3 seconds of inactivity
-            client.typingTimeout = setTimeout(() => {
-              if (client.typingTo === message.receiverId) {
-                client.typingTo = undefined;
-                broadcastTypingIndicator(senderId, message.receiverId, false);
-              }
-            }, 3000);
-          }
+          }, 3000);
           return;
         }
 
         // Handle stop typing
         if (message.type === "stop_typing") {
-          const client = clients.get(senderId);
-          if (client) {
-            if (client.typingTimeout) {
-              clearTimeout(client.typingTimeout);
-            }
-            client.typingTo = undefined;
-            broadcastTypingIndicator(senderId, message.receiverId, false);
+          if (client.typingTimeout) {
+            clearTimeout(client.typingTimeout);
           }
+          client.typingTo = undefined;
+          broadcastTypingIndicator(senderId, message.receiverId, false);
           return;
         }
 
-        // Handle read receipt
+        // Handle read receipt: everything up to the viewed message is seen
         if (message.type === "read_receipt") {
-          // Update message as read in database
-          // Note: This would need a storage method to update read status
-          const receiverClient = clients.get(message.originalSenderId);
-          if (receiverClient && receiverClient.ws.readyState === WebSocket.OPEN) {
-            receiverClient.ws.send(
+          await markMessagesAsRead(
+            senderId,
+            message.originalSenderId,
+            message.bookingId || null,
+            message.messageId
+          );
+          return;
+        }
+
+        // Handle message edits and deletions
+        if (message.type === "edit_message" || message.type === "delete_message") {
+          try {
+            if (message.type === "edit_message") {
+              await editMessage({
+                messageId: message.messageId,
+                userId: senderId,
+                content: String(message.content ?? ""),
+              });
+            } else {
+              await deleteMessage({
+                messageId: message.messageId,
+                userId: senderId,
+                scope: message.scope === "everyone" ? "everyone" : "me",
+              });
+            }
+          } catch (error) {
+            if (!(error instanceof MessageEditError)) throw error;
+            ws.send(
               JSON.stringify({
-                type: "message_read",
+                type: "error",
+                message: error.message,
                 messageId: message.messageId,
-                readBy: senderId,
-                readAt: new Date().toISOString(),
               })
             );
           }
@@ -1292,22 +2619,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Handle file upload progress
         if (message.type === "upload_progress") {
-          const receiverClient = clients.get(message.receiverId);
-          if (receiverClient && receiverClient.ws.readyState === WebSocket.OPEN) {
-            receiverClient.ws.send(
-              JSON.stringify({
-                type: "upload_progress",
-                uploadId: message.uploadId,
-                progress: message.progress,
-                fileName: message.fileName,
-              })
-            );
-          }
+          sendToUser(message.receiverId, {
+            type: "upload_progress",
+            uploadId: message.uploadId,
+            progress: message.progress,
+            fileName: message.fileName,
+          });
           return;
         }
 
         // Handle sending messages
         if (message.type === "send_message") {
+          // Outbox resends after a reconnect carry the same clientMessageId
+          const clientMessageId: string | null =
+            typeof message.clientMessageId === "string" && message.clientMessageId
+              ? message.clientMessageId.slice(0, 100)
+              : null;
+          if (clientMessageId) {
+            const stored = await storage.getMessageByClientMessageId(senderId, clientMessageId);
+            if (stored) {
+              await acknowledgeStoredMessage(ws, stored, clientMessageId);
+              return;
+            }
+          }
+
+          if (typeof message.content !== "string" || message.content.length > MAX_MESSAGE_LENGTH) {
+            ws.send(
+              JSON.stringify({
+                type: "error",
+                message: `Message trop long : ${MAX_MESSAGE_LENGTH} caractères maximum`,
+                clientMessageId: message.clientMessageId,
+              })
+            );
+            return;
+          }
+
+          // Suspended users keep their socket to read, but cannot send
+          const sender = await storage.getUser(senderId);
+          const restriction = sender && getAccountRestriction(sender);
+          if (!sender || restriction) {
+            ws.send(
+              JSON.stringify({
+                type: "error",
+                message: "Votre compte est restreint : vous ne pouvez pas envoyer de messages",
+                clientMessageId: message.clientMessageId,
+                restriction,
+              })
+            );
+            return;
+          }
+
           // Check if users have blocked each other
           const isBlocked = await storage.isUserBlocked(senderId, message.receiverId);
           if (isBlocked) {
@@ -1321,6 +2682,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
             return;
           }
 
+          // A booking thread is only open to that booking's participants
+          const bookingId: string | null = message.bookingId || null;
+          if (bookingId) {
+            try {
+              await assertBookingThreadParticipants(bookingId, senderId, message.receiverId);
+            } catch (error) {
+              if (!(error instanceof ConversationThreadError)) throw error;
+              ws.send(
+                JSON.stringify({
+                  type: "error",
+                  message: error.message,
+                  clientMessageId: message.clientMessageId,
+                })
+              );
+              return;
+            }
+          }
+
           // Content filtering
           const filterResult = filterContent(message.content);
           if (shouldBlockContent(message.content)) {
@@ -1342,9 +2721,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
             );
           }
 
+          // Attachments must be files the sender uploaded; they become readable
+          // by the thread's participants only
+          const attachmentUrls: { fileUrl: string; thumbnailUrl: string | null }[] = [];
+          if (message.attachments && Array.isArray(message.attachments) && message.attachments.length > 0) {
+            const objectStorageService = new ObjectStorageService();
+            const aclPolicy = getThreadAclPolicy(senderId, message.receiverId, bookingId);
+            try {
+              for (const attachment of message.attachments) {
+                const fileUrl = await objectStorageService.trySetObjectEntityAclPolicy(attachment.url, aclPolicy);
+                const thumbnailUrl = attachment.thumbnailUrl
+                  ? await objectStorageService.trySetObjectEntityAclPolicy(attachment.thumbnailUrl, aclPolicy)
+                  : null;
+                attachmentUrls.push({ fileUrl, thumbnailUrl });
+              }
+            } catch (error) {
+              if (!(error instanceof ObjectOwnershipError || error instanceof ObjectNotFoundError)) throw error;
+              ws.send(
+                JSON.stringify({
+                  type: "error",
+                  message: "Pièce jointe introuvable",
+                  clientMessageId: message.clientMessageId,
+                })
+              );
+              return;
+            }
+          }
+
           // Stop typing indicator if active
-          const client = clients.get(senderId);
-          if (client && client.typingTo === message.receiverId) {
+          if (client.typingTo === message.receiverId) {
             if (client.typingTimeout) {
               clearTimeout(client.typingTimeout);
             }
@@ -1353,27 +2758,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           // Create message in database
-          const newMessage = await storage.createMessage({
-            senderId,
-            receiverId: message.receiverId,
-            content: message.content,
-            bookingId: message.bookingId || null,
-          });
+          let newMessage: Message;
+          try {
+            newMessage = await storage.createMessage({
+              senderId,
+              receiverId: message.receiverId,
+              content: message.content,
+              bookingId,
+              clientMessageId,
+            });
+          } catch (error: any) {
+            // A concurrent resend of the same message won the race
+            if (clientMessageId && error?.code === UNIQUE_VIOLATION) {
+              const stored = await storage.getMessageByClientMessageId(senderId, clientMessageId);
+              if (stored) {
+                await acknowledgeStoredMessage(ws, stored, clientMessageId);
+                return;
+              }
+            }
+            throw error;
+          }
 
           // Create message attachments if any
           let messageAttachments: any[] = [];
-          if (message.attachments && Array.isArray(message.attachments) && message.attachments.length > 0) {
-            for (const attachment of message.attachments) {
-              const createdAttachment = await storage.createMessageAttachment({
-                messageId: newMessage.id,
-                fileUrl: attachment.url,
-                fileName: attachment.name || attachment.fileName,
-                fileType: attachment.type || attachment.fileType,
-                fileSize: attachment.size || attachment.fileSize,
-                thumbnailUrl: attachment.thumbnailUrl || null,
-              });
-              messageAttachments.push(createdAttachment);
-            }
+          for (const [index, { fileUrl, thumbnailUrl }] of Array.from(attachmentUrls.entries())) {
+            const attachment = message.attachments[index];
+            const createdAttachment = await storage.createMessageAttachment({
+              messageId: newMessage.id,
+              fileUrl,
+              fileName: attachment.name || attachment.fileName,
+              fileType: attachment.type || attachment.fileType,
+              fileSize: attachment.size || attachment.fileSize,
+              thumbnailUrl,
+              expiresAt: newMessage.expiresAt,
+            });
+            messageAttachments.push(createdAttachment);
           }
 
           // Include attachments in message response
@@ -1392,28 +2811,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
             })
           );
 
+          // Keep the sender's other devices in sync
+          sendToUser(
+            senderId,
+            { type: "message", message: messageWithAttachments },
+            { excludeConnectionId: client.id }
+          );
+
           // Send to receiver if online (with delivered status)
-          const receiverClient = clients.get(message.receiverId);
-          if (receiverClient && receiverClient.ws.readyState === WebSocket.OPEN) {
-            receiverClient.ws.send(
-              JSON.stringify({
-                type: "message",
-                message: messageWithAttachments,
-              })
-            );
+          sendToUser(message.receiverId, {
+            type: "message",
+            message: messageWithAttachments,
+          });
 
-            // Send delivery confirmation back to sender
-            ws.send(
-              JSON.stringify({
-                type: "message_delivered",
-                messageId: newMessage.id,
-                deliveredAt: new Date().toISOString(),
-              })
-            );
+          // Delivery confirmation goes back to all of the sender's devices
+          if (await isUserOnline(message.receiverId)) {
+            await markMessagesDelivered(message.receiverId, [newMessage.id]);
           }
 
           // Create notification
-          await storage.createNotification({
+          await createNotification({
             userId: message.receiverId,
             type: "message",
             title: "New Message",
@@ -1429,30 +2846,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    ws.on("close", () => {
-      // Remove client from map and broadcast offline status
-      for (const [userId, client] of Array.from(clients.entries())) {
-        if (client.ws === ws) {
-          // Clear any typing timeouts
-          if (client.typingTimeout) {
-            clearTimeout(client.typingTimeout);
-          }
-          
-          // Update status to offline
-          client.onlineStatus = "offline";
-          client.lastSeen = new Date();
-          
-          // Broadcast offline status
-          broadcastUserStatus(userId, "offline");
-          
-          // Remove client from map
-          clients.delete(userId);
-          console.log(`User ${userId} disconnected`);
-          break;
+    ws.on("close", async () => {
+      try {
+        // Only the user's last open socket takes them offline
+        const client = await registration;
+        if (await removeConnection(client)) {
+          broadcastUserStatus(senderId, "offline");
         }
+        console.log(`User ${senderId} disconnected`);
+      } catch (error) {
+        console.error("Error unregistering WebSocket connection:", error);
       }
     });
   });
 
+  // Relay events between instances and drop sockets whose device went away
+  await startRealtime(wss);
+
   return httpServer;
 }
@@ -0,0 +1,170 @@
+import { storage } from "../storage";
+import { cancelBookingReminders } from "./reminder-scheduler";
+import { db } from "../db";
+import { transitionBooking, type BookingActorRole, type DbTransaction } from "./booking-lifecycle";
+import { processPendingRefunds, settleEscrow } from "./escrow-ledger";
+import { toCents } from "./pricing";
+import { createNotification } from "./notifications";
+import { bookings, trips, type Booking, type Trip } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+
+/**
+ * Refund policy for cancelled bookings
+ * - Requests not yet accepted, and cancellations by the traveler: full refund
+ * - Sender cancels more than FULL_REFUND_HOURS before pickup: full refund
+ * - Sender cancels later than that: PARTIAL_REFUND_PERCENT of the price
+ * - Bookings that were never paid: nothing to refund
+ */
+export const FULL_REFUND_HOURS = 48;
+export const PARTIAL_REFUND_PERCENT = 50;
+
+export interface CancellationQuote {
+  refundPercent: number;
+  refundAmount: number;
+  hoursBeforePickup: number | null;
+  policy: "unpaid" | "not_accepted" | "traveler_cancelled" | "early" | "late";
+}
+
+/**
+ * Work out how much the sender gets back if the booking is cancelled now
+ * Falls back to the trip departure date when no pickup appointment is set
+ */
+export function getCancellationQuote(
+  booking: Booking,
+  trip: Trip,
+  cancelledBy: BookingActorRole,
+  now: Date = new Date()
+): CancellationQuote {
+  const price = Number(booking.price);
+  const pickupAt = booking.pickupDateTime || trip.departureDate;
+  const hoursBeforePickup = pickupAt
+    ? (new Date(pickupAt).getTime() - now.getTime()) / (1000 * 60 * 60)
+    : null;
+
+  let refundPercent = 100;
+  let policy: CancellationQuote["policy"];
+
+  if (booking.escrowStatus === "payment_pending") {
+    policy = "unpaid";
+    refundPercent = 0;
+  } else if (booking.status === "pending") {
+    policy = "not_accepted";
+  } else if (cancelledBy !== "sender") {
+    policy = "traveler_cancelled";
+  } else if (hoursBeforePickup !== null && hoursBeforePickup >= FULL_REFUND_HOURS) {
+    policy = "early";
+  } else {
+    policy = "late";
+    refundPercent = PARTIAL_REFUND_PERCENT;
+  }
+
+  return {
+    refundPercent,
+    refundAmount: Math.round(price * refundPercent) / 100,
+    hoursBeforePickup,
+    policy,
+  };
+}
+
+/**
+ * Cancel a booking, apply the refund policy (the rest of the escrow goes to
+ * the traveler), give the weight back to the trip and let the other party know
+ */
+export async function cancelBooking(
+  booking: Booking,
+  trip: Trip,
+  userId: string,
+  role: BookingActorRole,
+  reason: string | null
+): Promise<{ booking: Booking; quote: CancellationQuote }> {
+  const result = await db.transaction((tx) =>
+    recordBookingCancellation(tx, booking.id, trip, userId, role, reason)
+  );
+  await announceBookingCancellation(result.booking, trip, userId, result.quote, reason);
+  return result;
+}
+
+/**
+ * The part of a cancellation that commits or rolls back with the transaction:
+ * the status change, the weight given back to the trip and the escrow split.
+ * The refund is worked out from the booking as locked by the transition, so a
+ * concurrent change (the traveler accepting, the sender paying) is taken into
+ * account. announceBookingCancellation must follow once it has committed.
+ */
+export async function recordBookingCancellation(
+  tx: DbTransaction,
+  bookingId: string,
+  trip: Trip,
+  userId: string,
+  role: BookingActorRole,
+  reason: string | null
+): Promise<{ booking: Booking; quote: CancellationQuote }> {
+  let quote!: CancellationQuote;
+
+  const cancelled = await transitionBooking({
+    tx,
+    bookingId,
+    to: "cancelled",
+    actor: { role, userId },
+    reason,
+    updates: {
+      cancelledAt: new Date(),
+      cancelledBy: userId,
+      cancellationReason: reason,
+    },
+    onTransition: async (tx, cancelledRow, previous) => {
+      quote = getCancellationQuote(previous, trip, role);
+      const [updated] = await tx
+        .update(bookings)
+        .set({ refundAmount: quote.refundAmount.toFixed(2) })
+        .where(eq(bookings.id, cancelledRow.id))
+        .returning();
+
+      // Give the reserved weight back to the trip
+      await tx
+        .update(trips)
+        .set({
+          availableWeight: sql`${trips.availableWeight} + ${updated.weight}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(trips.id, updated.tripId));
+
+      return await settleEscrow(tx, updated, toCents(quote.refundAmount));
+    },
+  });
+
+  return { booking: cancelled, quote };
+}
+
+/**
+ * Send the refund of a committed cancellation, drop its reminders and let the
+ * other party know
+ */
+export async function announceBookingCancellation(
+  cancelled: Booking,
+  trip: Trip,
+  userId: string,
+  quote: CancellationQuote,
+  reason: string | null
+): Promise<void> {
+  await processPendingRefunds(cancelled.id);
+  await cancelBookingReminders(cancelled.id);
+
+  const otherPartyId = userId === trip.travelerId ? cancelled.senderId : trip.travelerId;
+  const cancelledByLabel = userId === trip.travelerId ? "le voyageur" : "l'expéditeur";
+
+  await storage.createMessage({
+    bookingId: cancelled.id,
+    senderId: userId,
+    receiverId: otherPartyId,
+    content: `Réservation annulée par ${cancelledByLabel}\n\nColis : ${cancelled.description || "Colis à livrer"}\nPoids : ${Number(cancelled.weight)}kg${reason ? `\n\nMotif : ${reason}` : ""}${quote.policy === "unpaid" ? "" : `\n\nRemboursement : ${quote.refundAmount.toFixed(2)}€ (${quote.refundPercent}%)`}`,
+  });
+
+  await createNotification({
+    userId: otherPartyId,
+    type: "booking",
+    title: "Réservation annulée",
+    message: `La réservation pour ${trip.departureCity} → ${trip.destinationCity} a été annulée par ${cancelledByLabel}`,
+    relatedId: cancelled.id,
+  });
+}
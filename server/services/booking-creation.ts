@@ -0,0 +1,250 @@
+import { db } from "../db";
+import {
+  bookings,
+  trips,
+  messages,
+  notifications,
+  reminders,
+  type Booking,
+  type InsertBooking,
+  type Notification,
+  type Trip,
+} from "@shared/schema";
+import { and, eq, gt, gte, sql } from "drizzle-orm";
+import type { DbTransaction } from "./booking-lifecycle";
+import { buildAppointmentReminders } from "./reminder-scheduler";
+import { formatCents, toCents, type PriceBreakdown } from "./pricing";
+import { getMessageExpiry } from "./message-retention";
+import { reconcilePendingPayments } from "./escrow-ledger";
+import { pushNotifications } from "./notifications";
+import {
+  applyPromotions,
+  recordPromotions,
+  type BookingPromotionOptions,
+} from "./promotions";
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+export class BookingCapacityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookingCapacityError";
+    Object.setPrototypeOf(this, BookingCapacityError.prototype);
+  }
+}
+
+export interface CreateBookingRequestParams {
+  bookingData: InsertBooking;
+  breakdown: PriceBreakdown;
+  promotions?: BookingPromotionOptions;
+  trip: Trip;
+  responseDeadline: Date;
+  paymentDeadline: Date;
+  idempotencyKey?: string | null;
+}
+
+function generatePIN(): string {
+  return Math.floor(100000 + Math.random() * 900000).toString();
+}
+
+/**
+ * Look up a booking previously created by the same sender with this key
+ */
+export async function findBookingByIdempotencyKey(
+  senderId: string,
+  idempotencyKey: string
+): Promise<Booking | undefined> {
+  const [booking] = await db
+    .select()
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.senderId, senderId),
+        eq(bookings.idempotencyKey, idempotencyKey)
+      )
+    );
+  return booking;
+}
+
+/**
+ * Create a booking request and everything that goes with it in a single
+ * transaction: capacity reservation on the trip, the booking itself and the
+ * appointment reminders. The promo code and credits the sender asked for are
+ * checked and taken off the price in the same transaction. The traveler only
+ * hears about the request once it is paid (see announceBookingRequest).
+ *
+ * Capacity is reserved with a conditional update, so two concurrent requests
+ * can never take more weight than the trip has left. If a concurrent request
+ * with the same idempotency key commits first, its booking is returned
+ * instead of creating a duplicate.
+ */
+export async function createBookingRequest(
+  params: CreateBookingRequestParams
+): Promise<{ booking: Booking; created: boolean }> {
+  const {
+    bookingData,
+    breakdown,
+    promotions,
+    trip,
+    responseDeadline,
+    paymentDeadline,
+    idempotencyKey,
+  } = params;
+
+  try {
+    const booking = await db.transaction(async (tx) => {
+      // Reserve capacity only if the trip is still active, has not departed
+      // and has enough room
+      const [reservedTrip] = await tx
+        .update(trips)
+        .set({
+          availableWeight: sql`${trips.availableWeight} - ${bookingData.weight}`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(trips.id, trip.id),
+            eq(trips.status, "active"),
+            gt(trips.departureDate, new Date()),
+            gte(trips.availableWeight, bookingData.weight)
+          )
+        )
+        .returning();
+
+      if (!reservedTrip) {
+        throw new BookingCapacityError(
+          "Le poids demandé n'est plus disponible sur ce voyage"
+        );
+      }
+
+      const applied = await applyPromotions(tx, bookingData.senderId, breakdown, promotions ?? {});
+
+      const initialHistory: Array<{
+        timestamp: string;
+        actor: string;
+        action: string;
+        changes: Record<string, any>;
+      }> = [];
+
+      if (bookingData.pickupLocation || bookingData.pickupDateTime) {
+        initialHistory.push({
+          timestamp: new Date().toISOString(),
+          actor: bookingData.senderId,
+          action: "created",
+          changes: {
+            pickupLocation: bookingData.pickupLocation,
+            pickupDateTime: bookingData.pickupDateTime?.toISOString(),
+            deliveryLocation: bookingData.deliveryLocation,
+            deliveryDateTime: bookingData.deliveryDateTime?.toISOString(),
+          },
+        });
+      }
+
+      const [created] = await tx
+        .insert(bookings)
+        .values({
+          ...bookingData,
+          price: formatCents(applied.amountDueCents),
+          travelerEarnings: breakdown.travelerEarnings,
+          serviceFee: breakdown.serviceFee,
+          taxAmount: breakdown.taxAmount,
+          discountAmount: applied.discountCents > 0 ? formatCents(applied.discountCents) : null,
+          creditAmount: applied.creditCents > 0 ? formatCents(applied.creditCents) : null,
+          pickupPIN: generatePIN(),
+          deliveryPIN: generatePIN(),
+          appointmentHistory: initialHistory as any,
+          responseDeadline,
+          paymentDeadline,
+          idempotencyKey: idempotencyKey || null,
+          // status defaults to "pending" per schema
+        })
+        .returning();
+
+      await recordPromotions(tx, created, applied);
+
+      // Schedule appointment reminders (T-24h and T-2h)
+      const reminderRows = buildAppointmentReminders(
+        created.id,
+        bookingData.senderId,
+        trip.travelerId,
+        created.pickupDateTime,
+        created.deliveryDateTime
+      );
+      if (reminderRows.length > 0) {
+        await tx.insert(reminders).values(reminderRows);
+      }
+
+      return created;
+    });
+
+    return { booking, created: true };
+  } catch (error: any) {
+    // A concurrent retry with the same key won the race: return its booking
+    if (idempotencyKey && error?.code === UNIQUE_VIOLATION) {
+      const existing = await findBookingByIdempotencyKey(bookingData.senderId, idempotencyKey);
+      if (existing) {
+        return { booking: existing, created: false };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tell the traveler about a new booking request, with the system message that
+ * starts the conversation and a notification. Runs in the transaction that
+ * marks the booking paid, so an unpaid request is never announced and a paid
+ * one is announced once. Returns the notification to push once the
+ * transaction has committed.
+ */
+export async function announceBookingRequest(
+  tx: DbTransaction,
+  booking: Booking,
+  trip: Trip
+): Promise<Notification> {
+  const totalCents =
+    toCents(booking.price) + toCents(booking.discountAmount ?? 0) + toCents(booking.creditAmount ?? 0);
+  const deadline = booking.responseDeadline
+    ? `\n\nMerci d'accepter ou de refuser cette demande avant le ${booking.responseDeadline.toLocaleString("fr-FR", { timeZone: "Europe/Paris" })}.`
+    : "";
+
+  await tx.insert(messages).values({
+    senderId: booking.senderId,
+    receiverId: trip.travelerId,
+    bookingId: booking.id,
+    content: `Nouvelle demande de réservation\n\nColis : ${booking.description || "Colis à livrer"}\nPoids : ${Number(booking.weight)}kg\nVotre rémunération : ${booking.travelerEarnings}€\nPrix total de l'envoi : ${formatCents(totalCents)}€\n\nExpéditeur : ${booking.senderName}\nTéléphone : ${booking.senderPhone}${deadline}`,
+    expiresAt: await getMessageExpiry([booking.senderId, trip.travelerId]),
+  });
+
+  const [notification] = await tx
+    .insert(notifications)
+    .values({
+      userId: trip.travelerId,
+      type: "booking",
+      title: "Nouvelle demande de réservation !",
+      message: `Vous avez une nouvelle demande de réservation pour ${trip.departureCity} → ${trip.destinationCity}`,
+      relatedId: booking.id,
+    })
+    .returning();
+
+  return notification;
+}
+
+/**
+ * Reconcile payments interrupted between the provider and the database,
+ * announcing the booking requests they turn out to pay.
+ * This function is called periodically by the cron job
+ */
+export async function reconcileBookingPayments(): Promise<void> {
+  const announced: Notification[] = [];
+
+  await reconcilePendingPayments({
+    onPaid: async (tx, paid) => {
+      const [trip] = await tx.select().from(trips).where(eq(trips.id, paid.tripId));
+      announced.push(await announceBookingRequest(tx, paid, trip));
+    },
+  });
+
+  await pushNotifications(announced);
+}
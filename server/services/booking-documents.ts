@@ -0,0 +1,338 @@
+import PDFDocument from "pdfkit";
+import { db } from "../db";
+import {
+  bookingDocuments,
+  documentCounters,
+  users,
+  type Booking,
+  type BookingDocument,
+  type BookingDocumentSnapshot,
+  type Trip,
+  type User,
+} from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { sendDeliveryConfirmationEmail } from "./email";
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+export type BookingDocumentType = BookingDocument["type"];
+
+// A document not numbered yet: shown while the escrow is still held
+type ProFormaDocument = Pick<BookingDocument, "type"> & { number: null; issuedAt: Date };
+
+// Once the escrow is released or refunded the amounts can no longer change
+const SETTLED_ESCROW_STATUSES: Booking["escrowStatus"][] = ["released", "refunded"];
+
+const NUMBER_PREFIXES: Record<BookingDocumentType, string> = {
+  receipt: "R",
+  invoice: "F",
+};
+
+const TITLES: Record<BookingDocumentType, string> = {
+  receipt: "Reçu de paiement",
+  invoice: "Facture",
+};
+
+const ESCROW_LABELS: Record<Booking["escrowStatus"], string> = {
+  payment_pending: "Paiement en attente",
+  held: "Payé - fonds bloqués jusqu'à la livraison",
+  released: "Payé - fonds versés au voyageur",
+  refunded: "Remboursé",
+};
+
+export class BookingDocumentError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = "BookingDocumentError";
+    Object.setPrototypeOf(this, BookingDocumentError.prototype);
+  }
+}
+
+function displayName(user: User): string {
+  return user.firstName && user.lastName
+    ? `${user.firstName} ${user.lastName}`
+    : user.email || "Utilisateur";
+}
+
+function formatAmount(amount: string | number | null): string {
+  return `${Number(amount ?? 0).toFixed(2)} €`;
+}
+
+function formatDate(date: Date | string | null): string {
+  return date
+    ? new Date(date).toLocaleDateString("fr-FR", { timeZone: "Europe/Paris" })
+    : "-";
+}
+
+function takeSnapshot(details: {
+  booking: Booking;
+  trip: Trip;
+  sender: User;
+  traveler: User;
+}): BookingDocumentSnapshot {
+  const { booking, trip, sender, traveler } = details;
+  return {
+    booking: {
+      id: booking.id,
+      description: booking.description,
+      weight: booking.weight,
+      deliveredAt: booking.deliveredAt ? booking.deliveredAt.toISOString() : null,
+      travelerEarnings: booking.travelerEarnings,
+      serviceFee: booking.serviceFee,
+      taxAmount: booking.taxAmount,
+      discountAmount: booking.discountAmount,
+      creditAmount: booking.creditAmount,
+      price: booking.price,
+      escrowStatus: booking.escrowStatus,
+      refundAmount: booking.refundAmount,
+    },
+    trip: {
+      departureCity: trip.departureCity,
+      destinationCity: trip.destinationCity,
+      departureDate: trip.departureDate.toISOString(),
+    },
+    sender: { name: displayName(sender), email: sender.email },
+    traveler: { name: displayName(traveler), email: traveler.email },
+  };
+}
+
+/**
+ * The document of a booking, numbered the first time it is requested once
+ * its escrow is settled. Numbers follow each other per type and year without
+ * gaps: the counter is bumped in the same transaction that stores the
+ * document. What the document shows is stored with it, so later changes to
+ * the booking never alter an issued document.
+ */
+async function issueDocument(
+  bookingId: string,
+  type: BookingDocumentType,
+  snapshot: BookingDocumentSnapshot
+): Promise<BookingDocument> {
+  const findExisting = async (): Promise<BookingDocument | undefined> => {
+    const [existing] = await db
+      .select()
+      .from(bookingDocuments)
+      .where(and(eq(bookingDocuments.bookingId, bookingId), eq(bookingDocuments.type, type)));
+    return existing;
+  };
+
+  const existing = await findExisting();
+  if (existing) return existing;
+
+  try {
+    return await db.transaction(async (tx) => {
+      const year = new Date().getFullYear();
+      const [counter] = await tx
+        .insert(documentCounters)
+        .values({ type, year, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: [documentCounters.type, documentCounters.year],
+          set: { lastNumber: sql`${documentCounters.lastNumber} + 1` },
+        })
+        .returning();
+
+      const [document] = await tx
+        .insert(bookingDocuments)
+        .values({
+          bookingId,
+          type,
+          number: `${NUMBER_PREFIXES[type]}-${year}-${String(counter.lastNumber).padStart(6, "0")}`,
+          snapshot,
+        })
+        .returning();
+
+      return document;
+    });
+  } catch (error: any) {
+    // A concurrent request numbered it first; its counter bump was rolled back with ours
+    if (error?.code === UNIQUE_VIOLATION) {
+      const concurrent = await findExisting();
+      if (concurrent) return concurrent;
+    }
+    throw error;
+  }
+}
+
+function renderPdf(
+  document: BookingDocument | ProFormaDocument,
+  snapshot: BookingDocumentSnapshot
+): Promise<Buffer> {
+  const { booking, trip, sender, traveler } = snapshot;
+
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const row = (label: string, value: string, bold = false) => {
+      const y = pdf.y;
+      pdf.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(11);
+      pdf.text(label, 50, y, { width: 330 });
+      const labelBottom = pdf.y;
+      pdf.text(value, 380, y, { width: 165, align: "right" });
+      pdf.y = Math.max(labelBottom, pdf.y);
+      pdf.moveDown(0.4);
+    };
+
+    // Header
+    pdf.font("Helvetica-Bold").fontSize(20).text("ParcelLink", 50, 50);
+    pdf.font("Helvetica").fontSize(9).fillColor("#666")
+      .text("Livraison collaborative entre particuliers");
+    pdf.fillColor("#000").font("Helvetica-Bold").fontSize(16)
+      .text(document.number ? TITLES[document.type] : `${TITLES[document.type]} pro forma`, 50, 50, { align: "right" });
+    pdf.font("Helvetica").fontSize(10);
+    if (document.number) {
+      pdf.text(`N° ${document.number}`, { align: "right" })
+        .text(`Émis le ${formatDate(document.issuedAt)}`, { align: "right" });
+    } else {
+      pdf.text(`Édité le ${formatDate(document.issuedAt)}`, { align: "right" });
+    }
+
+    // Parties
+    pdf.moveDown(2);
+    const partiesY = pdf.y;
+    const issuer = document.type === "invoice" ? traveler : sender;
+    const recipient = document.type === "invoice" ? sender : traveler;
+    pdf.font("Helvetica-Bold").fontSize(11)
+      .text(document.type === "invoice" ? "Voyageur (prestataire)" : "Expéditeur (client)", 50, partiesY);
+    pdf.font("Helvetica").fontSize(10).text(issuer.name);
+    if (issuer.email) pdf.text(issuer.email);
+    pdf.font("Helvetica-Bold").fontSize(11)
+      .text(document.type === "invoice" ? "Expéditeur (client)" : "Voyageur (transporteur)", 320, partiesY);
+    pdf.font("Helvetica").fontSize(10).text(recipient.name, 320);
+    if (recipient.email) pdf.text(recipient.email, 320);
+
+    // Shipment
+    pdf.moveDown(2);
+    pdf.x = 50;
+    pdf.font("Helvetica-Bold").fontSize(13).text("Envoi", 50);
+    pdf.moveDown(0.5);
+    row("Réservation", booking.id);
+    row("Trajet", `${trip.departureCity} - ${trip.destinationCity}`);
+    row("Date de départ", formatDate(trip.departureDate));
+    row("Colis", booking.description || "Colis à livrer");
+    row("Poids", `${Number(booking.weight).toFixed(2)} kg`);
+    if (booking.deliveredAt) {
+      row("Livré le", formatDate(booking.deliveredAt));
+    }
+
+    // Amounts
+    pdf.moveDown(1);
+    pdf.font("Helvetica-Bold").fontSize(13).text("Montants", 50);
+    pdf.moveDown(0.5);
+    if (booking.serviceFee !== null) {
+      row("Transport du colis (rémunération du voyageur)", formatAmount(booking.travelerEarnings));
+      row("Frais de service ParcelLink (HT)", formatAmount(booking.serviceFee));
+      row("TVA sur les frais de service", formatAmount(booking.taxAmount));
+    }
+    if (booking.discountAmount !== null) {
+      row("Réduction code promo", `-${formatAmount(booking.discountAmount)}`);
+    }
+    if (booking.creditAmount !== null) {
+      row("Crédits de parrainage", `-${formatAmount(booking.creditAmount)}`);
+    }
+    row("Total payé par l'expéditeur", formatAmount(booking.price), true);
+    if (document.type === "invoice" && booking.travelerEarnings !== null) {
+      row("Montant dû au voyageur", formatAmount(booking.travelerEarnings), true);
+    }
+
+    // Payment
+    pdf.moveDown(1);
+    pdf.font("Helvetica-Bold").fontSize(13).text("Paiement", 50);
+    pdf.moveDown(0.5);
+    row("État", ESCROW_LABELS[booking.escrowStatus]);
+    if (booking.escrowStatus === "refunded" && booking.refundAmount) {
+      row("Montant remboursé", formatAmount(booking.refundAmount));
+    }
+
+    pdf.moveDown(2);
+    pdf.font("Helvetica").fontSize(8).fillColor("#666").text(
+      document.type === "invoice"
+        ? "Facture établie par ParcelLink au nom et pour le compte du voyageur."
+        : "Le montant est conservé par ParcelLink jusqu'à la confirmation de la livraison par code PIN, puis versé au voyageur.",
+      50
+    );
+    if (!document.number) {
+      pdf.moveDown(0.5).text(
+        "Document provisoire sans valeur comptable : le document numéroté est émis une fois le paiement versé au voyageur ou remboursé.",
+        50
+      );
+    }
+
+    pdf.end();
+  });
+}
+
+/**
+ * The sender's receipt or the traveler's invoice of a booking, as a PDF.
+ * Only bookings that were paid have one. While the escrow is held the amounts
+ * can still change, so an un-numbered pro forma is rendered from the booking
+ * as it stands; the numbered document is issued once the escrow is settled.
+ */
+export async function getBookingDocumentPdf(
+  booking: Booking,
+  trip: Trip,
+  type: BookingDocumentType
+): Promise<{ filename: string; pdf: Buffer }> {
+  if (booking.escrowStatus === "payment_pending") {
+    throw new BookingDocumentError("Cette réservation n'a pas encore été payée");
+  }
+
+  const [sender] = await db.select().from(users).where(eq(users.id, booking.senderId));
+  const [traveler] = await db.select().from(users).where(eq(users.id, trip.travelerId));
+  if (!sender || !traveler) {
+    throw new BookingDocumentError("User not found", 404);
+  }
+
+  const snapshot = takeSnapshot({ booking, trip, sender, traveler });
+  const name = `parcellink-${type === "invoice" ? "facture" : "recu"}`;
+
+  if (!SETTLED_ESCROW_STATUSES.includes(booking.escrowStatus)) {
+    const pdf = await renderPdf({ type, number: null, issuedAt: new Date() }, snapshot);
+    return { filename: `${name}-proforma-${booking.id}.pdf`, pdf };
+  }
+
+  const document = await issueDocument(booking.id, type, snapshot);
+  const pdf = await renderPdf(document, document.snapshot);
+
+  return { filename: `${name}-${document.number}.pdf`, pdf };
+}
+
+/**
+ * Email both parties once a parcel is delivered: the sender with their
+ * receipt, the traveler with their invoice. Failures are logged, never thrown.
+ */
+export async function sendDeliveryConfirmations(booking: Booking, trip: Trip): Promise<void> {
+  const recipients: { userId: string; type: BookingDocumentType }[] = [
+    { userId: booking.senderId, type: "receipt" },
+    { userId: trip.travelerId, type: "invoice" },
+  ];
+
+  for (const recipient of recipients) {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, recipient.userId));
+      if (!user?.email) continue;
+
+      const { filename, pdf } = await getBookingDocumentPdf(booking, trip, recipient.type);
+      await sendDeliveryConfirmationEmail({
+        to: user.email,
+        userName: user.firstName || "Utilisateur",
+        role: recipient.type === "invoice" ? "traveler" : "sender",
+        route: `${trip.departureCity} → ${trip.destinationCity}`,
+        bookingId: booking.id,
+        attachment: { filename, content: pdf },
+      });
+    } catch (error) {
+      console.error(
+        `[Booking Documents] Failed to send delivery confirmation of booking ${booking.id} to ${recipient.userId}:`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { db } from "../db";
+import {
+  bookings,
+  bookingEvents,
+  type Booking,
+  type Trip,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+export type BookingStatus = Booking["status"];
+export type BookingActorRole = "sender" | "traveler" | "system" | "admin";
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface BookingActor {
+  role: BookingActorRole;
+  userId: string | null; // null for system-triggered transitions
+}
+
+export class BookingTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409
+  ) {
+    super(message);
+    this.name = "BookingTransitionError";
+    Object.setPrototypeOf(this, BookingTransitionError.prototype);
+  }
+}
+
+export const STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: "en attente",
+  confirmed: "confirmée",
+  declined: "refusée",
+  picked_up: "récupérée",
+  in_transit: "en transit",
+  arrived: "arrivée",
+  delivered: "livrée",
+  cancelled: "annulée",
+};
+
+/**
+ * Allowed transitions between booking statuses, and who may trigger each one
+ * Statuses missing from this table (declined, delivered, cancelled) are terminal
+ */
+const TRANSITIONS: Partial<
+  Record<BookingStatus, Partial<Record<BookingStatus, BookingActorRole[]>>>
+> = {
+  pending: {
+    confirmed: ["traveler"],
+    declined: ["traveler", "system"],
+    cancelled: ["sender", "system", "admin"],
+  },
+  confirmed: {
+    picked_up: ["traveler"],
+    cancelled: ["sender", "traveler", "admin"],
+  },
+  picked_up: {
+    in_transit: ["traveler", "system"],
+    delivered: ["traveler"],
+    cancelled: ["admin"],
+  },
+  in_transit: {
+    arrived: ["traveler", "system"],
+    delivered: ["traveler"],
+    cancelled: ["admin"],
+  },
+  arrived: {
+    delivered: ["traveler"],
+    cancelled: ["admin"],
+  },
+};
+
+/**
+ * Check whether an actor may move a booking from one status to another
+ */
+export function canTransition(
+  from: BookingStatus,
+  to: BookingStatus,
+  role: BookingActorRole
+): boolean {
+  return TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+}
+
+/**
+ * Whether a booking has reached a final status (declined, delivered, cancelled)
+ */
+export function isTerminalStatus(status: BookingStatus): boolean {
+  return !TRANSITIONS[status];
+}
+
+/**
+ * List the statuses an actor can move a booking to from its current status
+ */
+export function getAllowedTransitions(
+  from: BookingStatus,
+  role: BookingActorRole
+): BookingStatus[] {
+  const targets = TRANSITIONS[from] || {};
+  return (Object.keys(targets) as BookingStatus[]).filter((to) =>
+    targets[to]?.includes(role)
+  );
+}
+
+/**
+ * Determine whether a user takes part in a booking as sender or traveler
+ */
+export function resolveBookingActorRole(
+  booking: Booking,
+  trip: Trip,
+  userId: string
+): "sender" | "traveler" | null {
+  if (trip.travelerId === userId) return "traveler";
+  if (booking.senderId === userId) return "sender";
+  return null;
+}
+
+export interface TransitionBookingOptions {
+  bookingId: string;
+  to: BookingStatus;
+  actor: BookingActor;
+  reason?: string | null;
+  metadata?: Record<string, any>;
+  // Extra columns to write alongside the status change
+  updates?: Partial<Omit<typeof bookings.$inferInsert, "id" | "status">>;
+  // Side effects that must commit or roll back together with the transition,
+  // given the updated row and the locked row as it was before the change
+  // May return the booking again if it updated the row
+  onTransition?: (tx: DbTransaction, booking: Booking, previous: Booking) => Promise<Booking | void>;
+  // Run as part of this transaction instead of a new one
+  tx?: DbTransaction;
+}
+
+/**
+ * Move a booking to a new status
+ *
+ * The booking row is locked for the duration of the transaction, the
+ * transition is checked against the table above, and a booking event is
+ * recorded. Every status change must go through here.
+ */
+export async function transitionBooking(
+  options: TransitionBookingOptions
+): Promise<Booking> {
+  const { bookingId, to, actor, reason, metadata, updates, onTransition } = options;
+
+  const transition = async (tx: DbTransaction): Promise<Booking> => {
+    const [current] = await tx
+      .select()
+      .from(bookings)
+      .where(eq(bookings.id, bookingId))
+      .for("update");
+
+    if (!current) {
+      throw new BookingTransitionError("Booking not found", 404);
+    }
+
+    if (!canTransition(current.status, to, actor.role)) {
+      throw new BookingTransitionError(
+        `Impossible de passer une réservation ${STATUS_LABELS[current.status]} au statut ${STATUS_LABELS[to]}`
+      );
+    }
+
+    const [updated] = await tx
+      .update(bookings)
+      .set({
+        ...updates,
+        status: to,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookings.id, bookingId))
+      .returning();
+
+    await tx.insert(bookingEvents).values({
+      bookingId,
+      fromStatus: current.status,
+      toStatus: to,
+      actorId: actor.userId,
+      actorRole: actor.role,
+      reason: reason ?? null,
+      metadata: metadata ?? null,
+    });
+
+    const result = onTransition ? await onTransition(tx, updated, current) : undefined;
+
+    console.log(
+      `[Booking Lifecycle] Booking ${bookingId}: ${current.status} → ${to} (${actor.role})`
+    );
+
+    return result ?? updated;
+  };
+
+  return options.tx ? await transition(options.tx) : await db.transaction(transition);
+}
@@ -0,0 +1,243 @@
+import { storage } from "../storage";
+import { cancelBookingReminders } from "./reminder-scheduler";
+import { db } from "../db";
+import { transitionBooking, BookingTransitionError, type DbTransaction } from "./booking-lifecycle";
+import { processPendingRefunds, settleEscrow } from "./escrow-ledger";
+import { toCents } from "./pricing";
+import { createNotification } from "./notifications";
+import { trips, type Booking, type Trip } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+
+/**
+ * How long a traveler has to accept or decline a booking request.
+ * Configurable via BOOKING_RESPONSE_HOURS (defaults to 48 hours).
+ */
+export const BOOKING_RESPONSE_HOURS = parseInt(
+  process.env.BOOKING_RESPONSE_HOURS || "48",
+  10
+);
+
+/**
+ * How long a sender has to pay a booking request before it is cancelled and
+ * its weight given back to the trip.
+ * Configurable via BOOKING_PAYMENT_MINUTES (defaults to 30 minutes).
+ */
+export const BOOKING_PAYMENT_MINUTES = parseInt(
+  process.env.BOOKING_PAYMENT_MINUTES || "30",
+  10
+);
+
+export const EXPIRED_DECLINE_REASON = "Demande expirée : le voyageur n'a pas répondu à temps";
+
+export const UNPAID_CANCELLATION_REASON = "Réservation annulée : le paiement n'a pas été effectué à temps";
+
+/**
+ * Calculate the response deadline for a new booking request
+ */
+export function calculateResponseDeadline(from: Date = new Date()): Date {
+  const deadline = new Date(from);
+  deadline.setHours(deadline.getHours() + BOOKING_RESPONSE_HOURS);
+  return deadline;
+}
+
+/**
+ * Calculate the payment deadline for a new booking request
+ */
+export function calculatePaymentDeadline(from: Date = new Date()): Date {
+  const deadline = new Date(from);
+  deadline.setMinutes(deadline.getMinutes() + BOOKING_PAYMENT_MINUTES);
+  return deadline;
+}
+
+/**
+ * Decline a pending booking, give the weight back to the trip, refund the
+ * sender in full and let them know. Shared by the traveler's decline route
+ * and the expiry job.
+ */
+export async function declineBookingRequest(
+  bookingId: string,
+  travelerId: string,
+  reason: string | null,
+  actorRole: "traveler" | "system" = "traveler"
+): Promise<Booking> {
+  const booking = await db.transaction((tx) =>
+    recordBookingDecline(tx, bookingId, travelerId, reason, actorRole)
+  );
+  await announceBookingDecline(booking, travelerId, reason);
+  return booking;
+}
+
+/**
+ * The part of a decline that commits or rolls back with the transaction: the
+ * status change, the weight given back to the trip and the full refund.
+ * announceBookingDecline must follow once it has committed.
+ */
+export async function recordBookingDecline(
+  tx: DbTransaction,
+  bookingId: string,
+  travelerId: string,
+  reason: string | null,
+  actorRole: "traveler" | "system" = "traveler"
+): Promise<Booking> {
+  return await transitionBooking({
+    tx,
+    bookingId,
+    to: "declined",
+    actor: {
+      role: actorRole,
+      userId: actorRole === "traveler" ? travelerId : null,
+    },
+    reason,
+    updates: {
+      declineReason: reason,
+      respondedAt: new Date(),
+    },
+    onTransition: async (tx, declined) => {
+      // Give the reserved weight back to the trip
+      await tx
+        .update(trips)
+        .set({
+          availableWeight: sql`${trips.availableWeight} + ${declined.weight}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(trips.id, declined.tripId));
+
+      return await settleEscrow(tx, declined, toCents(declined.price));
+    },
+  });
+}
+
+/**
+ * Send the refund of a committed decline, drop its reminders and let the
+ * sender know
+ */
+export async function announceBookingDecline(
+  booking: Booking,
+  travelerId: string,
+  reason: string | null
+): Promise<void> {
+  await processPendingRefunds(booking.id);
+  await cancelBookingReminders(booking.id);
+
+  await storage.createMessage({
+    bookingId: booking.id,
+    senderId: travelerId,
+    receiverId: booking.senderId,
+    content: `Réservation refusée\n\nColis : ${booking.description || "Colis à livrer"}\nPoids : ${Number(booking.weight)}kg${reason ? `\n\nMotif : ${reason}` : ""}${booking.escrowStatus === "refunded" ? `\n\nLe montant de ${booking.price}€ vous sera remboursé.` : ""}`,
+  });
+
+  await createNotification({
+    userId: booking.senderId,
+    type: "booking",
+    title: "Réservation refusée",
+    message: reason || "Le voyageur a refusé votre demande de réservation",
+    relatedId: booking.id,
+  });
+}
+
+/**
+ * Cancel a booking request the sender did not pay in time and give its weight
+ * back to the trip. The traveler never heard of it, so only the sender is
+ * told. A booking paid in the meantime is left alone.
+ */
+export async function expireUnpaidBookingRequest(bookingId: string, trip: Trip): Promise<Booking> {
+  const booking = await transitionBooking({
+    bookingId,
+    to: "cancelled",
+    actor: { role: "system", userId: null },
+    reason: UNPAID_CANCELLATION_REASON,
+    updates: {
+      cancelledAt: new Date(),
+      cancellationReason: UNPAID_CANCELLATION_REASON,
+    },
+    onTransition: async (tx, cancelled, previous) => {
+      if (previous.escrowStatus !== "payment_pending") {
+        throw new BookingTransitionError("La réservation a été payée entre-temps");
+      }
+
+      // Give the reserved weight back to the trip
+      await tx
+        .update(trips)
+        .set({
+          availableWeight: sql`${trips.availableWeight} + ${cancelled.weight}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(trips.id, cancelled.tripId));
+
+      return await settleEscrow(tx, cancelled);
+    },
+  });
+
+  await cancelBookingReminders(booking.id);
+
+  await createNotification({
+    userId: booking.senderId,
+    type: "booking",
+    title: "Réservation annulée",
+    message: `Le paiement de votre réservation pour ${trip.departureCity} → ${trip.destinationCity} n'a pas été effectué à temps`,
+    relatedId: booking.id,
+  });
+
+  return booking;
+}
+
+/**
+ * Cancel booking requests still unpaid after their payment deadline
+ * This function is called periodically by the cron job
+ */
+export async function expireUnpaidBookingRequests(): Promise<void> {
+  try {
+    const overdue = await storage.getOverdueUnpaidBookings(new Date());
+
+    console.log(`[Booking Expiry] Found ${overdue.length} unpaid booking requests`);
+
+    for (const booking of overdue) {
+      try {
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) continue;
+
+        await expireUnpaidBookingRequest(booking.id, trip);
+        console.log(`[Booking Expiry] Cancelled unpaid booking ${booking.id}`);
+      } catch (error) {
+        if (error instanceof BookingTransitionError) {
+          console.log(`[Booking Expiry] Booking ${booking.id} no longer unpaid: ${error.message}`);
+          continue;
+        }
+        console.error(`[Booking Expiry] Error expiring unpaid booking ${booking.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Booking Expiry] Error expiring unpaid booking requests:", error);
+  }
+}
+
+/**
+ * Auto-decline paid booking requests whose response deadline has passed
+ * This function is called periodically by the cron job
+ */
+export async function expireOverdueBookingRequests(): Promise<void> {
+  try {
+    const overdue = await storage.getOverduePendingBookings(new Date());
+
+    console.log(`[Booking Expiry] Found ${overdue.length} overdue booking requests`);
+
+    for (const booking of overdue) {
+      try {
+        const trip = await storage.getTrip(booking.tripId);
+        if (!trip) continue;
+
+        await declineBookingRequest(
+          booking.id,
+          trip.travelerId,
+          EXPIRED_DECLINE_REASON,
+          "system"
+        );
+        console.log(`[Booking Expiry] Auto-declined booking ${booking.id}`);
+      } catch (error) {
+        console.error(`[Booking Expiry] Error expiring booking ${booking.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Booking Expiry] Error expiring booking requests:", error);
+  }
+}
@@ -0,0 +1,114 @@
+import { db } from "../db";
+import { bookings, trips } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { ObjectAccessGroupType, ObjectPermission, type ObjectAclPolicy } from "../objectAcl";
+
+// Thread of two users that is not tied to a booking
+const DIRECT_THREAD = "direct";
+
+/**
+ * A conversation thread: the messages between two users about one booking,
+ * or outside of any booking
+ */
+export interface ConversationThreadRef {
+  participantIds: [string, string];
+  bookingId: string | null;
+}
+
+export class ConversationThreadError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "ConversationThreadError";
+    Object.setPrototypeOf(this, ConversationThreadError.prototype);
+  }
+}
+
+/**
+ * Stable ID of the thread between two users, the same from either side.
+ * Also used as the CONVERSATION_PARTICIPANT access group ID of attachments.
+ */
+export function getThreadId(userId: string, otherUserId: string, bookingId: string | null): string {
+  const [first, second] = [userId, otherUserId].sort();
+  return `${bookingId ?? DIRECT_THREAD}:${first}:${second}`;
+}
+
+export function parseThreadId(threadId: string): ConversationThreadRef | null {
+  const parts = threadId.split(":");
+  if (parts.length !== 3) return null;
+
+  const [scope, first, second] = parts;
+  return {
+    participantIds: [first, second],
+    bookingId: scope === DIRECT_THREAD ? null : scope,
+  };
+}
+
+/**
+ * ACL of a file sent in a thread: its sender and the other participant can
+ * read it
+ */
+export function getThreadAclPolicy(
+  ownerId: string,
+  otherUserId: string,
+  bookingId: string | null
+): ObjectAclPolicy {
+  return {
+    owner: ownerId,
+    visibility: "private",
+    aclRules: [
+      {
+        group: {
+          type: ObjectAccessGroupType.CONVERSATION_PARTICIPANT,
+          id: getThreadId(ownerId, otherUserId, bookingId),
+        },
+        permission: ObjectPermission.READ,
+      },
+    ],
+  };
+}
+
+/**
+ * A booking thread is only open to the booking's sender and traveler
+ */
+export async function assertBookingThreadParticipants(
+  bookingId: string,
+  userId: string,
+  otherUserId: string
+): Promise<void> {
+  const [booking] = await db
+    .select({ senderId: bookings.senderId, travelerId: trips.travelerId })
+    .from(bookings)
+    .innerJoin(trips, eq(trips.id, bookings.tripId))
+    .where(eq(bookings.id, bookingId));
+
+  if (!booking) {
+    throw new ConversationThreadError("Booking not found", 404);
+  }
+
+  const participants = [booking.senderId, booking.travelerId];
+  if (!participants.includes(userId) || !participants.includes(otherUserId) || userId === otherUserId) {
+    throw new ConversationThreadError("Not a participant of this booking", 403);
+  }
+}
+
+/**
+ * Whether a user belongs to a thread. Older attachments were shared with a
+ * bare booking ID, which covers the booking's sender and traveler.
+ */
+export async function isThreadMember(threadId: string, userId: string): Promise<boolean> {
+  const thread = parseThreadId(threadId);
+  if (thread) {
+    return thread.participantIds.includes(userId);
+  }
+
+  const [booking] = await db
+    .select({ senderId: bookings.senderId, travelerId: trips.travelerId })
+    .from(bookings)
+    .innerJoin(trips, eq(trips.id, bookings.tripId))
+    .where(eq(bookings.id, threadId));
+
+  return !!booking && (booking.senderId === userId || booking.travelerId === userId);
+}
@@ -206,3 +206,83 @@ export async function sendReminderEmail(data: ReminderEmailData): Promise<boolea
     return false;
   }
 }
+
+export interface DeliveryConfirmationEmailData {
+  to: string;
+  userName: string;
+  role: "sender" | "traveler";
+  route: string;
+  bookingId: string;
+  attachment: {
+    filename: string;
+    content: Buffer;
+  };
+}
+
+export async function sendDeliveryConfirmationEmail(
+  data: DeliveryConfirmationEmailData
+): Promise<boolean> {
+  try {
+    const { to, userName, role, route, bookingId, attachment } = data;
+
+    const subject = role === "sender"
+      ? `✅ Votre colis a été livré (${route})`
+      : `✅ Livraison confirmée (${route})`;
+
+    const message = role === "sender"
+      ? "Votre colis a bien été livré. Vous trouverez votre reçu en pièce jointe."
+      : "La livraison a été confirmée et votre rémunération est disponible dans votre portefeuille. Vous trouverez votre facture en pièce jointe.";
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%); color: white; padding: 30px 20px; text-align: center; border-radius: 8px 8px 0 0;">
+            <h1 style="margin: 0; font-size: 24px;">📦 ParcelLink</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Livraison confirmée</p>
+          </div>
+
+          <div style="background: white; padding: 30px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #111827; margin-top: 0;">Bonjour ${userName},</h2>
+            <p style="font-size: 16px; color: #374151;">${message}</p>
+            <p style="font-size: 15px; color: #6b7280;">Trajet : ${route}</p>
+
+            <center>
+              <a href="${process.env.REPL_HOME || 'https://parcellink.replit.app'}/bookings/${bookingId}"
+                 style="display: inline-block; background: #3b82f6; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; font-weight: 600; margin: 20px 0;">
+                Voir la réservation
+              </a>
+            </center>
+          </div>
+
+          <div style="text-align: center; color: #6b7280; font-size: 14px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+            <p>© ${new Date().getFullYear()} ParcelLink - Livraison collaborative entre particuliers</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const { error } = await resend.emails.send({
+      from: "ParcelLink <notifications@parcellink.app>",
+      to,
+      subject,
+      html,
+      attachments: [{ filename: attachment.filename, content: attachment.content }],
+    });
+
+    if (error) {
+      console.error("[Email Service] Failed to send delivery confirmation:", error);
+      return false;
+    }
+
+    console.log(`[Email Service] Delivery confirmation sent successfully to ${to}`);
+    return true;
+  } catch (error) {
+    console.error("[Email Service] Error sending delivery confirmation:", error);
+    return false;
+  }
+}
@@ -0,0 +1,532 @@
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import {
+  bookings,
+  ledgerEntries,
+  payments,
+  type Booking,
+  type LedgerEntry,
+  type Payment,
+} from "@shared/schema";
+import { and, desc, eq, gte, lt, or, sql } from "drizzle-orm";
+import { isTerminalStatus, type DbTransaction } from "./booking-lifecycle";
+import {
+  PAYMENT_CURRENCY,
+  PaymentProviderError,
+  getPaymentProvider,
+} from "./payment-provider";
+import { formatCents, splitEscrowAmount, toCents } from "./pricing";
+import { releasePromotions } from "./promotions";
+
+type LedgerAccount = LedgerEntry["account"];
+type LedgerEntryType = LedgerEntry["entryType"];
+
+export interface LedgerLeg {
+  entryType: LedgerEntryType;
+  account: LedgerAccount;
+  direction: LedgerEntry["direction"];
+  amountCents: number;
+}
+
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 402
+  ) {
+    super(message);
+    this.name = "PaymentError";
+    Object.setPrototypeOf(this, PaymentError.prototype);
+  }
+}
+
+/**
+ * Money moving from one account to another: the source is debited and the
+ * destination credited by the same amount
+ */
+export function move(
+  entryType: LedgerEntryType,
+  from: LedgerAccount,
+  to: LedgerAccount,
+  amountCents: number
+): LedgerLeg[] {
+  return [
+    { entryType, account: from, direction: "debit", amountCents },
+    { entryType, account: to, direction: "credit", amountCents },
+  ];
+}
+
+/**
+ * Write a set of legs as one ledger transaction. Refuses anything that does
+ * not balance.
+ */
+export async function postLedgerTransaction(
+  tx: DbTransaction,
+  bookingId: string,
+  legs: LedgerLeg[],
+  source: { paymentId?: string; payoutId?: string } = {}
+): Promise<void> {
+  const posted = legs.filter((leg) => leg.amountCents > 0);
+  if (posted.length === 0) return;
+
+  const balance = posted.reduce(
+    (total, leg) => total + (leg.direction === "debit" ? leg.amountCents : -leg.amountCents),
+    0
+  );
+  if (balance !== 0) {
+    throw new Error(`Unbalanced ledger transaction for booking ${bookingId}`);
+  }
+
+  const transactionId = randomUUID();
+  await tx.insert(ledgerEntries).values(
+    posted.map((leg) => ({
+      transactionId,
+      bookingId,
+      paymentId: source.paymentId ?? null,
+      payoutId: source.payoutId ?? null,
+      entryType: leg.entryType,
+      account: leg.account,
+      direction: leg.direction,
+      amount: formatCents(leg.amountCents),
+      currency: PAYMENT_CURRENCY,
+    }))
+  );
+}
+
+// Part of a booking's price the platform funds (promo code and credits), in cents
+function getPromotionCents(booking: Booking): number {
+  return toCents(booking.discountAmount ?? 0) + toCents(booking.creditAmount ?? 0);
+}
+
+/**
+ * Money of a booking currently held in escrow, in cents
+ */
+export async function getEscrowBalance(
+  tx: DbTransaction,
+  bookingId: string
+): Promise<number> {
+  const [row] = await tx
+    .select({
+      balance: sql<string>`coalesce(sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(and(eq(ledgerEntries.bookingId, bookingId), eq(ledgerEntries.account, "escrow")));
+
+  return toCents(row.balance);
+}
+
+/**
+ * How long a charge can stay "pending" before the reconciliation job picks it
+ * up. A charge still pending after that was interrupted between the provider
+ * and the database.
+ */
+const CHARGE_RECONCILE_AFTER_MINUTES = 10;
+
+// Times a refund the provider rejects is tried before it is left for follow-up
+const REFUND_MAX_ATTEMPTS = 5;
+
+type OnPaid = (tx: DbTransaction, booking: Booking) => Promise<void>;
+
+/**
+ * Charge the sender for a booking that is waiting for payment. On success the
+ * charge and the hold into escrow are posted, along with the discount the
+ * platform funds, and the booking moves to "held"; on failure it stays
+ * "payment_pending" and can be paid again later. onPaid runs in the same
+ * transaction, only for the charge that actually paid the booking.
+ */
+export async function chargeBooking(
+  booking: Booking,
+  paymentMethodId?: string | null,
+  options: { onPaid?: OnPaid } = {}
+): Promise<Booking> {
+  if (booking.escrowStatus !== "payment_pending") {
+    return booking;
+  }
+  if (isTerminalStatus(booking.status)) {
+    throw new PaymentError("Cette réservation n'est plus active", 409);
+  }
+
+  const provider = getPaymentProvider();
+  const [payment] = await db
+    .insert(payments)
+    .values({
+      bookingId: booking.id,
+      type: "charge",
+      provider: provider.name,
+      paymentMethodId: paymentMethodId || null,
+      amount: booking.price,
+      currency: PAYMENT_CURRENCY,
+    })
+    .returning();
+
+  try {
+    await sendCharge(payment, booking.senderId);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      throw new PaymentError(error.declined ? error.message : "Le paiement n'a pas pu être effectué");
+    }
+    console.error(`[Payments] Outcome of charge ${payment.id} of booking ${booking.id} unknown:`, error);
+    throw new PaymentError("Le paiement est en cours de vérification, réessayez dans quelques minutes", 502);
+  }
+
+  return await recordCharge(payment, options.onPaid);
+}
+
+/**
+ * Send a pending charge to the provider, keyed by the payment ID so a retry
+ * never charges twice, and keep the provider reference on the payment. Only
+ * a PaymentProviderError means the charge did not go through and marks it
+ * failed; after any other error (timeout, network, crash) the money may have
+ * been taken, so the charge stays "pending" for the reconciliation job.
+ */
+async function sendCharge(payment: Payment, customerId: string): Promise<string> {
+  let reference: string;
+  try {
+    const result = await getPaymentProvider().charge({
+      amount: payment.amount,
+      currency: payment.currency,
+      customerId,
+      description: `Réservation ${payment.bookingId}`,
+      paymentMethodId: payment.paymentMethodId,
+      idempotencyKey: payment.id,
+    });
+    reference = result.reference;
+  } catch (error: any) {
+    if (error instanceof PaymentProviderError) {
+      await db
+        .update(payments)
+        .set({ status: "failed", failureReason: error.message, updatedAt: new Date() })
+        .where(and(eq(payments.id, payment.id), eq(payments.status, "pending")));
+    }
+    throw error;
+  }
+
+  // Kept on its own so that, if recording the charge fails, the money taken
+  // can still be found and reconciled
+  await db
+    .update(payments)
+    .set({ providerReference: reference, updatedAt: new Date() })
+    .where(eq(payments.id, payment.id));
+
+  return reference;
+}
+
+// Post a charge the provider accepted and hold it in escrow
+async function recordCharge(payment: Payment, onPaid?: OnPaid): Promise<Booking> {
+  const amountCents = toCents(payment.amount);
+  let duplicate = false;
+
+  const updated = await db.transaction(async (tx) => {
+    const [charged] = await tx
+      .update(payments)
+      .set({ status: "succeeded", updatedAt: new Date() })
+      .where(and(eq(payments.id, payment.id), eq(payments.status, "pending")))
+      .returning();
+
+    const [current] = await tx
+      .select()
+      .from(bookings)
+      .where(eq(bookings.id, payment.bookingId))
+      .for("update");
+
+    // Recorded by someone else in the meantime
+    if (!charged) {
+      return current;
+    }
+
+    await postLedgerTransaction(
+      tx,
+      current.id,
+      move("charge", "provider_cash", "sender_funds", amountCents),
+      { paymentId: payment.id }
+    );
+
+    // A concurrent attempt already paid, or the booking was closed meanwhile:
+    // this charge goes straight back
+    if (current.escrowStatus !== "payment_pending" || isTerminalStatus(current.status)) {
+      const refund = await queueRefund(tx, charged, amountCents);
+      await postLedgerTransaction(
+        tx,
+        current.id,
+        move("refund", "sender_funds", "provider_cash", amountCents),
+        { paymentId: refund.id }
+      );
+      duplicate = true;
+      return current;
+    }
+
+    await postLedgerTransaction(
+      tx,
+      current.id,
+      move("hold", "sender_funds", "escrow", amountCents),
+      { paymentId: payment.id }
+    );
+    await postLedgerTransaction(
+      tx,
+      current.id,
+      move("promotion", "promotions", "escrow", getPromotionCents(current))
+    );
+
+    const [held] = await tx
+      .update(bookings)
+      .set({ escrowStatus: "held", updatedAt: new Date() })
+      .where(eq(bookings.id, current.id))
+      .returning();
+
+    if (onPaid) {
+      await onPaid(tx, held);
+    }
+
+    return held;
+  });
+
+  if (duplicate) {
+    await processPendingRefunds(payment.bookingId);
+  }
+
+  return updated;
+}
+
+/**
+ * Settle charges and refunds left "pending" by an interruption. Charges
+ * without a provider reference are sent again with the same idempotency key,
+ * so one the provider already made is not made twice. Charges the provider
+ * accepted are then recorded as if the request had gone through (onPaid
+ * included), or refunded if the booking no longer needs them. Refunds still
+ * owed are sent again.
+ * This function is called periodically by the cron job
+ */
+export async function reconcilePendingPayments(options: { onPaid?: OnPaid } = {}): Promise<void> {
+  const cutoff = new Date(Date.now() - CHARGE_RECONCILE_AFTER_MINUTES * 60 * 1000);
+  const stale = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        or(eq(payments.status, "pending"), refundOutstanding()),
+        lt(payments.updatedAt, cutoff)
+      )
+    );
+
+  console.log(`[Payments] Found ${stale.length} stale pending payments`);
+
+  const refundedBookingIds = new Set<string>();
+  for (const payment of stale) {
+    try {
+      if (payment.type === "refund") {
+        refundedBookingIds.add(payment.bookingId);
+        continue;
+      }
+
+      if (!payment.providerReference) {
+        const [booking] = await db
+          .select({ senderId: bookings.senderId })
+          .from(bookings)
+          .where(eq(bookings.id, payment.bookingId));
+        await sendCharge(payment, booking.senderId);
+      }
+
+      await recordCharge(payment, options.onPaid);
+      console.log(`[Payments] Recorded interrupted charge ${payment.id} of booking ${payment.bookingId}`);
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        console.warn(`[Payments] Interrupted charge ${payment.id} of booking ${payment.bookingId} did not go through`);
+      } else {
+        // Still unknown: left pending for the next run
+        console.error(`[Payments] Failed to reconcile payment ${payment.id}:`, error);
+      }
+    }
+  }
+
+  for (const bookingId of Array.from(refundedBookingIds)) {
+    try {
+      await processPendingRefunds(bookingId);
+    } catch (error) {
+      console.error(`[Payments] Failed to send pending refunds of booking ${bookingId}:`, error);
+    }
+  }
+}
+
+// Record a refund to send to the provider once the transaction commits
+async function queueRefund(
+  tx: DbTransaction,
+  charge: Payment,
+  amountCents: number
+): Promise<Payment> {
+  const [refund] = await tx
+    .insert(payments)
+    .values({
+      bookingId: charge.bookingId,
+      type: "refund",
+      chargeId: charge.id,
+      provider: charge.provider,
+      amount: formatCents(amountCents),
+      currency: charge.currency,
+    })
+    .returning();
+
+  return refund;
+}
+
+/**
+ * Close the escrow of a booking: refundCents go back to the sender, the
+ * discount the platform funded goes back to it in the same share, and the rest
+ * is split between the traveler, the platform fee and its VAT. Must run in the same
+ * transaction as the booking's status change so both commit together.
+ * Bookings that were never paid only give their promotions back; settled
+ * ones are left untouched.
+ */
+export async function settleEscrow(
+  tx: DbTransaction,
+  booking: Booking,
+  refundCents: number = 0
+): Promise<Booking> {
+  if (booking.escrowStatus === "payment_pending") {
+    await releasePromotions(tx, booking, 1);
+    return booking;
+  }
+  if (booking.escrowStatus !== "held") return booking;
+
+  const balance = await getEscrowBalance(tx, booking.id);
+  const paid = toCents(booking.price);
+  const refund = Math.min(Math.max(refundCents, 0), paid, balance);
+  const refundShare = paid > 0 ? refund / paid : 0;
+  const promotionReturned = Math.min(
+    Math.round(getPromotionCents(booking) * refundShare),
+    balance - refund
+  );
+  const released = balance - refund - promotionReturned;
+
+  if (refund > 0) {
+    const [charge] = await tx
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.bookingId, booking.id),
+          eq(payments.type, "charge"),
+          eq(payments.status, "succeeded")
+        )
+      )
+      .limit(1);
+
+    const refundPayment = await queueRefund(tx, charge, refund);
+    await postLedgerTransaction(
+      tx,
+      booking.id,
+      move("refund", "escrow", "provider_cash", refund),
+      { paymentId: refundPayment.id }
+    );
+  }
+
+  if (promotionReturned > 0) {
+    await postLedgerTransaction(
+      tx,
+      booking.id,
+      move("promotion", "escrow", "promotions", promotionReturned)
+    );
+  }
+  await releasePromotions(tx, booking, refundShare);
+
+  if (released > 0) {
+    const { travelerCents, feeCents, taxCents } = splitEscrowAmount(booking, released);
+    await postLedgerTransaction(tx, booking.id, [
+      ...move("release", "escrow", "traveler_payable", travelerCents),
+      ...move("fee", "escrow", "platform_revenue", feeCents),
+      ...move("tax", "escrow", "tax_payable", taxCents),
+    ]);
+  }
+
+  const [settled] = await tx
+    .update(bookings)
+    .set({ escrowStatus: refund > 0 ? "refunded" : "released", updatedAt: new Date() })
+    .where(eq(bookings.id, booking.id))
+    .returning();
+
+  return settled;
+}
+
+// Refunds still owed to the sender: queued, or rejected fewer times than the limit
+function refundOutstanding() {
+  return and(
+    eq(payments.type, "refund"),
+    or(
+      eq(payments.status, "pending"),
+      and(eq(payments.status, "failed"), lt(payments.attemptCount, REFUND_MAX_ATTEMPTS))
+    )
+  );
+}
+
+/**
+ * Send the refunds a booking still owes to the provider, with the refund ID
+ * as idempotency key so a retry never refunds twice. Called once the
+ * transaction that queued them has committed, and again by the
+ * reconciliation job. After an error whose outcome is unknown the refund
+ * stays "pending"; one the provider rejects is "failed" and retried until
+ * REFUND_MAX_ATTEMPTS, then listed by getFailedRefunds for follow-up.
+ */
+export async function processPendingRefunds(bookingId: string): Promise<void> {
+  const provider = getPaymentProvider();
+  const outstanding = await db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.bookingId, bookingId), refundOutstanding()));
+
+  for (const refund of outstanding) {
+    const [charge] = await db.select().from(payments).where(eq(payments.id, refund.chargeId!));
+    try {
+      const result = await provider.refund({
+        chargeReference: charge.providerReference!,
+        amount: refund.amount,
+        currency: refund.currency,
+        idempotencyKey: refund.id,
+      });
+      await db
+        .update(payments)
+        .set({ status: "succeeded", providerReference: result.reference, failureReason: null, updatedAt: new Date() })
+        .where(eq(payments.id, refund.id));
+    } catch (error: any) {
+      if (!(error instanceof PaymentProviderError)) {
+        console.error(`[Payments] Outcome of refund ${refund.id} of booking ${bookingId} unknown:`, error);
+        continue;
+      }
+
+      const [failed] = await db
+        .update(payments)
+        .set({
+          status: "failed",
+          failureReason: error.message,
+          attemptCount: sql`${payments.attemptCount} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, refund.id))
+        .returning();
+
+      if (failed.attemptCount >= REFUND_MAX_ATTEMPTS) {
+        console.error(
+          `[Payments] Refund ${refund.id} of booking ${bookingId} rejected ${failed.attemptCount} times, needs manual follow-up:`,
+          error
+        );
+      } else {
+        console.warn(`[Payments] Refund ${refund.id} of booking ${bookingId} rejected, will be retried:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Refunds the provider kept rejecting: the ledger and the booking count them
+ * as paid back, but the sender has not received the money
+ */
+export async function getFailedRefunds(): Promise<Payment[]> {
+  return await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        eq(payments.type, "refund"),
+        eq(payments.status, "failed"),
+        gte(payments.attemptCount, REFUND_MAX_ATTEMPTS)
+      )
+    )
+    .orderBy(desc(payments.updatedAt));
+}
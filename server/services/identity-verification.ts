@@ -0,0 +1,193 @@
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import { storage } from "../storage";
+import { ObjectStorageService, ObjectNotFoundError, ObjectOwnershipError } from "../objectStorage";
+import { ObjectAccessGroupType, ObjectPermission } from "../objectAcl";
+import { validateUploadedFile } from "../fileValidator";
+import {
+  identityVerifications,
+  users,
+  type IdentityVerification,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { createNotification } from "./notifications";
+
+export class VerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "VerificationError";
+    Object.setPrototypeOf(this, VerificationError.prototype);
+  }
+}
+
+export interface UploadedFile {
+  url: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+}
+
+/**
+ * Check whether a user can review identity verification submissions (admins)
+ */
+export async function isVerificationReviewer(userId: string): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  return user?.role === "admin";
+}
+
+/**
+ * Validate an uploaded identity file and restrict it to its owner and the
+ * reviewers. Files another user uploaded are refused.
+ */
+async function secureIdentityFile(
+  file: UploadedFile,
+  userId: string,
+  verificationId: string
+): Promise<string> {
+  const validation = await validateUploadedFile({
+    fileUrl: file.url,
+    fileName: file.fileName,
+    fileType: file.fileType,
+    fileSize: file.fileSize,
+  });
+
+  if (!validation.valid) {
+    throw new VerificationError(validation.error || "Fichier invalide");
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  try {
+    return await objectStorageService.trySetObjectEntityAclPolicy(file.url, {
+      owner: userId,
+      visibility: "private",
+      aclRules: [
+        {
+          group: {
+            type: ObjectAccessGroupType.VERIFICATION_REVIEWER,
+            id: verificationId,
+          },
+          permission: ObjectPermission.READ,
+        },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ObjectOwnershipError) {
+      throw new VerificationError("Ce fichier ne vous appartient pas", 403);
+    }
+    if (error instanceof ObjectNotFoundError) {
+      throw new VerificationError("Fichier introuvable", 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Submit an ID document and a selfie for review
+ */
+export async function submitVerification(params: {
+  userId: string;
+  documentType: IdentityVerification["documentType"];
+  document: UploadedFile;
+  selfie: UploadedFile;
+}): Promise<IdentityVerification> {
+  const { userId, documentType, document, selfie } = params;
+
+  const user = await storage.getUser(userId);
+  if (user?.isVerified) {
+    throw new VerificationError("Votre identité est déjà vérifiée", 409);
+  }
+
+  const latest = await storage.getLatestUserVerification(userId);
+  if (latest?.status === "pending") {
+    throw new VerificationError("Une demande de vérification est déjà en cours d'examen", 409);
+  }
+
+  // The ID is needed up front to scope the files' ACL to this submission
+  const verificationId = randomUUID();
+  const documentPath = await secureIdentityFile(document, userId, verificationId);
+  const selfiePath = await secureIdentityFile(selfie, userId, verificationId);
+
+  const [verification] = await db
+    .insert(identityVerifications)
+    .values({
+      id: verificationId,
+      userId,
+      documentType,
+      documentPath,
+      selfiePath,
+    })
+    .returning();
+
+  return verification;
+}
+
+/**
+ * Approve or reject a pending submission. Approval marks the user as verified.
+ */
+export async function reviewVerification(params: {
+  verificationId: string;
+  reviewerId: string;
+  decision: "approved" | "rejected";
+  rejectionReason?: string | null;
+}): Promise<IdentityVerification> {
+  const { verificationId, reviewerId, decision, rejectionReason } = params;
+
+  if (decision === "rejected" && !rejectionReason) {
+    throw new VerificationError("Un motif de refus est requis");
+  }
+
+  const verification = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(identityVerifications)
+      .where(eq(identityVerifications.id, verificationId))
+      .for("update");
+
+    if (!current) {
+      throw new VerificationError("Verification not found", 404);
+    }
+
+    if (current.status !== "pending") {
+      throw new VerificationError("Cette demande a déjà été traitée", 409);
+    }
+
+    const [updated] = await tx
+      .update(identityVerifications)
+      .set({
+        status: decision,
+        rejectionReason: decision === "rejected" ? rejectionReason : null,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(identityVerifications.id, verificationId))
+      .returning();
+
+    if (decision === "approved") {
+      await tx
+        .update(users)
+        .set({ isVerified: true, updatedAt: new Date() })
+        .where(eq(users.id, current.userId));
+    }
+
+    return updated;
+  });
+
+  await createNotification({
+    userId: verification.userId,
+    type: "status_update",
+    title: decision === "approved" ? "Identité vérifiée" : "Vérification refusée",
+    message:
+      decision === "approved"
+        ? "Votre profil affiche désormais le badge vérifié"
+        : `Motif : ${rejectionReason}. Vous pouvez soumettre une nouvelle demande.`,
+    relatedId: verification.id,
+  });
+
+  console.log(`[Verification] ${decision} verification ${verification.id} by ${reviewerId}`);
+
+  return verification;
+}
@@ -0,0 +1,217 @@
+import { db } from "../db";
+import {
+  messages,
+  messageAttachments,
+  messageEvents,
+  type Message,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { filterContent, shouldBlockContent } from "../contentFilter";
+import { sendToUser } from "./realtime";
+import { discardDeletedAttachmentFiles } from "./message-retention";
+
+/**
+ * How long after sending a message its sender can still edit it.
+ * Configurable via MESSAGE_EDIT_WINDOW_MINUTES (defaults to 15 minutes).
+ */
+export const MESSAGE_EDIT_WINDOW_MINUTES = parseInt(
+  process.env.MESSAGE_EDIT_WINDOW_MINUTES || "15",
+  10
+);
+
+// How long the sender can delete a message for both participants
+const DELETE_FOR_EVERYONE_WINDOW_HOURS = 24;
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export type MessageDeleteScope = "me" | "everyone";
+
+export class MessageEditError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "MessageEditError";
+    Object.setPrototypeOf(this, MessageEditError.prototype);
+  }
+}
+
+function isWithin(message: Message, milliseconds: number): boolean {
+  const sentAt = message.createdAt ? new Date(message.createdAt).getTime() : 0;
+  return Date.now() - sentAt <= milliseconds;
+}
+
+// Both participants see the change on every device
+function broadcastMessageUpdate(message: Message): void {
+  for (const userId of [message.senderId, message.receiverId]) {
+    sendToUser(userId, { type: "message_updated", message });
+  }
+}
+
+/**
+ * Replace the content of a message. The previous version is kept in the
+ * "edited" event's metadata.
+ */
+export async function editMessage(params: {
+  messageId: string;
+  userId: string;
+  content: string;
+}): Promise<Message> {
+  const { messageId, userId } = params;
+  const content = params.content.trim();
+
+  if (!content) {
+    throw new MessageEditError("Le message ne peut pas être vide");
+  }
+  if (content.length > MAX_MESSAGE_LENGTH) {
+    throw new MessageEditError("Message trop long");
+  }
+  if (shouldBlockContent(content)) {
+    throw new MessageEditError("Message blocked due to inappropriate content");
+  }
+
+  const filterResult = filterContent(content);
+  if (!filterResult.isClean) {
+    console.warn(
+      `Edit of message ${messageId} by ${userId} flagged with severity ${filterResult.severity}:`,
+      filterResult.flaggedWords
+    );
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId))
+      .for("update");
+
+    if (!current) {
+      throw new MessageEditError("Message not found", 404);
+    }
+    if (current.senderId !== userId) {
+      throw new MessageEditError("Unauthorized", 403);
+    }
+    if (current.deletedAt) {
+      throw new MessageEditError("Ce message a été supprimé", 409);
+    }
+    if (!isWithin(current, MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000)) {
+      throw new MessageEditError(
+        `Les messages ne peuvent être modifiés que pendant ${MESSAGE_EDIT_WINDOW_MINUTES} minutes`,
+        409
+      );
+    }
+    if (current.content === content) {
+      return current;
+    }
+
+    const [edited] = await tx
+      .update(messages)
+      .set({ content, editedAt: new Date() })
+      .where(eq(messages.id, messageId))
+      .returning();
+
+    await tx.insert(messageEvents).values({
+      messageId,
+      userId,
+      eventType: "edited",
+      metadata: {
+        previousContent: current.content,
+        previousEditedAt: current.editedAt,
+        flaggedWords: filterResult.flaggedWords,
+      },
+    });
+
+    return edited;
+  });
+
+  broadcastMessageUpdate(updated);
+
+  return updated;
+}
+
+/**
+ * Delete a message for the current user only, or (sender only) for both
+ * participants. Deleting for everyone clears the content and attachments,
+ * whose files are deleted once it has committed; the "deleted" event keeps
+ * the original content.
+ */
+export async function deleteMessage(params: {
+  messageId: string;
+  userId: string;
+  scope: MessageDeleteScope;
+}): Promise<Message> {
+  const { messageId, userId, scope } = params;
+
+  const { deleted, attachments } = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId))
+      .for("update");
+
+    if (!current) {
+      throw new MessageEditError("Message not found", 404);
+    }
+
+    const isSender = current.senderId === userId;
+    if (!isSender && current.receiverId !== userId) {
+      throw new MessageEditError("Unauthorized", 403);
+    }
+
+    if (scope === "me") {
+      const [hidden] = await tx
+        .update(messages)
+        .set(isSender ? { deletedForSenderAt: new Date() } : { deletedForReceiverAt: new Date() })
+        .where(eq(messages.id, messageId))
+        .returning();
+      return { deleted: hidden, attachments: [] };
+    }
+
+    if (!isSender) {
+      throw new MessageEditError("Seul l'expéditeur peut supprimer ce message pour tous", 403);
+    }
+    if (current.deletedAt) {
+      return { deleted: current, attachments: [] };
+    }
+    if (!isWithin(current, DELETE_FOR_EVERYONE_WINDOW_HOURS * 60 * 60 * 1000)) {
+      throw new MessageEditError(
+        `Les messages ne peuvent être supprimés pour tous que pendant ${DELETE_FOR_EVERYONE_WINDOW_HOURS} heures`,
+        409
+      );
+    }
+
+    const attachments = await tx
+      .delete(messageAttachments)
+      .where(eq(messageAttachments.messageId, messageId))
+      .returning();
+
+    const [cleared] = await tx
+      .update(messages)
+      .set({ content: "", deletedAt: new Date() })
+      .where(eq(messages.id, messageId))
+      .returning();
+
+    await tx.insert(messageEvents).values({
+      messageId,
+      userId,
+      eventType: "deleted",
+      metadata: {
+        previousContent: current.content,
+        attachments: attachments.map((attachment) => attachment.fileUrl),
+      },
+    });
+
+    return { deleted: cleared, attachments };
+  });
+
+  if (scope === "me") {
+    // Only the user's other devices need to drop it
+    sendToUser(userId, { type: "message_hidden", messageId });
+  } else {
+    broadcastMessageUpdate(deleted);
+    await discardDeletedAttachmentFiles(deleted, attachments);
+  }
+
+  return deleted;
+}
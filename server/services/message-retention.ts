@@ -0,0 +1,231 @@
+import { db } from "../db";
+import {
+  bookings,
+  messages,
+  messageAttachments,
+  messageReports,
+  userPreferences,
+  type Message,
+  type MessageReport,
+} from "@shared/schema";
+import { and, eq, inArray, isNotNull, isNull, lte, notInArray, or } from "drizzle-orm";
+import { ObjectStorageService } from "../objectStorage";
+
+// Used when a participant never saved their preferences (the column default)
+const DEFAULT_RETENTION_DAYS = 90;
+
+const PURGE_BATCH_SIZE = 200;
+
+// Reports that have not been closed yet keep their evidence
+const OPEN_REPORT_STATUSES: MessageReport["status"][] = ["pending", "reviewed"];
+
+/**
+ * When a new message between these participants should expire. A message is
+ * shared, so it is kept as long as either participant wants to keep it; a
+ * participant without a retention limit keeps it forever (null).
+ */
+export async function getMessageExpiry(
+  participantIds: string[],
+  sentAt: Date = new Date()
+): Promise<Date | null> {
+  const preferences = await db
+    .select({
+      userId: userPreferences.userId,
+      retentionDays: userPreferences.messageRetentionDays,
+    })
+    .from(userPreferences)
+    .where(inArray(userPreferences.userId, participantIds));
+
+  let retentionDays = 0;
+  for (const participantId of participantIds) {
+    const preference = preferences.find((p) => p.userId === participantId);
+    const days = preference ? preference.retentionDays : DEFAULT_RETENTION_DAYS;
+    if (!days || days <= 0) {
+      return null;
+    }
+    retentionDays = Math.max(retentionDays, days);
+  }
+
+  const expiresAt = new Date(sentAt);
+  expiresAt.setDate(expiresAt.getDate() + retentionDays);
+  return expiresAt;
+}
+
+/**
+ * Legal hold: messages under an open report, and every message of a booking
+ * that is on hold, was flagged by moderation or has an open report, are kept
+ * past their expiry.
+ */
+function notOnLegalHold() {
+  const reportedMessageIds = db
+    .select({ id: messageReports.messageId })
+    .from(messageReports)
+    .where(inArray(messageReports.status, OPEN_REPORT_STATUSES));
+
+  const reportedBookingIds = db
+    .select({ id: messages.bookingId })
+    .from(messageReports)
+    .innerJoin(messages, eq(messages.id, messageReports.messageId))
+    .where(
+      and(
+        inArray(messageReports.status, OPEN_REPORT_STATUSES),
+        isNotNull(messages.bookingId)
+      )
+    );
+
+  const heldBookingIds = db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(
+      or(
+        eq(bookings.legalHold, true),
+        isNotNull(bookings.moderationFlaggedAt),
+        inArray(bookings.id, reportedBookingIds)
+      )
+    );
+
+  return and(
+    notInArray(messages.id, reportedMessageIds),
+    or(isNull(messages.bookingId), notInArray(messages.bookingId, heldBookingIds))
+  );
+}
+
+// Delete attachment files, returning the IDs of those actually gone
+async function deleteAttachmentFiles(
+  attachments: { id: string; fileUrl: string; thumbnailUrl: string | null }[]
+): Promise<string[]> {
+  const objectStorageService = new ObjectStorageService();
+  const deletedIds: string[] = [];
+
+  for (const attachment of attachments) {
+    try {
+      await objectStorageService.deleteObjectEntity(attachment.fileUrl);
+      if (attachment.thumbnailUrl) {
+        await objectStorageService.deleteObjectEntity(attachment.thumbnailUrl);
+      }
+      deletedIds.push(attachment.id);
+    } catch (error) {
+      // Left in place so the next run retries it
+      console.error(`[Retention] Failed to delete file of attachment ${attachment.id}:`, error);
+    }
+  }
+
+  return deletedIds;
+}
+
+/**
+ * Get rid of the files of attachments removed with a message deleted for
+ * everyone, once that deletion has committed. A message on legal hold keeps
+ * its files as evidence, readable by its sender only.
+ */
+export async function discardDeletedAttachmentFiles(
+  message: Message,
+  attachments: { id: string; fileUrl: string; thumbnailUrl: string | null }[]
+): Promise<void> {
+  if (attachments.length === 0) return;
+
+  const [releasable] = await db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(and(eq(messages.id, message.id), notOnLegalHold()));
+
+  if (releasable) {
+    await deleteAttachmentFiles(attachments);
+    return;
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  const senderOnly = { owner: message.senderId, visibility: "private" as const };
+  for (const attachment of attachments) {
+    try {
+      await objectStorageService.trySetObjectEntityAclPolicy(attachment.fileUrl, senderOnly);
+      if (attachment.thumbnailUrl) {
+        await objectStorageService.trySetObjectEntityAclPolicy(attachment.thumbnailUrl, senderOnly);
+      }
+    } catch (error) {
+      console.error(`[Retention] Failed to revoke access to attachment ${attachment.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Purge expired attachments (files included) and messages that are not on
+ * legal hold
+ */
+export async function purgeExpiredMessages(now: Date = new Date()): Promise<{
+  messages: number;
+  attachments: number;
+}> {
+  let purgedAttachments = 0;
+  let purgedMessages = 0;
+
+  // Attachments first, so no file outlives its row
+  while (true) {
+    const expired = await db
+      .select({
+        id: messageAttachments.id,
+        fileUrl: messageAttachments.fileUrl,
+        thumbnailUrl: messageAttachments.thumbnailUrl,
+      })
+      .from(messageAttachments)
+      .innerJoin(messages, eq(messages.id, messageAttachments.messageId))
+      .where(
+        and(
+          or(
+            lte(messageAttachments.expiresAt, now),
+            lte(messages.expiresAt, now)
+          ),
+          notOnLegalHold()
+        )
+      )
+      .limit(PURGE_BATCH_SIZE);
+
+    if (expired.length === 0) break;
+
+    const deletedIds = await deleteAttachmentFiles(expired);
+    if (deletedIds.length > 0) {
+      await db.delete(messageAttachments).where(inArray(messageAttachments.id, deletedIds));
+      purgedAttachments += deletedIds.length;
+    }
+
+    // Stop when this batch could not be cleared, to avoid looping on failures
+    if (deletedIds.length < expired.length || expired.length < PURGE_BATCH_SIZE) break;
+  }
+
+  while (true) {
+    // Messages still holding an attachment whose file could not be deleted wait for the next run
+    const deleted = await db
+      .delete(messages)
+      .where(
+        inArray(
+          messages.id,
+          db
+            .select({ id: messages.id })
+            .from(messages)
+            .where(
+              and(
+                lte(messages.expiresAt, now),
+                notOnLegalHold(),
+                notInArray(
+                  messages.id,
+                  db.select({ id: messageAttachments.messageId }).from(messageAttachments)
+                )
+              )
+            )
+            .limit(PURGE_BATCH_SIZE)
+        )
+      )
+      .returning({ id: messages.id });
+
+    purgedMessages += deleted.length;
+    if (deleted.length < PURGE_BATCH_SIZE) break;
+  }
+
+  if (purgedMessages > 0 || purgedAttachments > 0) {
+    console.log(
+      `[Retention] Purged ${purgedMessages} message(s) and ${purgedAttachments} attachment(s)`
+    );
+  }
+
+  return { messages: purgedMessages, attachments: purgedAttachments };
+}
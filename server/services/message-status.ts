@@ -0,0 +1,129 @@
+import { db } from "../db";
+import { messages, messageEvents, type Message } from "@shared/schema";
+import { and, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import { sendToUser } from "./realtime";
+
+// Statuses a message can still be marked delivered from
+const UNDELIVERED_STATUSES: Message["status"][] = ["sending", "sent"];
+
+// Tell each sender which of their messages changed status
+function notifySenders(
+  updated: Pick<Message, "id" | "senderId">[],
+  event: Record<string, unknown>
+): void {
+  const bySender = new Map<string, string[]>();
+  for (const message of updated) {
+    bySender.set(message.senderId, [...(bySender.get(message.senderId) || []), message.id]);
+  }
+
+  for (const [senderId, messageIds] of Array.from(bySender.entries())) {
+    sendToUser(senderId, { ...event, messageIds });
+  }
+}
+
+/**
+ * Mark messages received by a user as delivered: a single message when it
+ * reaches an online recipient, or everything received while they were offline.
+ */
+export async function markMessagesDelivered(
+  receiverId: string,
+  messageIds?: string[]
+): Promise<Message[]> {
+  const deliveredAt = new Date();
+
+  const updated = await db.transaction(async (tx) => {
+    const rows = await tx
+      .update(messages)
+      .set({ status: "delivered", deliveredAt })
+      .where(
+        and(
+          eq(messages.receiverId, receiverId),
+          inArray(messages.status, UNDELIVERED_STATUSES),
+          messageIds ? inArray(messages.id, messageIds) : undefined
+        )
+      )
+      .returning();
+
+    if (rows.length > 0) {
+      await tx.insert(messageEvents).values(
+        rows.map((message) => ({
+          messageId: message.id,
+          userId: receiverId,
+          eventType: "delivered" as const,
+        }))
+      );
+    }
+
+    return rows;
+  });
+
+  notifySenders(updated, {
+    type: "message_delivered",
+    deliveredAt: deliveredAt.toISOString(),
+  });
+
+  return updated;
+}
+
+/**
+ * Mark the messages a user received from one sender in a thread as seen,
+ * optionally only up to a given message
+ */
+export async function markMessagesAsRead(
+  readerId: string,
+  senderId: string,
+  bookingId: string | null,
+  upToMessageId?: string
+): Promise<Message[]> {
+  const readAt = new Date();
+
+  const updated = await db.transaction(async (tx) => {
+    let upTo: Date | null = null;
+    if (upToMessageId) {
+      const [lastRead] = await tx
+        .select({ createdAt: messages.createdAt })
+        .from(messages)
+        .where(eq(messages.id, upToMessageId));
+      upTo = lastRead?.createdAt ?? null;
+    }
+
+    const rows = await tx
+      .update(messages)
+      .set({
+        isRead: true,
+        readAt,
+        status: "seen",
+        deliveredAt: sql`COALESCE(${messages.deliveredAt}, ${readAt.toISOString()})`,
+      })
+      .where(
+        and(
+          eq(messages.receiverId, readerId),
+          eq(messages.senderId, senderId),
+          bookingId ? eq(messages.bookingId, bookingId) : isNull(messages.bookingId),
+          eq(messages.isRead, false),
+          upTo ? lte(messages.createdAt, upTo) : undefined
+        )
+      )
+      .returning();
+
+    if (rows.length > 0) {
+      await tx.insert(messageEvents).values(
+        rows.map((message) => ({
+          messageId: message.id,
+          userId: readerId,
+          eventType: "read" as const,
+        }))
+      );
+    }
+
+    return rows;
+  });
+
+  notifySenders(updated, {
+    type: "message_read",
+    readBy: readerId,
+    readAt: readAt.toISOString(),
+  });
+
+  return updated;
+}
@@ -0,0 +1,230 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  bookings,
+  messageReports,
+  moderationActions,
+  trips,
+  users,
+  type Booking,
+  type MessageReport,
+  type ModerationAction,
+  type User,
+} from "@shared/schema";
+import { and, eq, inArray, or } from "drizzle-orm";
+import { createNotification } from "./notifications";
+import { disconnectUser } from "./realtime";
+
+export class ModerationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "ModerationError";
+    Object.setPrototypeOf(this, ModerationError.prototype);
+  }
+}
+
+// Bookings still in progress when a participant gets restricted
+const OPEN_BOOKING_STATUSES: Booking["status"][] = [
+  "pending",
+  "confirmed",
+  "picked_up",
+  "in_transit",
+  "arrived",
+];
+
+export interface AccountRestriction {
+  status: "suspended" | "banned";
+  until: Date | null;
+  reason: string | null;
+}
+
+/**
+ * The restriction currently applying to a user, if any.
+ * Suspensions lapse on their own once suspendedUntil has passed.
+ */
+export function getAccountRestriction(
+  user: User,
+  now: Date = new Date()
+): AccountRestriction | null {
+  if (user.accountStatus === "banned") {
+    return { status: "banned", until: null, reason: user.restrictionReason };
+  }
+
+  if (
+    user.accountStatus === "suspended" &&
+    user.suspendedUntil &&
+    user.suspendedUntil > now
+  ) {
+    return {
+      status: "suspended",
+      until: user.suspendedUntil,
+      reason: user.restrictionReason,
+    };
+  }
+
+  return null;
+}
+
+const ACTION_NOTIFICATIONS: Record<ModerationAction["action"], string> = {
+  warning: "Avertissement",
+  suspension: "Compte suspendu",
+  ban: "Compte banni",
+};
+
+/**
+ * Close a report as resolved (action taken) or dismissed (no violation)
+ */
+export async function resolveReport(params: {
+  reportId: string;
+  reviewerId: string;
+  status: "resolved" | "dismissed";
+  note?: string | null;
+}): Promise<MessageReport> {
+  const { reportId, reviewerId, status, note } = params;
+
+  return await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(messageReports)
+      .where(eq(messageReports.id, reportId))
+      .for("update");
+
+    if (!current) {
+      throw new ModerationError("Report not found", 404);
+    }
+
+    if (current.status === "resolved" || current.status === "dismissed") {
+      throw new ModerationError("Ce signalement a déjà été traité", 409);
+    }
+
+    const [updated] = await tx
+      .update(messageReports)
+      .set({
+        status,
+        resolutionNote: note || null,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+      })
+      .where(eq(messageReports.id, reportId))
+      .returning();
+
+    console.log(`[Moderation] Report ${reportId} ${status} by ${reviewerId}`);
+
+    return updated;
+  });
+}
+
+/**
+ * Warn, suspend or ban a user. Suspensions end after durationDays.
+ */
+export async function takeModerationAction(params: {
+  userId: string;
+  actorId: string;
+  action: ModerationAction["action"];
+  reason: string;
+  reportId?: string | null;
+  durationDays?: number | null;
+}): Promise<ModerationAction> {
+  const { userId, actorId, action, reason, reportId, durationDays } = params;
+
+  if (userId === actorId) {
+    throw new ModerationError("Vous ne pouvez pas vous sanctionner vous-même");
+  }
+
+  const target = await storage.getUser(userId);
+  if (!target) {
+    throw new ModerationError("User not found", 404);
+  }
+
+  if (target.role === "admin") {
+    throw new ModerationError("Impossible de sanctionner un administrateur", 403);
+  }
+
+  let expiresAt: Date | null = null;
+  if (action === "suspension") {
+    if (!durationDays || durationDays < 1) {
+      throw new ModerationError("Une durée de suspension est requise");
+    }
+    expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + durationDays);
+  }
+
+  const moderationAction = await db.transaction(async (tx) => {
+    const [inserted] = await tx
+      .insert(moderationActions)
+      .values({
+        userId,
+        actorId,
+        action,
+        reason,
+        reportId: reportId || null,
+        expiresAt,
+      })
+      .returning();
+
+    if (action === "warning") {
+      return inserted;
+    }
+
+    await tx
+      .update(users)
+      .set({
+        accountStatus: action === "ban" ? "banned" : "suspended",
+        suspendedUntil: expiresAt,
+        restrictionReason: reason,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    // Flag the bookings the user is part of so they can be followed up
+    const flagged = await tx
+      .update(bookings)
+      .set({ moderationFlaggedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          inArray(bookings.status, OPEN_BOOKING_STATUSES),
+          or(
+            eq(bookings.senderId, userId),
+            inArray(
+              bookings.tripId,
+              tx.select({ id: trips.id }).from(trips).where(eq(trips.travelerId, userId))
+            )
+          )
+        )
+      )
+      .returning({ id: bookings.id });
+
+    if (flagged.length > 0) {
+      console.log(`[Moderation] Flagged ${flagged.length} open booking(s) of user ${userId}`);
+    }
+
+    return inserted;
+  });
+
+  await createNotification({
+    userId,
+    type: "status_update",
+    title: ACTION_NOTIFICATIONS[action],
+    message: expiresAt
+      ? `Motif : ${reason}. Jusqu'au ${expiresAt.toLocaleDateString("fr-FR")}.`
+      : `Motif : ${reason}`,
+    relatedId: moderationAction.id,
+  });
+
+  // Open sockets were authorized before the restriction; close them everywhere
+  if (action !== "warning") {
+    await disconnectUser(userId, {
+      type: "account_restricted",
+      status: action === "ban" ? "banned" : "suspended",
+      until: expiresAt,
+      reason,
+    });
+  }
+
+  console.log(`[Moderation] ${action} on user ${userId} by ${actorId}`);
+
+  return moderationAction;
+}
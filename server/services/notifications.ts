@@ -0,0 +1,25 @@
+import { storage } from "../storage";
+import type { InsertNotification, Notification } from "@shared/schema";
+import { sendToUser } from "./realtime";
+
+/**
+ * Push stored notifications live to every device their user has open.
+ * Notifications written in a transaction are pushed once it has committed,
+ * so a rolled back one is never shown.
+ */
+export async function pushNotifications(notifications: Notification[]): Promise<void> {
+  for (const notification of notifications) {
+    await sendToUser(notification.userId, { type: "notification", notification });
+  }
+}
+
+/**
+ * Store a notification and push it live
+ */
+export async function createNotification(
+  notificationData: InsertNotification
+): Promise<Notification> {
+  const notification = await storage.createNotification(notificationData);
+  await pushNotifications([notification]);
+  return notification;
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+
+/**
+ * Payment provider in use. Configurable via PAYMENT_PROVIDER; only the local
+ * fake provider ("fake") ships for now.
+ */
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || "fake";
+
+export const PAYMENT_CURRENCY = "EUR";
+
+// Payment method the fake provider always declines, to exercise failures
+export const FAKE_DECLINED_PAYMENT_METHOD = "pm_fake_declined";
+
+export interface ChargeRequest {
+  amount: string; // Decimal string, e.g. "12.50"
+  currency: string;
+  customerId: string;
+  description: string;
+  paymentMethodId?: string | null;
+  // The provider must not charge twice for the same key
+  idempotencyKey: string;
+}
+
+export interface RefundRequest {
+  chargeReference: string;
+  amount: string;
+  currency: string;
+  idempotencyKey: string;
+}
+
+export interface PaymentResult {
+  reference: string;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly declined: boolean = false
+  ) {
+    super(message);
+    this.name = "PaymentProviderError";
+    Object.setPrototypeOf(this, PaymentProviderError.prototype);
+  }
+}
+
+/**
+ * What the payments subsystem needs from a payment provider. Implementations
+ * throw a PaymentProviderError when the operation did not go through.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<PaymentResult>;
+  refund(request: RefundRequest): Promise<PaymentResult>;
+}
+
+/**
+ * In-memory provider for development and tests. Every charge succeeds except
+ * with FAKE_DECLINED_PAYMENT_METHOD; refunds cannot exceed what was charged.
+ * State is lost on restart.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  private charges = new Map<string, { amount: number; refunded: number }>();
+  private processed = new Map<string, PaymentResult>();
+
+  async charge(request: ChargeRequest): Promise<PaymentResult> {
+    const previous = this.processed.get(request.idempotencyKey);
+    if (previous) return previous;
+
+    if (request.paymentMethodId === FAKE_DECLINED_PAYMENT_METHOD) {
+      throw new PaymentProviderError("Paiement refusé par la banque", true);
+    }
+
+    const result = { reference: `fake_ch_${randomUUID()}` };
+    this.charges.set(result.reference, { amount: Number(request.amount), refunded: 0 });
+    this.processed.set(request.idempotencyKey, result);
+    return result;
+  }
+
+  async refund(request: RefundRequest): Promise<PaymentResult> {
+    const previous = this.processed.get(request.idempotencyKey);
+    if (previous) return previous;
+
+    // Charges made before a restart are unknown here and refunded as-is
+    const charge = this.charges.get(request.chargeReference);
+    const amount = Number(request.amount);
+    if (charge) {
+      if (charge.refunded + amount > charge.amount + 0.001) {
+        throw new PaymentProviderError("Refund exceeds the charged amount");
+      }
+      charge.refunded += amount;
+    }
+
+    const result = { reference: `fake_re_${randomUUID()}` };
+    this.processed.set(request.idempotencyKey, result);
+    return result;
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    switch (PAYMENT_PROVIDER) {
+      case "fake":
+        provider = new FakePaymentProvider();
+        break;
+      default:
+        throw new Error(`Unknown payment provider: ${PAYMENT_PROVIDER}`);
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto";
+
+/**
+ * Provider sending traveler payouts. Configurable via PAYOUT_PROVIDER; only
+ * the local stub ("stub") ships for now.
+ */
+export const PAYOUT_PROVIDER = process.env.PAYOUT_PROVIDER || "stub";
+
+export interface PayoutRequest {
+  travelerId: string;
+  amount: string; // Decimal string, e.g. "42.00"
+  currency: string;
+  // The provider must not pay twice for the same key
+  idempotencyKey: string;
+}
+
+export interface PayoutResult {
+  reference: string;
+}
+
+export class PayoutProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayoutProviderError";
+    Object.setPrototypeOf(this, PayoutProviderError.prototype);
+  }
+}
+
+/**
+ * What the wallet needs from a payout provider. Implementations throw a
+ * PayoutProviderError when the transfer did not go through.
+ */
+export interface PayoutProvider {
+  readonly name: string;
+  payout(request: PayoutRequest): Promise<PayoutResult>;
+}
+
+/**
+ * Local stub for development and tests: every payout succeeds at once
+ */
+export class StubPayoutProvider implements PayoutProvider {
+  readonly name = "stub";
+
+  private processed = new Map<string, PayoutResult>();
+
+  async payout(request: PayoutRequest): Promise<PayoutResult> {
+    const previous = this.processed.get(request.idempotencyKey);
+    if (previous) return previous;
+
+    const result = { reference: `stub_po_${randomUUID()}` };
+    this.processed.set(request.idempotencyKey, result);
+    return result;
+  }
+}
+
+let provider: PayoutProvider | null = null;
+
+export function getPayoutProvider(): PayoutProvider {
+  if (!provider) {
+    switch (PAYOUT_PROVIDER) {
+      case "stub":
+        provider = new StubPayoutProvider();
+        break;
+      default:
+        throw new Error(`Unknown payout provider: ${PAYOUT_PROVIDER}`);
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { Booking, Trip } from "@shared/schema";
+
+/**
+ * Service fee charged to the sender on top of the traveler's price, and the
+ * VAT applied to that fee. Configurable via SERVICE_FEE_PERCENT,
+ * SERVICE_FEE_FIXED and VAT_PERCENT (defaults: 10% + 1€, 20% VAT).
+ */
+export const SERVICE_FEE_PERCENT = parseFloat(process.env.SERVICE_FEE_PERCENT || "10");
+export const SERVICE_FEE_FIXED = parseFloat(process.env.SERVICE_FEE_FIXED || "1");
+export const VAT_PERCENT = parseFloat(process.env.VAT_PERCENT || "20");
+
+// Share kept by the platform on bookings created before the price breakdown
+const LEGACY_FEE_PERCENT = 10;
+
+/**
+ * Fee for a route and/or weight band, overriding the default fee. Read from
+ * PLATFORM_FEE_RULES as a JSON array; the first matching rule applies.
+ * Example: [{"destinationCity":"Dakar","percent":8,"fixed":2},{"minWeight":20,"percent":6,"fixed":0}]
+ */
+export interface FeeRule {
+  departureCity?: string;
+  destinationCity?: string;
+  minWeight?: number; // Inclusive
+  maxWeight?: number; // Exclusive
+  percent: number;
+  fixed: number;
+}
+
+export interface PriceBreakdown {
+  travelerEarnings: string;
+  serviceFee: string;
+  taxAmount: string;
+  total: string;
+  serviceFeePercent: number;
+  serviceFeeFixed: string;
+  vatPercent: number;
+}
+
+const feeRuleSchema: z.ZodType<FeeRule> = z.object({
+  departureCity: z.string().trim().min(1).optional(),
+  destinationCity: z.string().trim().min(1).optional(),
+  minWeight: z.number().nonnegative().optional(),
+  maxWeight: z.number().positive().optional(),
+  percent: z.number().min(0).max(100),
+  fixed: z.number().min(0),
+});
+
+// Rules that do not validate are dropped, so a typo cannot produce a negative or absurd fee
+function parseFeeRules(raw: string | undefined): FeeRule[] {
+  if (!raw) return [];
+
+  let rules: unknown;
+  try {
+    rules = JSON.parse(raw);
+    if (!Array.isArray(rules)) throw new Error("expected an array");
+  } catch (error) {
+    console.error("[Pricing] Ignoring invalid PLATFORM_FEE_RULES:", error);
+    return [];
+  }
+
+  return rules.flatMap((rule, index) => {
+    const parsed = feeRuleSchema.safeParse(rule);
+    if (!parsed.success) {
+      console.warn(
+        `[Pricing] Ignoring PLATFORM_FEE_RULES[${index}]:`,
+        parsed.error.issues.map((issue) => `${issue.path.join(".") || "rule"}: ${issue.message}`).join(", ")
+      );
+      return [];
+    }
+    return [parsed.data];
+  });
+}
+
+const FEE_RULES = parseFeeRules(process.env.PLATFORM_FEE_RULES);
+
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function sameCity(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function findFeeRule(trip: Trip, weight: number): Pick<FeeRule, "percent" | "fixed"> {
+  const rule = FEE_RULES.find(
+    (candidate) =>
+      (!candidate.departureCity || sameCity(candidate.departureCity, trip.departureCity)) &&
+      (!candidate.destinationCity || sameCity(candidate.destinationCity, trip.destinationCity)) &&
+      (candidate.minWeight === undefined || weight >= candidate.minWeight) &&
+      (candidate.maxWeight === undefined || weight < candidate.maxWeight)
+  );
+  return rule ?? { percent: SERVICE_FEE_PERCENT, fixed: SERVICE_FEE_FIXED };
+}
+
+/**
+ * What a sender pays to ship a parcel on a trip: the traveler's price
+ * (weight × price per kg), the platform's service fee and the VAT on it
+ */
+export function calculatePriceBreakdown(trip: Trip, weight: number): PriceBreakdown {
+  const { percent, fixed } = findFeeRule(trip, weight);
+
+  const travelerEarnings = toCents(weight * Number(trip.pricePerKg));
+  const serviceFee = Math.round((travelerEarnings * percent) / 100) + toCents(fixed);
+  const taxAmount = Math.round((serviceFee * VAT_PERCENT) / 100);
+
+  return {
+    travelerEarnings: formatCents(travelerEarnings),
+    serviceFee: formatCents(serviceFee),
+    taxAmount: formatCents(taxAmount),
+    total: formatCents(travelerEarnings + serviceFee + taxAmount),
+    serviceFeePercent: percent,
+    serviceFeeFixed: fixed.toFixed(2),
+    vatPercent: VAT_PERCENT,
+  };
+}
+
+/**
+ * Split an amount released from a booking's escrow between the traveler, the
+ * platform's fee and the VAT on it, in the same proportions as the booking's
+ * price breakdown (before any discount, which the platform funds). Bookings
+ * made before the breakdown existed keep the flat legacy fee.
+ */
+export function splitEscrowAmount(
+  booking: Pick<Booking, "price" | "serviceFee" | "taxAmount" | "discountAmount" | "creditAmount">,
+  amountCents: number
+): { travelerCents: number; feeCents: number; taxCents: number } {
+  const total =
+    toCents(booking.price) + toCents(booking.discountAmount ?? 0) + toCents(booking.creditAmount ?? 0);
+
+  if (booking.serviceFee === null || total === 0) {
+    const feeCents = Math.round((amountCents * LEGACY_FEE_PERCENT) / 100);
+    return { travelerCents: amountCents - feeCents, feeCents, taxCents: 0 };
+  }
+
+  const feeCents = Math.round((amountCents * toCents(booking.serviceFee)) / total);
+  const taxCents = Math.round((amountCents * toCents(booking.taxAmount ?? 0)) / total);
+  return { travelerCents: amountCents - feeCents - taxCents, feeCents, taxCents };
+}
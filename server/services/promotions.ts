@@ -0,0 +1,353 @@
+import { db } from "../db";
+import {
+  creditTransactions,
+  promoCodes,
+  promoRedemptions,
+  users,
+  type Booking,
+  type PromoCode,
+} from "@shared/schema";
+import { and, desc, eq, getTableColumns, sql } from "drizzle-orm";
+import type { DbTransaction } from "./booking-lifecycle";
+import { formatCents, toCents, type PriceBreakdown } from "./pricing";
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Smallest amount a sender pays once discounts and credits apply, so every
+ * booking still goes through a charge.
+ * Configurable via MINIMUM_BOOKING_CHARGE (defaults to 1€).
+ */
+export const MINIMUM_BOOKING_CHARGE = parseFloat(process.env.MINIMUM_BOOKING_CHARGE || "1");
+
+export class PromotionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "PromotionError";
+    Object.setPrototypeOf(this, PromotionError.prototype);
+  }
+}
+
+export interface BookingPromotionOptions {
+  promoCode?: string | null;
+  useCredits?: boolean;
+}
+
+export interface AppliedPromotions {
+  promoCode: PromoCode | null;
+  discountCents: number;
+  creditCents: number;
+  amountDueCents: number;
+}
+
+export interface BookingQuote extends PriceBreakdown {
+  promoCode: string | null;
+  promoCodeError: string | null; // Why the requested code was not applied
+  discountAmount: string;
+  creditAmount: string;
+  availableCredit: string;
+  amountDue: string; // What the sender is charged
+}
+
+export interface NewPromoCode {
+  code: string;
+  description?: string | null;
+  discountType: PromoCode["discountType"];
+  discountValue: number;
+  minOrderAmount?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  maxUses?: number | null;
+  perUserLimit: number;
+}
+
+export interface PromoCodeWithUsage extends PromoCode {
+  uses: number;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Referral credits a user has left to spend, in cents
+ */
+export async function getCreditBalance(
+  executor: typeof db | DbTransaction,
+  userId: string
+): Promise<number> {
+  const [row] = await executor
+    .select({ balance: sql<string>`coalesce(sum(${creditTransactions.amount}), 0)` })
+    .from(creditTransactions)
+    .where(eq(creditTransactions.userId, userId));
+
+  return Math.max(toCents(row.balance), 0);
+}
+
+async function countRedemptions(
+  executor: typeof db | DbTransaction,
+  promoCodeId: string,
+  userId?: string
+): Promise<number> {
+  const [row] = await executor
+    .select({ uses: sql<number>`count(*)::int` })
+    .from(promoRedemptions)
+    .where(
+      and(
+        eq(promoRedemptions.promoCodeId, promoCodeId),
+        userId ? eq(promoRedemptions.userId, userId) : undefined
+      )
+    );
+
+  return row.uses;
+}
+
+/**
+ * Look up a code and check it can be used by this sender on a booking of
+ * this total. When locked, concurrent bookings with the same code wait for
+ * each other so usage caps hold.
+ */
+async function findUsablePromoCode(
+  executor: typeof db | DbTransaction,
+  userId: string,
+  code: string,
+  totalCents: number,
+  lock: boolean
+): Promise<PromoCode> {
+  const query = executor
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.code, normalizePromoCode(code)));
+  const [promoCode] = lock ? await query.for("update") : await query;
+
+  if (!promoCode || !promoCode.isActive) {
+    throw new PromotionError("Ce code promo n'existe pas");
+  }
+
+  const now = new Date();
+  if (promoCode.startsAt && promoCode.startsAt > now) {
+    throw new PromotionError("Ce code promo n'est pas encore valable");
+  }
+  if (promoCode.endsAt && promoCode.endsAt <= now) {
+    throw new PromotionError("Ce code promo a expiré");
+  }
+  if (promoCode.minOrderAmount !== null && totalCents < toCents(promoCode.minOrderAmount)) {
+    throw new PromotionError(
+      `Ce code promo s'applique à partir de ${Number(promoCode.minOrderAmount).toFixed(2)}€ de commande`
+    );
+  }
+  if (promoCode.maxUses !== null && (await countRedemptions(executor, promoCode.id)) >= promoCode.maxUses) {
+    throw new PromotionError("Ce code promo a atteint son nombre maximum d'utilisations");
+  }
+  if ((await countRedemptions(executor, promoCode.id, userId)) >= promoCode.perUserLimit) {
+    throw new PromotionError("Vous avez déjà utilisé ce code promo");
+  }
+
+  return promoCode;
+}
+
+/**
+ * Work out the promo code discount, then the credits spent on what is left.
+ * Together they never bring the price below the minimum charge.
+ */
+async function resolvePromotions(
+  executor: typeof db | DbTransaction,
+  userId: string,
+  breakdown: PriceBreakdown,
+  options: BookingPromotionOptions,
+  lock: boolean
+): Promise<AppliedPromotions> {
+  const totalCents = toCents(breakdown.total);
+  const reducibleCents = Math.max(totalCents - toCents(MINIMUM_BOOKING_CHARGE), 0);
+
+  let promoCode: PromoCode | null = null;
+  let discountCents = 0;
+  if (options.promoCode?.trim()) {
+    promoCode = await findUsablePromoCode(executor, userId, options.promoCode, totalCents, lock);
+    const discount =
+      promoCode.discountType === "percent"
+        ? Math.round((totalCents * Number(promoCode.discountValue)) / 100)
+        : toCents(promoCode.discountValue);
+    discountCents = Math.min(discount, reducibleCents);
+  }
+
+  let creditCents = 0;
+  if (options.useCredits) {
+    if (lock) {
+      // Credits spent by concurrent bookings of the same sender are counted once
+      await executor.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+    }
+    const balance = await getCreditBalance(executor, userId);
+    creditCents = Math.min(balance, reducibleCents - discountCents);
+  }
+
+  return {
+    promoCode,
+    discountCents,
+    creditCents,
+    amountDueCents: totalCents - discountCents - creditCents,
+  };
+}
+
+/**
+ * Price of a booking for this sender with the promo code and credits they
+ * asked for. A code that cannot be used is reported rather than thrown, so
+ * the rest of the quote is still shown.
+ */
+export async function quoteBooking(
+  userId: string,
+  breakdown: PriceBreakdown,
+  options: BookingPromotionOptions
+): Promise<BookingQuote> {
+  let promoCodeError: string | null = null;
+  let applied: AppliedPromotions;
+  try {
+    applied = await resolvePromotions(db, userId, breakdown, options, false);
+  } catch (error) {
+    if (!(error instanceof PromotionError)) throw error;
+    promoCodeError = error.message;
+    applied = await resolvePromotions(db, userId, breakdown, { ...options, promoCode: null }, false);
+  }
+
+  return {
+    ...breakdown,
+    promoCode: applied.promoCode?.code ?? null,
+    promoCodeError,
+    discountAmount: formatCents(applied.discountCents),
+    creditAmount: formatCents(applied.creditCents),
+    availableCredit: formatCents(await getCreditBalance(db, userId)),
+    amountDue: formatCents(applied.amountDueCents),
+  };
+}
+
+/**
+ * Validate the sender's promo code and credits inside the booking
+ * transaction. Throws a PromotionError if the code cannot be used.
+ */
+export async function applyPromotions(
+  tx: DbTransaction,
+  userId: string,
+  breakdown: PriceBreakdown,
+  options: BookingPromotionOptions
+): Promise<AppliedPromotions> {
+  return resolvePromotions(tx, userId, breakdown, options, true);
+}
+
+/**
+ * Record the promo code use and the credits spent by a booking just created
+ */
+export async function recordPromotions(
+  tx: DbTransaction,
+  booking: Booking,
+  applied: AppliedPromotions
+): Promise<void> {
+  if (applied.promoCode && applied.discountCents > 0) {
+    await tx.insert(promoRedemptions).values({
+      promoCodeId: applied.promoCode.id,
+      userId: booking.senderId,
+      bookingId: booking.id,
+      discountAmount: formatCents(applied.discountCents),
+    });
+  }
+
+  if (applied.creditCents > 0) {
+    await tx.insert(creditTransactions).values({
+      userId: booking.senderId,
+      type: "booking",
+      amount: formatCents(-applied.creditCents),
+      bookingId: booking.id,
+    });
+  }
+}
+
+/**
+ * Give back what a closed booking took from promotions: the sender's credits,
+ * in the same share as their refund, and the promo code use when the booking
+ * was never paid or refunded in full.
+ */
+export async function releasePromotions(
+  tx: DbTransaction,
+  booking: Booking,
+  refundShare: number
+): Promise<void> {
+  const creditCents = Math.round(toCents(booking.creditAmount ?? 0) * refundShare);
+  if (creditCents > 0) {
+    await tx.insert(creditTransactions).values({
+      userId: booking.senderId,
+      type: "refund",
+      amount: formatCents(creditCents),
+      bookingId: booking.id,
+    });
+  }
+
+  if (refundShare >= 1) {
+    await tx.delete(promoRedemptions).where(eq(promoRedemptions.bookingId, booking.id));
+  }
+}
+
+/**
+ * All promo codes, newest first, with how many bookings used each one
+ */
+export async function listPromoCodes(): Promise<PromoCodeWithUsage[]> {
+  return db
+    .select({
+      ...getTableColumns(promoCodes),
+      uses: sql<number>`count(${promoRedemptions.id})::int`,
+    })
+    .from(promoCodes)
+    .leftJoin(promoRedemptions, eq(promoRedemptions.promoCodeId, promoCodes.id))
+    .groupBy(promoCodes.id)
+    .orderBy(desc(promoCodes.createdAt));
+}
+
+export async function createPromoCode(data: NewPromoCode, adminId: string): Promise<PromoCode> {
+  if (data.discountType === "percent" && data.discountValue > 100) {
+    throw new PromotionError("Une réduction en pourcentage ne peut pas dépasser 100%");
+  }
+  if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+    throw new PromotionError("La date de fin doit être après la date de début");
+  }
+
+  try {
+    const [promoCode] = await db
+      .insert(promoCodes)
+      .values({
+        code: normalizePromoCode(data.code),
+        description: data.description ?? null,
+        discountType: data.discountType,
+        discountValue: data.discountValue.toFixed(2),
+        minOrderAmount: data.minOrderAmount != null ? data.minOrderAmount.toFixed(2) : null,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        maxUses: data.maxUses ?? null,
+        perUserLimit: data.perUserLimit,
+        createdBy: adminId,
+      })
+      .returning();
+
+    console.log(`[Promotions] Promo code ${promoCode.code} created by ${adminId}`);
+    return promoCode;
+  } catch (error: any) {
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new PromotionError("Ce code promo existe déjà", 409);
+    }
+    throw error;
+  }
+}
+
+export async function setPromoCodeActive(id: string, isActive: boolean): Promise<PromoCode> {
+  const [promoCode] = await db
+    .update(promoCodes)
+    .set({ isActive, updatedAt: new Date() })
+    .where(eq(promoCodes.id, id))
+    .returning();
+
+  if (!promoCode) {
+    throw new PromotionError("Promo code not found", 404);
+  }
+  return promoCode;
+}
@@ -0,0 +1,178 @@
+import { EventEmitter } from "events";
+import { Client } from "@neondatabase/serverless";
+import { db, pool } from "../db";
+import { pubsubPayloads } from "@shared/schema";
+import { eq, lt } from "drizzle-orm";
+
+export type PubSubHandler = (payload: any) => void;
+
+/**
+ * Fan-out of events between server instances. Every subscriber of a channel,
+ * in this process or another one, receives each published payload.
+ */
+export interface PubSub {
+  publish(channel: string, payload: unknown): Promise<void>;
+  subscribe(channel: string, handler: PubSubHandler): Promise<void>;
+}
+
+/**
+ * Single-process implementation, for development and single-instance deployments
+ */
+export class InProcessPubSub implements PubSub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(channel: string, payload: unknown): Promise<void> {
+    // Deliver asynchronously, like the networked implementation
+    setImmediate(() => this.emitter.emit(channel, payload));
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    this.emitter.on(channel, handler);
+  }
+}
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY_MS = 5000;
+
+// Larger payloads are stored and only their key is notified. Every listening
+// instance loads them, so they are kept a while rather than deleted on read.
+const OVERFLOW_KEY = "$pubsubPayloadId";
+const OVERFLOW_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * Postgres LISTEN/NOTIFY implementation, for running several instances
+ * against the same database. Publishing goes through the shared pool; a
+ * dedicated connection listens and reconnects if it drops. Payloads too
+ * large for NOTIFY go through the pubsub_payloads table.
+ */
+export class PostgresPubSub implements PubSub {
+  private listener: Client | null = null;
+  private connecting: Promise<Client> | null = null;
+  private handlers = new Map<string, Set<PubSubHandler>>();
+
+  async publish(channel: string, payload: unknown): Promise<void> {
+    let message = JSON.stringify(payload);
+    if (Buffer.byteLength(message) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      const [stored] = await db
+        .insert(pubsubPayloads)
+        .values({ channel, payload })
+        .returning({ id: pubsubPayloads.id });
+      message = JSON.stringify({ [OVERFLOW_KEY]: stored.id });
+
+      db.delete(pubsubPayloads)
+        .where(lt(pubsubPayloads.createdAt, new Date(Date.now() - OVERFLOW_RETENTION_MS)))
+        .catch((error) => console.error("[PubSub] Failed to purge stored payloads:", error));
+    }
+    await pool.query("SELECT pg_notify($1, $2)", [channel, message]);
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    let channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) {
+      channelHandlers = new Set();
+      this.handlers.set(channel, channelHandlers);
+      const listener = await this.getListener();
+      await listener.query(`LISTEN "${channel}"`);
+    }
+    channelHandlers.add(handler);
+  }
+
+  private getListener(): Promise<Client> {
+    if (this.listener) return Promise.resolve(this.listener);
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connect(): Promise<Client> {
+    const listener = new Client({ connectionString: process.env.DATABASE_URL });
+
+    listener.on("notification", (notification) => {
+      const channelHandlers = this.handlers.get(notification.channel);
+      if (!channelHandlers || !notification.payload) return;
+
+      const dispatch = (payload: unknown) => {
+        for (const handler of Array.from(channelHandlers)) {
+          handler(payload);
+        }
+      };
+
+      try {
+        const payload = JSON.parse(notification.payload);
+        const storedId = payload?.[OVERFLOW_KEY];
+        if (typeof storedId !== "string") {
+          dispatch(payload);
+          return;
+        }
+
+        db.select({ payload: pubsubPayloads.payload })
+          .from(pubsubPayloads)
+          .where(eq(pubsubPayloads.id, storedId))
+          .then(([stored]) => {
+            if (stored) {
+              dispatch(stored.payload);
+            } else {
+              console.warn(`[PubSub] Stored payload ${storedId} on ${notification.channel} is gone`);
+            }
+          })
+          .catch((error) => {
+            console.error(`[PubSub] Failed to load stored payload ${storedId}:`, error);
+          });
+      } catch (error) {
+        console.error(`[PubSub] Invalid payload on ${notification.channel}:`, error);
+      }
+    });
+
+    listener.on("error", (error) => {
+      console.error("[PubSub] Listener connection error:", error);
+    });
+
+    listener.on("end", () => {
+      if (this.listener !== listener) return;
+      this.listener = null;
+      console.warn("[PubSub] Listener connection closed, reconnecting...");
+      setTimeout(() => this.resubscribe(), RECONNECT_DELAY_MS);
+    });
+
+    await listener.connect();
+    this.listener = listener;
+    return listener;
+  }
+
+  private async resubscribe(): Promise<void> {
+    try {
+      const listener = await this.getListener();
+      for (const channel of Array.from(this.handlers.keys())) {
+        await listener.query(`LISTEN "${channel}"`);
+      }
+      console.log("[PubSub] Listener reconnected");
+    } catch (error) {
+      console.error("[PubSub] Failed to reconnect listener:", error);
+      setTimeout(() => this.resubscribe(), RECONNECT_DELAY_MS);
+    }
+  }
+}
+
+/**
+ * Pick the implementation from REALTIME_PUBSUB ("postgres" or "memory",
+ * defaults to "memory"). Use "postgres" whenever more than one instance runs.
+ */
+export function createPubSub(): PubSub {
+  const driver = process.env.REALTIME_PUBSUB || "memory";
+
+  if (driver === "postgres") {
+    return new PostgresPubSub();
+  }
+  if (driver !== "memory") {
+    console.warn(`[PubSub] Unknown REALTIME_PUBSUB "${driver}", using in-process pub/sub`);
+  }
+  return new InProcessPubSub();
+}
@@ -0,0 +1,268 @@
+import { randomUUID } from "crypto";
+import { WebSocket, type WebSocketServer } from "ws";
+import { db } from "../db";
+import { userPresence, userStatus } from "@shared/schema";
+import { and, eq, gt, inArray, lt, ne } from "drizzle-orm";
+import { createPubSub } from "./pubsub";
+
+// How often sockets are pinged; a socket that missed the previous pong is dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Presence not refreshed for this long belongs to a server instance that died
+const PRESENCE_STALE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+// Identifies this server instance's presence rows
+const INSTANCE_ID = randomUUID();
+
+const REALTIME_CHANNEL = "realtime_events";
+
+// One open socket on this instance. A user has one per device or browser tab.
+export interface WSClient {
+  id: string;
+  ws: WebSocket;
+  userId: string;
+  isAlive: boolean;
+  typingTo?: string; // userId of the person they're typing to
+  typingTimeout?: NodeJS.Timeout;
+}
+
+// What goes over the pub/sub channel; without userId it goes to everyone
+interface RealtimeEnvelope {
+  userId?: string;
+  event: Record<string, unknown>;
+  excludeConnectionId?: string;
+  disconnect?: boolean; // Close the sockets once the event is sent
+}
+
+// Close code telling the client its account can no longer use the socket
+const ACCOUNT_RESTRICTED_CLOSE_CODE = 4003;
+
+const pubsub = createPubSub();
+
+// Sockets connected to this instance only
+const connections = new Map<string, Set<WSClient>>();
+
+function staleCutoff(): Date {
+  return new Date(Date.now() - PRESENCE_STALE_MS);
+}
+
+// Presence rows of instances still refreshing them
+function livePresence(userId: string, options: { excludeThisInstance?: boolean } = {}) {
+  return and(
+    eq(userPresence.userId, userId),
+    gt(userPresence.heartbeatAt, staleCutoff()),
+    options.excludeThisInstance ? ne(userPresence.instanceId, INSTANCE_ID) : undefined
+  );
+}
+
+/**
+ * Register a socket for a user. Returns whether the user just came online
+ * (had no socket open on any instance). Each instance keeps one presence row
+ * per user it has sockets for; the user status row is locked so two
+ * instances registering the same user at once agree on who came online.
+ */
+export async function addConnection(
+  userId: string,
+  ws: WebSocket
+): Promise<{ client: WSClient; cameOnline: boolean }> {
+  const client: WSClient = { id: randomUUID(), ws, userId, isAlive: true };
+  ws.on("pong", () => {
+    client.isAlive = true;
+  });
+
+  let userConnections = connections.get(userId);
+  if (!userConnections) {
+    userConnections = new Set();
+    connections.set(userId, userConnections);
+  }
+  userConnections.add(client);
+  if (userConnections.size > 1) {
+    return { client, cameOnline: false };
+  }
+
+  const cameOnline = await db.transaction(async (tx) => {
+    await tx
+      .insert(userStatus)
+      .values({ userId, isOnline: true, lastSeen: new Date() })
+      .onConflictDoUpdate({
+        target: userStatus.userId,
+        set: { isOnline: true, lastSeen: new Date(), updatedAt: new Date() },
+      });
+
+    const elsewhere = await tx
+      .select({ id: userPresence.id })
+      .from(userPresence)
+      .where(livePresence(userId, { excludeThisInstance: true }));
+
+    await tx
+      .insert(userPresence)
+      .values({ userId, instanceId: INSTANCE_ID })
+      .onConflictDoUpdate({
+        target: [userPresence.userId, userPresence.instanceId],
+        set: { heartbeatAt: new Date() },
+      });
+
+    return elsewhere.length === 0;
+  });
+
+  return { client, cameOnline };
+}
+
+/**
+ * Unregister a socket. Returns whether it was the user's last one.
+ */
+export async function removeConnection(client: WSClient): Promise<boolean> {
+  if (client.typingTimeout) {
+    clearTimeout(client.typingTimeout);
+  }
+
+  const userConnections = connections.get(client.userId);
+  if (!userConnections?.delete(client)) return false;
+  if (userConnections.size > 0) return false;
+  connections.delete(client.userId);
+
+  return await db.transaction(async (tx) => {
+    await tx
+      .update(userStatus)
+      .set({ lastSeen: new Date(), updatedAt: new Date() })
+      .where(eq(userStatus.userId, client.userId));
+
+    await tx
+      .delete(userPresence)
+      .where(and(eq(userPresence.userId, client.userId), eq(userPresence.instanceId, INSTANCE_ID)));
+
+    const elsewhere = await tx
+      .select({ id: userPresence.id })
+      .from(userPresence)
+      .where(livePresence(client.userId));
+
+    if (elsewhere.length > 0) return false;
+
+    await tx
+      .update(userStatus)
+      .set({ isOnline: false })
+      .where(eq(userStatus.userId, client.userId));
+    return true;
+  });
+}
+
+export async function isUserOnline(userId: string): Promise<boolean> {
+  const [presence] = await db
+    .select({ id: userPresence.id })
+    .from(userPresence)
+    .where(livePresence(userId))
+    .limit(1);
+  return !!presence;
+}
+
+export async function getOnlineUserIds(): Promise<string[]> {
+  const presences = await db
+    .selectDistinct({ userId: userPresence.userId })
+    .from(userPresence)
+    .where(gt(userPresence.heartbeatAt, staleCutoff()));
+  return presences.map((presence) => presence.userId);
+}
+
+// Deliver an event to the matching sockets connected to this instance
+function deliverLocally(envelope: RealtimeEnvelope): void {
+  const targets = envelope.userId
+    ? [connections.get(envelope.userId) ?? new Set<WSClient>()]
+    : Array.from(connections.values());
+
+  const payload = JSON.stringify(envelope.event);
+  for (const userConnections of targets) {
+    for (const client of Array.from(userConnections)) {
+      if (client.id !== envelope.excludeConnectionId && client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(payload);
+        if (envelope.disconnect) {
+          client.ws.close(ACCOUNT_RESTRICTED_CLOSE_CODE, "Account restricted");
+        }
+      }
+    }
+  }
+}
+
+async function publish(envelope: RealtimeEnvelope): Promise<void> {
+  try {
+    await pubsub.publish(REALTIME_CHANNEL, envelope);
+  } catch (error) {
+    console.error(`[Realtime] Failed to publish ${envelope.event.type} event:`, error);
+  }
+}
+
+/**
+ * Deliver an event to every open socket of a user, on any instance
+ */
+export async function sendToUser(
+  userId: string,
+  event: Record<string, unknown>,
+  options: { excludeConnectionId?: string } = {}
+): Promise<void> {
+  await publish({ userId, event, excludeConnectionId: options.excludeConnectionId });
+}
+
+/**
+ * Send a last event to every open socket of a user, on any instance, then
+ * close them. Their "close" handler unregisters them as usual.
+ */
+export async function disconnectUser(
+  userId: string,
+  event: Record<string, unknown>
+): Promise<void> {
+  await publish({ userId, event, disconnect: true });
+}
+
+/**
+ * Deliver an event to every connected socket, on any instance
+ */
+export async function broadcast(event: Record<string, unknown>): Promise<void> {
+  await publish({ event });
+}
+
+/**
+ * Subscribe this instance to realtime events, and periodically ping its
+ * sockets. Unresponsive ones are terminated, which fires their "close"
+ * handler; the users still connected get their presence refreshed, and
+ * presence left behind by dead instances is cleared.
+ */
+export async function startRealtime(wss: WebSocketServer): Promise<void> {
+  await pubsub.subscribe(REALTIME_CHANNEL, deliverLocally);
+
+  const interval = setInterval(async () => {
+    for (const userConnections of Array.from(connections.values())) {
+      for (const client of Array.from(userConnections)) {
+        if (!client.isAlive) {
+          console.log(`[Realtime] Dropping unresponsive socket of user ${client.userId}`);
+          client.ws.terminate();
+          continue;
+        }
+        client.isAlive = false;
+        client.ws.ping();
+      }
+    }
+
+    try {
+      await db.delete(userPresence).where(lt(userPresence.heartbeatAt, staleCutoff()));
+
+      const connectedUserIds = Array.from(connections.keys());
+      if (connectedUserIds.length === 0) return;
+
+      // Upserted, in case a slow heartbeat let the rows go stale and be cleared
+      await db
+        .insert(userPresence)
+        .values(connectedUserIds.map((userId) => ({ userId, instanceId: INSTANCE_ID })))
+        .onConflictDoUpdate({
+          target: [userPresence.userId, userPresence.instanceId],
+          set: { heartbeatAt: new Date() },
+        });
+      await db
+        .update(userStatus)
+        .set({ lastSeen: new Date() })
+        .where(inArray(userStatus.userId, connectedUserIds));
+    } catch (error) {
+      console.error("[Realtime] Failed to refresh presence:", error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(interval));
+}
@@ -0,0 +1,232 @@
+import { randomBytes } from "crypto";
+import { db } from "../db";
+import {
+  bookings,
+  creditTransactions,
+  notifications,
+  referrals,
+  trips,
+  users,
+  type Booking,
+  type CreditTransaction,
+  type Notification,
+  type Referral,
+} from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import type { DbTransaction } from "./booking-lifecycle";
+import { formatCents, toCents } from "./pricing";
+import { getCreditBalance } from "./promotions";
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Credits given to both the referrer and the referred user once the referred
+ * user's first booking is delivered.
+ * Configurable via REFERRAL_REWARD_AMOUNT (defaults to 5€).
+ */
+export const REFERRAL_REWARD_AMOUNT = parseFloat(process.env.REFERRAL_REWARD_AMOUNT || "5");
+
+// No 0/O or 1/I, so codes read out loud are not mistyped
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export class ReferralError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "ReferralError";
+    Object.setPrototypeOf(this, ReferralError.prototype);
+  }
+}
+
+export interface ReferralSummary {
+  code: string;
+  rewardAmount: string;
+  referred: boolean; // The user joined with someone's code
+  canClaim: boolean;
+  referrals: {
+    id: string;
+    firstName: string | null;
+    status: Referral["status"];
+    createdAt: Date | null;
+    rewardedAt: Date | null;
+  }[];
+  creditBalance: string;
+  credits: CreditTransaction[];
+}
+
+function generateReferralCode(): string {
+  return Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+/**
+ * The user's referral code, created the first time it is asked for
+ */
+async function getReferralCode(userId: string): Promise<string> {
+  const [user] = await db
+    .select({ referralCode: users.referralCode })
+    .from(users)
+    .where(eq(users.id, userId));
+  if (!user) {
+    throw new ReferralError("User not found", 404);
+  }
+  if (user.referralCode) return user.referralCode;
+
+  const [updated] = await db
+    .update(users)
+    .set({ referralCode: generateReferralCode(), updatedAt: new Date() })
+    .where(and(eq(users.id, userId), isNull(users.referralCode)))
+    .returning({ referralCode: users.referralCode });
+  if (updated?.referralCode) return updated.referralCode;
+
+  // A concurrent request created it first
+  return getReferralCode(userId);
+}
+
+async function hasBookings(userId: string): Promise<boolean> {
+  const [booking] = await db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(eq(bookings.senderId, userId))
+    .limit(1);
+  return !!booking;
+}
+
+/**
+ * A user's referral code, the friends who joined with it, and their credits
+ */
+export async function getReferralSummary(userId: string): Promise<ReferralSummary> {
+  const code = await getReferralCode(userId);
+
+  const made = await db
+    .select({
+      id: referrals.id,
+      firstName: users.firstName,
+      status: referrals.status,
+      createdAt: referrals.createdAt,
+      rewardedAt: referrals.rewardedAt,
+    })
+    .from(referrals)
+    .innerJoin(users, eq(users.id, referrals.referredUserId))
+    .where(eq(referrals.referrerId, userId))
+    .orderBy(desc(referrals.createdAt));
+
+  const [referredBy] = await db
+    .select({ id: referrals.id })
+    .from(referrals)
+    .where(eq(referrals.referredUserId, userId));
+
+  const credits = await db
+    .select()
+    .from(creditTransactions)
+    .where(eq(creditTransactions.userId, userId))
+    .orderBy(desc(creditTransactions.createdAt))
+    .limit(50);
+
+  return {
+    code,
+    rewardAmount: REFERRAL_REWARD_AMOUNT.toFixed(2),
+    referred: !!referredBy,
+    canClaim: !referredBy && !(await hasBookings(userId)),
+    referrals: made,
+    creditBalance: formatCents(await getCreditBalance(db, userId)),
+    credits,
+  };
+}
+
+/**
+ * Record that a user joined with someone else's referral code. Only possible
+ * once, and before the user's first booking.
+ */
+export async function claimReferral(userId: string, code: string): Promise<Referral> {
+  const [referrer] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.referralCode, code.trim().toUpperCase()));
+
+  if (!referrer) {
+    throw new ReferralError("Ce code de parrainage n'existe pas", 404);
+  }
+  if (referrer.id === userId) {
+    throw new ReferralError("Vous ne pouvez pas utiliser votre propre code de parrainage");
+  }
+  if (await hasBookings(userId)) {
+    throw new ReferralError("Le code de parrainage doit être saisi avant votre première réservation", 409);
+  }
+
+  try {
+    const [referral] = await db
+      .insert(referrals)
+      .values({ referrerId: referrer.id, referredUserId: userId })
+      .returning();
+
+    console.log(`[Referrals] ${userId} joined with the code of ${referrer.id}`);
+    return referral;
+  } catch (error: any) {
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ReferralError("Vous avez déjà utilisé un code de parrainage", 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give both parties their credits when a referred user's first booking is
+ * delivered and paid out to the traveler. Runs in the delivery transaction, so
+ * the reward is granted once. A booking on the referrer's own trip does not
+ * count: the referral stays pending for a later one.
+ * Returns the notifications to push once the transaction has committed.
+ */
+export async function rewardReferral(tx: DbTransaction, booking: Booking): Promise<Notification[]> {
+  if (booking.status !== "delivered" || booking.escrowStatus !== "released") return [];
+
+  const [referral] = await tx
+    .select()
+    .from(referrals)
+    .where(and(eq(referrals.referredUserId, booking.senderId), eq(referrals.status, "pending")))
+    .for("update");
+  if (!referral) return [];
+
+  const [trip] = await tx
+    .select({ travelerId: trips.travelerId })
+    .from(trips)
+    .where(eq(trips.id, booking.tripId));
+  if (!trip || trip.travelerId === referral.referrerId) return [];
+
+  await tx
+    .update(referrals)
+    .set({ status: "rewarded", bookingId: booking.id, rewardedAt: new Date() })
+    .where(eq(referrals.id, referral.id));
+
+  const amount = formatCents(toCents(REFERRAL_REWARD_AMOUNT));
+  await tx.insert(creditTransactions).values(
+    [referral.referrerId, referral.referredUserId].map((userId) => ({
+      userId,
+      type: "referral_reward" as const,
+      amount,
+      bookingId: booking.id,
+      referralId: referral.id,
+    }))
+  );
+
+  const created = await tx.insert(notifications).values([
+    {
+      userId: referral.referrerId,
+      type: "payment",
+      title: "Parrainage récompensé",
+      message: `Le premier envoi de votre filleul a été livré : ${amount}€ de crédit ont été ajoutés à votre compte`,
+    },
+    {
+      userId: referral.referredUserId,
+      type: "payment",
+      title: "Crédit de parrainage",
+      message: `Votre premier envoi est livré : ${amount}€ de crédit ont été ajoutés à votre compte`,
+    },
+  ]).returning();
+
+  console.log(`[Referrals] Referral ${referral.id} rewarded on booking ${booking.id}`);
+  return created;
+}
@@ -2,6 +2,7 @@ import { db } from "../db";
 import { reminders, bookings, users, notifications, InsertReminder } from "@shared/schema";
 import { eq, and, lte } from "drizzle-orm";
 import { sendReminderEmail } from "./email";
+import { pushNotifications } from "./notifications";
 
 interface AppointmentReminders {
   pickupReminders: Array<{ type: "pickup_24h" | "pickup_2h"; scheduledFor: Date }>;
@@ -44,48 +45,75 @@ export function calculateReminderTimes(
   return reminderTimes;
 }
 
+type PendingReminder = Omit<InsertReminder, "status" | "notificationMethod"> & {
+  status: "pending";
+  notificationMethod: "both";
+};
+
 /**
- * Schedule reminders for a booking's appointments
+ * Build the reminder rows for a booking's appointments without inserting them
+ * Lets callers insert reminders as part of a larger transaction
  */
-export async function scheduleAppointmentReminders(
+export function buildAppointmentReminders(
   bookingId: string,
   senderId: string,
   travelerId: string,
   pickupDateTime: Date | null,
   deliveryDateTime: Date | null
-): Promise<void> {
-  try {
-    const remindersToCreate: Array<Omit<InsertReminder, "status" | "notificationMethod"> & { status: "pending"; notificationMethod: "both" }> = [];
+): PendingReminder[] {
+  const remindersToCreate: PendingReminder[] = [];
 
-    // Schedule pickup reminders (sender)
-    if (pickupDateTime) {
-      const pickupTimes = calculateReminderTimes(pickupDateTime, "pickup");
-      pickupTimes.forEach((reminder) => {
-        remindersToCreate.push({
-          bookingId,
-          userId: senderId,
-          type: reminder.type as "pickup_24h" | "pickup_2h",
-          scheduledFor: reminder.scheduledFor,
-          status: "pending" as const,
-          notificationMethod: "both" as const,
-        });
+  // Schedule pickup reminders (sender)
+  if (pickupDateTime) {
+    const pickupTimes = calculateReminderTimes(pickupDateTime, "pickup");
+    pickupTimes.forEach((reminder) => {
+      remindersToCreate.push({
+        bookingId,
+        userId: senderId,
+        type: reminder.type as "pickup_24h" | "pickup_2h",
+        scheduledFor: reminder.scheduledFor,
+        status: "pending" as const,
+        notificationMethod: "both" as const,
       });
-    }
+    });
+  }
 
-    // Schedule delivery reminders (traveler)
-    if (deliveryDateTime) {
-      const deliveryTimes = calculateReminderTimes(deliveryDateTime, "delivery");
-      deliveryTimes.forEach((reminder) => {
-        remindersToCreate.push({
-          bookingId,
-          userId: travelerId,
-          type: reminder.type as "delivery_24h" | "delivery_2h",
-          scheduledFor: reminder.scheduledFor,
-          status: "pending" as const,
-          notificationMethod: "both" as const,
-        });
+  // Schedule delivery reminders (traveler)
+  if (deliveryDateTime) {
+    const deliveryTimes = calculateReminderTimes(deliveryDateTime, "delivery");
+    deliveryTimes.forEach((reminder) => {
+      remindersToCreate.push({
+        bookingId,
+        userId: travelerId,
+        type: reminder.type as "delivery_24h" | "delivery_2h",
+        scheduledFor: reminder.scheduledFor,
+        status: "pending" as const,
+        notificationMethod: "both" as const,
       });
-    }
+    });
+  }
+
+  return remindersToCreate;
+}
+
+/**
+ * Schedule reminders for a booking's appointments
+ */
+export async function scheduleAppointmentReminders(
+  bookingId: string,
+  senderId: string,
+  travelerId: string,
+  pickupDateTime: Date | null,
+  deliveryDateTime: Date | null
+): Promise<void> {
+  try {
+    const remindersToCreate = buildAppointmentReminders(
+      bookingId,
+      senderId,
+      travelerId,
+      pickupDateTime,
+      deliveryDateTime
+    );
 
     if (remindersToCreate.length > 0) {
       await db.insert(reminders).values(remindersToCreate);
@@ -236,8 +264,7 @@ async function processSingleReminder(
 
       if (notification) {
         inAppSent = true;
-        // TODO: Broadcast via WebSocket when user is online
-        // broadcastToUser(user.id, { type: "notification", data: notification });
+        await pushNotifications([notification]);
       }
     }
 
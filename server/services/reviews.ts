@@ -0,0 +1,208 @@
+import { db } from "../db";
+import {
+  bookings,
+  reviews,
+  users,
+  type Booking,
+  type Review,
+  type Trip,
+} from "@shared/schema";
+import { and, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import type { DbTransaction } from "./booking-lifecycle";
+import { createNotification } from "./notifications";
+
+/**
+ * How long after delivery both parties can leave a review.
+ * Configurable via REVIEW_WINDOW_DAYS (defaults to 14 days). Reviews still
+ * hidden when the window closes are published by the cron job.
+ */
+export const REVIEW_WINDOW_DAYS = parseInt(
+  process.env.REVIEW_WINDOW_DAYS || "14",
+  10
+);
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "ReviewError";
+    Object.setPrototypeOf(this, ReviewError.prototype);
+  }
+}
+
+/**
+ * When the review window of a delivered booking closes
+ */
+export function getReviewDeadline(booking: Booking): Date | null {
+  const deliveredAt = booking.deliveredAt || (booking.status === "delivered" ? booking.updatedAt : null);
+  if (!deliveredAt) return null;
+
+  const deadline = new Date(deliveredAt);
+  deadline.setDate(deadline.getDate() + REVIEW_WINDOW_DAYS);
+  return deadline;
+}
+
+/**
+ * Recompute a user's average rating and review count from their published reviews
+ */
+async function recalculateUserRating(
+  tx: DbTransaction,
+  userId: string
+): Promise<void> {
+  const [stats] = await tx
+    .select({
+      average: sql<string | null>`AVG(${reviews.rating})`,
+      count: sql<number>`COUNT(*)::int`,
+    })
+    .from(reviews)
+    .where(
+      and(
+        eq(reviews.revieweeId, userId),
+        sql`${reviews.publishedAt} IS NOT NULL`
+      )
+    );
+
+  await tx
+    .update(users)
+    .set({
+      rating: Number(stats?.average || 0).toFixed(2),
+      reviewCount: stats?.count || 0,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Leave a review on a delivered booking
+ *
+ * The review stays hidden until the other party has reviewed too, at which
+ * point both are published and both users' ratings are recalculated.
+ */
+export async function submitReview(params: {
+  booking: Booking;
+  trip: Trip;
+  reviewerId: string;
+  rating: number;
+  comment: string | null;
+}): Promise<Review> {
+  const { booking, trip, reviewerId, rating, comment } = params;
+
+  if (booking.status !== "delivered") {
+    throw new ReviewError("Vous pourrez laisser un avis une fois le colis livré");
+  }
+
+  const deadline = getReviewDeadline(booking);
+  if (deadline && deadline < new Date()) {
+    throw new ReviewError("Le délai pour laisser un avis est dépassé");
+  }
+
+  const isTraveler = trip.travelerId === reviewerId;
+  const revieweeId = isTraveler ? booking.senderId : trip.travelerId;
+
+  try {
+    const review = await db.transaction(async (tx) => {
+      // Both parties reviewing at once must see each other's review, or
+      // neither would publish
+      await tx
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(eq(bookings.id, booking.id))
+        .for("update");
+
+      const [created] = await tx
+        .insert(reviews)
+        .values({
+          bookingId: booking.id,
+          reviewerId,
+          revieweeId,
+          reviewerRole: isTraveler ? "traveler" : "sender",
+          rating,
+          comment,
+        })
+        .returning();
+
+      const bookingReviews = await tx
+        .select()
+        .from(reviews)
+        .where(eq(reviews.bookingId, booking.id));
+
+      if (bookingReviews.length < 2) {
+        return created;
+      }
+
+      // Both parties have reviewed: publish both
+      const now = new Date();
+      await tx
+        .update(reviews)
+        .set({ publishedAt: now })
+        .where(and(eq(reviews.bookingId, booking.id), isNull(reviews.publishedAt)));
+
+      for (const bookingReview of bookingReviews) {
+        await recalculateUserRating(tx, bookingReview.revieweeId);
+      }
+
+      return { ...created, publishedAt: now };
+    });
+
+    await createNotification({
+      userId: revieweeId,
+      type: "booking",
+      title: review.publishedAt ? "Nouvel avis publié" : "Vous avez reçu un avis",
+      message: review.publishedAt
+        ? "Les avis sur votre dernière livraison sont maintenant visibles"
+        : "Laissez votre avis à votre tour pour découvrir celui que vous avez reçu",
+      relatedId: booking.id,
+    });
+
+    return review;
+  } catch (error: any) {
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ReviewError("Vous avez déjà laissé un avis pour cette réservation", 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Publish reviews whose review window has closed without the other party reviewing
+ * This function is called periodically by the cron job
+ */
+export async function publishExpiredReviews(): Promise<void> {
+  try {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - REVIEW_WINDOW_DAYS);
+
+    const hidden = await db
+      .select({ id: reviews.id, revieweeId: reviews.revieweeId })
+      .from(reviews)
+      .innerJoin(bookings, eq(reviews.bookingId, bookings.id))
+      .where(
+        and(
+          isNull(reviews.publishedAt),
+          lte(sql`COALESCE(${bookings.deliveredAt}, ${bookings.updatedAt})`, cutoff)
+        )
+      );
+
+    console.log(`[Reviews] Found ${hidden.length} reviews past their window`);
+    if (hidden.length === 0) return;
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(reviews)
+        .set({ publishedAt: new Date() })
+        .where(inArray(reviews.id, hidden.map((review) => review.id)));
+
+      const revieweeIds = Array.from(new Set(hidden.map((review) => review.revieweeId)));
+      for (const revieweeId of revieweeIds) {
+        await recalculateUserRating(tx, revieweeId);
+      }
+    });
+  } catch (error) {
+    console.error("[Reviews] Error publishing expired reviews:", error);
+  }
+}
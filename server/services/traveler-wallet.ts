@@ -0,0 +1,357 @@
+import { db } from "../db";
+import {
+  bookings,
+  ledgerEntries,
+  payouts,
+  trips,
+  users,
+  type Booking,
+  type Payout,
+} from "@shared/schema";
+import { and, desc, eq, inArray, lt, sql } from "drizzle-orm";
+import type { DbTransaction } from "./booking-lifecycle";
+import { move, postLedgerTransaction } from "./escrow-ledger";
+import { formatCents, splitEscrowAmount, toCents } from "./pricing";
+import { PAYMENT_CURRENCY } from "./payment-provider";
+import {
+  getPayoutProvider,
+  PayoutProviderError,
+  type PayoutResult,
+} from "./payout-provider";
+
+/**
+ * Smallest payout a traveler can request.
+ * Configurable via MINIMUM_PAYOUT_AMOUNT (defaults to 20€).
+ */
+export const MINIMUM_PAYOUT_AMOUNT = parseFloat(process.env.MINIMUM_PAYOUT_AMOUNT || "20");
+
+export class PayoutError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "PayoutError";
+    Object.setPrototypeOf(this, PayoutError.prototype);
+  }
+}
+
+export interface WalletBooking {
+  bookingId: string;
+  status: Booking["status"];
+  escrowStatus: Booking["escrowStatus"];
+  price: string;
+  departureCity: string;
+  destinationCity: string;
+  departureDate: Date;
+  pending: string;
+  available: string;
+  paidOut: string;
+}
+
+export interface Wallet {
+  currency: string;
+  pending: string;
+  available: string;
+  paidOut: string;
+  minimumPayout: string;
+  bookings: WalletBooking[];
+}
+
+export interface PayoutWithBookings extends Payout {
+  bookings: { bookingId: string; amount: string; departureCity: string; destinationCity: string }[];
+}
+
+/**
+ * Ledger balances of every booking on the traveler's trips, in cents:
+ * held in escrow, payable to the traveler, and paid out (payouts still in
+ * progress included; failed ones are reversed in the ledger)
+ */
+async function getBookingBalances(executor: typeof db | DbTransaction, travelerId: string) {
+  const signed = (account: string) =>
+    sql<string>`coalesce(sum(case when ${ledgerEntries.account} = ${account} then case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end else 0 end), 0)`;
+
+  const rows = await executor
+    .select({
+      bookingId: bookings.id,
+      status: bookings.status,
+      escrowStatus: bookings.escrowStatus,
+      price: bookings.price,
+      serviceFee: bookings.serviceFee,
+      taxAmount: bookings.taxAmount,
+      discountAmount: bookings.discountAmount,
+      creditAmount: bookings.creditAmount,
+      departureCity: trips.departureCity,
+      destinationCity: trips.destinationCity,
+      departureDate: trips.departureDate,
+      held: signed("escrow"),
+      available: signed("traveler_payable"),
+      paidOut: sql<string>`coalesce(sum(case when ${ledgerEntries.entryType} = 'payout' and ${ledgerEntries.account} = 'traveler_payable' then case when ${ledgerEntries.direction} = 'debit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end else 0 end), 0)`,
+    })
+    .from(ledgerEntries)
+    .innerJoin(bookings, eq(bookings.id, ledgerEntries.bookingId))
+    .innerJoin(trips, eq(trips.id, bookings.tripId))
+    .where(eq(trips.travelerId, travelerId))
+    .groupBy(bookings.id, trips.id)
+    .orderBy(desc(trips.departureDate));
+
+  return rows.map((row) => ({
+    ...row,
+    held: toCents(row.held),
+    available: toCents(row.available),
+    paidOut: toCents(row.paidOut),
+  }));
+}
+
+/**
+ * A traveler's earnings: still held in escrow (net of the service fee),
+ * available for payout and already paid out, with the bookings they come from
+ */
+export async function getWallet(travelerId: string): Promise<Wallet> {
+  const balances = await getBookingBalances(db, travelerId);
+
+  let pending = 0;
+  let available = 0;
+  let paidOut = 0;
+  const walletBookings: WalletBooking[] = balances.map((balance) => {
+    const bookingPending = splitEscrowAmount(balance, balance.held).travelerCents;
+    pending += bookingPending;
+    available += balance.available;
+    paidOut += balance.paidOut;
+
+    return {
+      bookingId: balance.bookingId,
+      status: balance.status,
+      escrowStatus: balance.escrowStatus,
+      price: balance.price,
+      departureCity: balance.departureCity,
+      destinationCity: balance.destinationCity,
+      departureDate: balance.departureDate,
+      pending: formatCents(bookingPending),
+      available: formatCents(balance.available),
+      paidOut: formatCents(balance.paidOut),
+    };
+  });
+
+  return {
+    currency: PAYMENT_CURRENCY,
+    pending: formatCents(pending),
+    available: formatCents(available),
+    paidOut: formatCents(paidOut),
+    minimumPayout: MINIMUM_PAYOUT_AMOUNT.toFixed(2),
+    bookings: walletBookings,
+  };
+}
+
+/**
+ * Payouts of a traveler, newest first, with the bookings each one paid
+ */
+export async function getPayoutHistory(travelerId: string): Promise<PayoutWithBookings[]> {
+  const history = await db
+    .select()
+    .from(payouts)
+    .where(eq(payouts.travelerId, travelerId))
+    .orderBy(desc(payouts.createdAt));
+
+  if (history.length === 0) return [];
+
+  const allocations = await db
+    .select({
+      payoutId: ledgerEntries.payoutId,
+      bookingId: ledgerEntries.bookingId,
+      amount: ledgerEntries.amount,
+      departureCity: trips.departureCity,
+      destinationCity: trips.destinationCity,
+    })
+    .from(ledgerEntries)
+    .innerJoin(bookings, eq(bookings.id, ledgerEntries.bookingId))
+    .innerJoin(trips, eq(trips.id, bookings.tripId))
+    .where(
+      and(
+        inArray(ledgerEntries.payoutId, history.map((payout) => payout.id)),
+        eq(ledgerEntries.account, "traveler_payable"),
+        eq(ledgerEntries.direction, "debit")
+      )
+    );
+
+  return history.map((payout) => ({
+    ...payout,
+    bookings: allocations
+      .filter((allocation) => allocation.payoutId === payout.id)
+      .map(({ payoutId, ...allocation }) => allocation),
+  }));
+}
+
+/**
+ * How long a payout can stay "pending" before the retry job picks it up. A
+ * payout still pending after that was interrupted before its outcome was
+ * recorded.
+ */
+const PAYOUT_RETRY_AFTER_MINUTES = 10;
+
+/**
+ * Pay out the traveler's whole available balance. The payout is taken from
+ * each booking's payable balance in the ledger, so it reconciles booking by
+ * booking. If the provider rejects the transfer, the entries are reversed and
+ * the money becomes available again; if its outcome is unknown, the payout is
+ * returned still "pending" and settled later by retryPendingPayouts.
+ */
+export async function requestPayout(travelerId: string): Promise<Payout> {
+  const provider = getPayoutProvider();
+
+  const payout = await db.transaction(async (tx) => {
+    // One payout request at a time per traveler
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, travelerId)).for("update");
+
+    const balances = (await getBookingBalances(tx, travelerId)).filter(
+      (balance) => balance.available > 0
+    );
+    const total = balances.reduce((sum, balance) => sum + balance.available, 0);
+
+    if (total < toCents(MINIMUM_PAYOUT_AMOUNT)) {
+      throw new PayoutError(
+        `Le montant minimum pour un virement est de ${MINIMUM_PAYOUT_AMOUNT.toFixed(2)}€`
+      );
+    }
+
+    const [created] = await tx
+      .insert(payouts)
+      .values({
+        travelerId,
+        amount: formatCents(total),
+        currency: PAYMENT_CURRENCY,
+        provider: provider.name,
+      })
+      .returning();
+
+    for (const balance of balances) {
+      await postLedgerTransaction(
+        tx,
+        balance.bookingId,
+        move("payout", "traveler_payable", "provider_cash", balance.available),
+        { payoutId: created.id }
+      );
+    }
+
+    return created;
+  });
+
+  const sent = await sendPayout(payout);
+  if (sent.status === "failed") {
+    throw new PayoutError("Le virement n'a pas pu être effectué, réessayez plus tard", 502);
+  }
+  return sent;
+}
+
+/**
+ * Send a pending payout to the provider, keyed by the payout ID so a retry
+ * never pays twice, and record the outcome. Only a PayoutProviderError means
+ * the transfer did not go through: the payout is then marked failed and its
+ * ledger entries are reversed. After any other error (timeout, network) the
+ * money may have left, so the payout stays "pending" for retryPendingPayouts.
+ */
+async function sendPayout(payout: Payout): Promise<Payout> {
+  const provider = getPayoutProvider();
+
+  let result: PayoutResult;
+  try {
+    result = await provider.payout({
+      travelerId: payout.travelerId,
+      amount: payout.amount,
+      currency: payout.currency,
+      idempotencyKey: payout.id,
+    });
+  } catch (error: any) {
+    if (!(error instanceof PayoutProviderError)) {
+      console.error(`[Payouts] Outcome of payout ${payout.id} to traveler ${payout.travelerId} unknown:`, error);
+      return payout;
+    }
+
+    console.error(`[Payouts] Payout ${payout.id} to traveler ${payout.travelerId} failed:`, error);
+    return await reversePayout(payout, error.message);
+  }
+
+  const [paid] = await db
+    .update(payouts)
+    .set({
+      status: "paid",
+      providerReference: result.reference,
+      paidAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(payouts.id, payout.id), eq(payouts.status, "pending")))
+    .returning();
+  if (!paid) return getPayout(payout.id);
+
+  console.log(`[Payouts] Paid ${paid.amount}€ to traveler ${paid.travelerId} (${paid.id})`);
+  return paid;
+}
+
+// Mark a rejected payout failed and give its money back to the bookings it came from
+async function reversePayout(payout: Payout, failureReason: string): Promise<Payout> {
+  return await db.transaction(async (tx) => {
+    const [failed] = await tx
+      .update(payouts)
+      .set({
+        status: "failed",
+        failureReason,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(payouts.id, payout.id), eq(payouts.status, "pending")))
+      .returning();
+    if (!failed) return getPayout(payout.id);
+
+    // What the payout took from each booking
+    const allocations = await tx
+      .select({ bookingId: ledgerEntries.bookingId, amount: ledgerEntries.amount })
+      .from(ledgerEntries)
+      .where(
+        and(
+          eq(ledgerEntries.payoutId, payout.id),
+          eq(ledgerEntries.account, "traveler_payable"),
+          eq(ledgerEntries.direction, "debit")
+        )
+      );
+
+    for (const allocation of allocations) {
+      await postLedgerTransaction(
+        tx,
+        allocation.bookingId,
+        move("payout", "provider_cash", "traveler_payable", toCents(allocation.amount)),
+        { payoutId: payout.id }
+      );
+    }
+
+    return failed;
+  });
+}
+
+async function getPayout(payoutId: string): Promise<Payout> {
+  const [payout] = await db.select().from(payouts).where(eq(payouts.id, payoutId));
+  return payout;
+}
+
+/**
+ * Send again the payouts left "pending" by an interruption, with the same
+ * idempotency key: the ones the provider already made are recorded as paid,
+ * the others are made now or reversed if the provider rejects them.
+ * This function is called periodically by the cron job
+ */
+export async function retryPendingPayouts(): Promise<void> {
+  const cutoff = new Date(Date.now() - PAYOUT_RETRY_AFTER_MINUTES * 60 * 1000);
+  const stale = await db
+    .select()
+    .from(payouts)
+    .where(and(eq(payouts.status, "pending"), lt(payouts.updatedAt, cutoff)));
+
+  console.log(`[Payouts] Found ${stale.length} stale pending payouts`);
+
+  for (const payout of stale) {
+    try {
+      const sent = await sendPayout(payout);
+      console.log(`[Payouts] Retried payout ${payout.id}: ${sent.status}`);
+    } catch (error) {
+      console.error(`[Payouts] Failed to retry payout ${payout.id}:`, error);
+    }
+  }
+}
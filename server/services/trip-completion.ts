@@ -0,0 +1,140 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import { trips, users, type Booking, type Trip } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { isTerminalStatus } from "./booking-lifecycle";
+import { declineBookingRequest } from "./booking-requests";
+import { createNotification } from "./notifications";
+
+export const DEPARTED_DECLINE_REASON =
+  "Demande expirée : le voyage est parti avant que le voyageur ne l'accepte";
+
+/**
+ * Mark a trip completed and update the traveler and sender counters
+ *
+ * The status update is conditional on the trip still being active, so the
+ * counters are only ever incremented once per trip.
+ */
+async function completeTrip(trip: Trip, tripBookings: Booking[]): Promise<boolean> {
+  const delivered = tripBookings.filter((booking) => booking.status === "delivered");
+
+  return await db.transaction(async (tx) => {
+    const [completed] = await tx
+      .update(trips)
+      .set({ status: "completed", completedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(trips.id, trip.id), eq(trips.status, "active")))
+      .returning();
+
+    if (!completed) {
+      return false;
+    }
+
+    // A trip only counts for the traveler if at least one parcel was delivered
+    if (delivered.length > 0) {
+      await tx
+        .update(users)
+        .set({
+          totalTripsAsTravel: sql`COALESCE(${users.totalTripsAsTravel}, 0) + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, trip.travelerId));
+    }
+
+    // Each delivered parcel counts once for its sender
+    const deliveriesBySender = new Map<string, number>();
+    for (const booking of delivered) {
+      deliveriesBySender.set(
+        booking.senderId,
+        (deliveriesBySender.get(booking.senderId) || 0) + 1
+      );
+    }
+    for (const [senderId, count] of Array.from(deliveriesBySender)) {
+      await tx
+        .update(users)
+        .set({
+          totalTripsAsSender: sql`COALESCE(${users.totalTripsAsSender}, 0) + ${count}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, senderId));
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Flag a trip whose bookings are still open after arrival, once
+ */
+async function flagTripForFollowUp(trip: Trip, openBookings: Booking[]): Promise<void> {
+  const [flagged] = await db
+    .update(trips)
+    .set({ followUpFlaggedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(trips.id, trip.id), sql`${trips.followUpFlaggedAt} IS NULL`))
+    .returning();
+
+  if (!flagged) return;
+
+  console.warn(
+    `[Trip Completion] Trip ${trip.id} arrived with ${openBookings.length} open booking(s): ${openBookings.map((b) => b.id).join(", ")}`
+  );
+
+  await createNotification({
+    userId: trip.travelerId,
+    type: "status_update",
+    title: "Livraisons en attente",
+    message: `Votre voyage ${trip.departureCity} → ${trip.destinationCity} est arrivé mais ${openBookings.length} colis n'ont pas encore été livrés`,
+    relatedId: trip.id,
+  });
+}
+
+/**
+ * Close departed trips and complete the ones that have arrived
+ * This function is called periodically by the cron job
+ *
+ * - Once a trip departs, requests the traveler never accepted are declined
+ * - Once it arrives, it is completed if every booking is finished, otherwise
+ *   it is flagged for follow-up
+ */
+export async function processDepartedTrips(): Promise<void> {
+  try {
+    const now = new Date();
+    const departedTrips = await storage.getDepartedActiveTrips(now);
+
+    console.log(`[Trip Completion] Found ${departedTrips.length} departed active trips`);
+
+    for (const trip of departedTrips) {
+      try {
+        let tripBookings = await storage.getTripBookings(trip.id);
+
+        const pending = tripBookings.filter((booking) => booking.status === "pending");
+        for (const booking of pending) {
+          await declineBookingRequest(
+            booking.id,
+            trip.travelerId,
+            DEPARTED_DECLINE_REASON,
+            "system"
+          );
+        }
+        if (pending.length > 0) {
+          tripBookings = await storage.getTripBookings(trip.id);
+        }
+
+        if (new Date(trip.arrivalDate) > now) continue;
+
+        const openBookings = tripBookings.filter((booking) => !isTerminalStatus(booking.status));
+        if (openBookings.length > 0) {
+          await flagTripForFollowUp(trip, openBookings);
+          continue;
+        }
+
+        if (await completeTrip(trip, tripBookings)) {
+          console.log(`[Trip Completion] Completed trip ${trip.id}`);
+        }
+      } catch (error) {
+        console.error(`[Trip Completion] Error processing trip ${trip.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Trip Completion] Error processing departed trips:", error);
+  }
+}
@@ -0,0 +1,238 @@
+import { db } from "../db";
+import { bookings, trips, type Booking, type Trip } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import {
+  announceBookingCancellation,
+  recordBookingCancellation,
+  type CancellationQuote,
+} from "./booking-cancellation";
+import { announceBookingDecline, recordBookingDecline } from "./booking-requests";
+
+// Bookings that still hold weight on the trip
+const ACTIVE_BOOKING_STATUSES: Booking["status"][] = [
+  "pending",
+  "confirmed",
+  "picked_up",
+  "in_transit",
+  "arrived",
+];
+
+// Once the parcel is with the traveler the trip can no longer be cancelled
+const IN_PROGRESS_BOOKING_STATUSES: Booking["status"][] = [
+  "picked_up",
+  "in_transit",
+  "arrived",
+];
+
+export class TripUpdateError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 409,
+    public readonly conflictingBookingIds: string[] = []
+  ) {
+    super(message);
+    this.name = "TripUpdateError";
+    Object.setPrototypeOf(this, TripUpdateError.prototype);
+  }
+}
+
+export interface TripChanges {
+  departureDate?: Date;
+  arrivalDate?: Date;
+  maxWeight?: number;
+  pricePerKg?: number;
+  maxDimensions?: string | null;
+  acceptedItems?: string | null;
+  restrictedItems?: string | null;
+}
+
+function isActiveBooking(booking: Booking): boolean {
+  return ACTIVE_BOOKING_STATUSES.includes(booking.status);
+}
+
+/**
+ * Update a trip without invalidating its existing bookings
+ *
+ * The trip row is locked while the changes are checked against its active
+ * bookings: the new dates must still contain every pickup and delivery
+ * appointment, and the new maximum weight must cover what is already booked.
+ * Existing bookings keep the price they were created with.
+ */
+export async function updateTrip(tripId: string, changes: TripChanges): Promise<Trip> {
+  return await db.transaction(async (tx) => {
+    const [trip] = await tx
+      .select()
+      .from(trips)
+      .where(eq(trips.id, tripId))
+      .for("update");
+
+    if (!trip) {
+      throw new TripUpdateError("Trip not found", 404);
+    }
+
+    if (trip.status !== "active") {
+      throw new TripUpdateError("Seuls les voyages actifs peuvent être modifiés");
+    }
+
+    const departureDate = changes.departureDate ?? new Date(trip.departureDate);
+    const arrivalDate = changes.arrivalDate ?? new Date(trip.arrivalDate);
+
+    if (arrivalDate < departureDate) {
+      throw new TripUpdateError(
+        "La date d'arrivée doit être après la date de départ",
+        400
+      );
+    }
+
+    const activeBookings = (
+      await tx.select().from(bookings).where(eq(bookings.tripId, tripId))
+    ).filter(isActiveBooking);
+
+    // Appointments must stay between departure and arrival (same rule as booking creation)
+    if (changes.departureDate || changes.arrivalDate) {
+      const conflicting = activeBookings.filter((booking) =>
+        [booking.pickupDateTime, booking.deliveryDateTime].some(
+          (date) =>
+            date && (new Date(date) < departureDate || new Date(date) > arrivalDate)
+        )
+      );
+
+      if (conflicting.length > 0) {
+        throw new TripUpdateError(
+          `Ces dates invalident les rendez-vous de ${conflicting.length} réservation(s). Modifiez d'abord les rendez-vous avec les expéditeurs concernés.`,
+          409,
+          conflicting.map((booking) => booking.id)
+        );
+      }
+    }
+
+    let availableWeight = trip.availableWeight;
+    if (changes.maxWeight !== undefined) {
+      const bookedWeight = activeBookings.reduce(
+        (total, booking) => total + Number(booking.weight),
+        0
+      );
+
+      if (changes.maxWeight < bookedWeight) {
+        throw new TripUpdateError(
+          `Le poids maximum ne peut pas être inférieur au poids déjà réservé (${bookedWeight}kg)`
+        );
+      }
+
+      availableWeight = (changes.maxWeight - bookedWeight).toFixed(2);
+    }
+
+    const [updated] = await tx
+      .update(trips)
+      .set({
+        departureDate,
+        arrivalDate,
+        ...(changes.maxWeight !== undefined && {
+          maxWeight: changes.maxWeight.toFixed(2),
+          availableWeight,
+        }),
+        ...(changes.pricePerKg !== undefined && {
+          pricePerKg: changes.pricePerKg.toFixed(2),
+        }),
+        ...(changes.maxDimensions !== undefined && { maxDimensions: changes.maxDimensions }),
+        ...(changes.acceptedItems !== undefined && { acceptedItems: changes.acceptedItems }),
+        ...(changes.restrictedItems !== undefined && { restrictedItems: changes.restrictedItems }),
+        updatedAt: new Date(),
+      })
+      .where(eq(trips.id, tripId))
+      .returning();
+
+    return updated;
+  });
+}
+
+/**
+ * Cancel a trip and every booking on it
+ *
+ * Pending requests are declined and confirmed bookings are cancelled, both
+ * with a full refund to the sender. The trip and its bookings are locked in
+ * one transaction, so no booking can be made, accepted or handed over while
+ * it runs; if any booking cannot be closed, nothing is. Refunds, messages and
+ * notifications go out once it has committed.
+ */
+export async function cancelTrip(
+  trip: Trip,
+  reason: string | null
+): Promise<{ trip: Trip; cancelledBookings: number }> {
+  const bookingReason = reason
+    ? `Voyage annulé : ${reason}`
+    : "Le voyageur a annulé son voyage";
+
+  const { cancelledTrip, declined, cancelled } = await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(trips)
+      .where(eq(trips.id, trip.id))
+      .for("update");
+
+    if (!locked) {
+      throw new TripUpdateError("Trip not found", 404);
+    }
+
+    if (locked.status !== "active") {
+      throw new TripUpdateError("Seuls les voyages actifs peuvent être annulés");
+    }
+
+    const tripBookings = await tx
+      .select()
+      .from(bookings)
+      .where(eq(bookings.tripId, trip.id))
+      .for("update");
+
+    const inProgress = tripBookings.filter((booking) =>
+      IN_PROGRESS_BOOKING_STATUSES.includes(booking.status)
+    );
+    if (inProgress.length > 0) {
+      throw new TripUpdateError(
+        "Impossible d'annuler un voyage dont certains colis ont déjà été remis",
+        409,
+        inProgress.map((booking) => booking.id)
+      );
+    }
+
+    const declined: Booking[] = [];
+    const cancelled: { booking: Booking; quote: CancellationQuote }[] = [];
+    for (const booking of tripBookings.filter(isActiveBooking)) {
+      if (booking.status === "pending") {
+        declined.push(await recordBookingDecline(tx, booking.id, locked.travelerId, bookingReason));
+      } else {
+        cancelled.push(
+          await recordBookingCancellation(tx, booking.id, locked, locked.travelerId, "traveler", bookingReason)
+        );
+      }
+    }
+
+    const [cancelledTrip] = await tx
+      .update(trips)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(eq(trips.id, trip.id))
+      .returning();
+
+    return { cancelledTrip, declined, cancelled };
+  });
+
+  for (const booking of declined) {
+    try {
+      await announceBookingDecline(booking, cancelledTrip.travelerId, bookingReason);
+    } catch (error) {
+      console.error(`[Trips] Error announcing declined booking ${booking.id} for trip ${trip.id}:`, error);
+    }
+  }
+  for (const { booking, quote } of cancelled) {
+    try {
+      await announceBookingCancellation(booking, cancelledTrip, cancelledTrip.travelerId, quote, bookingReason);
+    } catch (error) {
+      console.error(`[Trips] Error announcing cancelled booking ${booking.id} for trip ${trip.id}:`, error);
+    }
+  }
+
+  const cancelledBookings = declined.length + cancelled.length;
+  console.log(`[Trips] Cancelled trip ${trip.id} and ${cancelledBookings} booking(s)`);
+
+  return { trip: cancelledTrip, cancelledBookings };
+}
@@ -2,17 +2,24 @@ import {
   users,
   trips,
   bookings,
+  bookingEvents,
+  reviews,
+  identityVerifications,
   messages,
   messageAttachments,
+  messageEvents,
   notifications,
   blockedUsers,
   messageReports,
+  moderationActions,
   type User,
   type UpsertUser,
   type Trip,
   type InsertTrip,
   type Booking,
-  type InsertBooking,
+  type BookingEvent,
+  type Review,
+  type IdentityVerification,
   type Message,
   type InsertMessage,
   type MessageAttachment,
@@ -23,9 +30,25 @@ import {
   type InsertBlockedUser,
   type MessageReport,
   type InsertMessageReport,
+  type ModerationAction,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, sql, gte, lte } from "drizzle-orm";
+import { getMessageExpiry } from "./services/message-retention";
+import { getThreadId } from "./services/conversation-threads";
+import { eq, and, or, desc, asc, sql, gt, gte, lt, lte, ne, inArray, notInArray, isNull } from "drizzle-orm";
+
+// Users currently banned or serving a suspension
+function restrictedUserIds(now: Date) {
+  return db
+    .select({ id: users.id })
+    .from(users)
+    .where(
+      or(
+        eq(users.accountStatus, "banned"),
+        and(eq(users.accountStatus, "suspended"), gt(users.suspendedUntil, now))
+      )
+    );
+}
 
 export interface IStorage {
   // User operations (Required for Replit Auth)
@@ -41,23 +64,24 @@ export interface IStorage {
     destination?: string;
     maxPrice?: number;
     minWeight?: number;
+    verifiedOnly?: boolean;
   }): Promise<Trip[]>;
   getRecentTrips(limit?: number): Promise<Trip[]>;
+  getDepartedActiveTrips(now: Date): Promise<Trip[]>;
   updateTripStatus(id: string, status: string): Promise<Trip | undefined>;
 
   // Booking operations
-  createBooking(booking: InsertBooking): Promise<Booking>;
   getBooking(id: string): Promise<Booking | undefined>;
   getUserBookings(userId: string): Promise<Booking[]>;
   getTripBookings(tripId: string): Promise<Booking[]>;
-  updateBookingStatus(
-    id: string,
-    status: string
-  ): Promise<Booking | undefined>;
+  getOverduePendingBookings(now: Date): Promise<Booking[]>;
+  getOverdueUnpaidBookings(now: Date): Promise<Booking[]>;
+  getBookingEvents(bookingId: string): Promise<BookingEvent[]>;
   updateBookingEscrowStatus(
     id: string,
     escrowStatus: string
   ): Promise<Booking | undefined>;
+  setBookingLegalHold(id: string, legalHold: boolean): Promise<Booking | undefined>;
   confirmPickupAppointment(
     bookingId: string,
     userId: string
@@ -77,22 +101,34 @@ export interface IStorage {
     userId: string
   ): Promise<Booking | undefined>;
 
+  // Review operations
+  getBookingReviews(bookingId: string): Promise<Review[]>;
+  getPublishedUserReviews(userId: string, limit?: number): Promise<Review[]>;
+
+  // Identity verification operations
+  getIdentityVerification(id: string): Promise<IdentityVerification | undefined>;
+  getLatestUserVerification(userId: string): Promise<IdentityVerification | undefined>;
+  getVerificationsByStatus(status: string): Promise<IdentityVerification[]>;
+
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessageByClientMessageId(senderId: string, clientMessageId: string): Promise<Message | undefined>;
   getBookingMessages(bookingId: string): Promise<Message[]>;
   getUserConversations(userId: string): Promise<any[]>;
   getConversationMessages(
     userId: string,
     otherUserId: string,
-    options?: { limit?: number; offset?: number }
+    bookingId: string | null,
+    options?: { limit?: number; before?: string }
   ): Promise<Message[]>;
-  markMessagesAsRead(userId: string, senderId: string): Promise<void>;
+  searchMessages(userId: string, query: string, limit?: number): Promise<any[]>;
 
   // Message attachment operations
   createMessageAttachment(
     attachment: InsertMessageAttachment
   ): Promise<MessageAttachment>;
   getMessageAttachments(messageId: string): Promise<MessageAttachment[]>;
+  getAttachmentsForMessages(messageIds: string[]): Promise<MessageAttachment[]>;
 
   // User blocking operations
   blockUser(blockerId: string, blockedId: string, reason?: string): Promise<BlockedUser>;
@@ -104,6 +140,13 @@ export interface IStorage {
   reportMessage(report: InsertMessageReport): Promise<MessageReport>;
   getMessageReports(messageId: string): Promise<MessageReport[]>;
   getUserReports(userId: string): Promise<MessageReport[]>;
+  getMessageReport(id: string): Promise<MessageReport | undefined>;
+  getReports(filters: { status?: string; category?: string }): Promise<MessageReport[]>;
+  getMessage(id: string): Promise<Message | undefined>;
+  getMessageContext(message: Message, radius?: number): Promise<Message[]>;
+
+  // Moderation operations
+  getUserModerationActions(userId: string): Promise<ModerationAction[]>;
 
   // Notification operations
   createNotification(notification: InsertNotification): Promise<Notification>;
@@ -160,8 +203,16 @@ export class DatabaseStorage implements IStorage {
     destination?: string;
     maxPrice?: number;
     minWeight?: number;
+    verifiedOnly?: boolean;
   }): Promise<Trip[]> {
-    const conditions = [eq(trips.status, "active")];
+    // Trips that have already departed can no longer be booked, and trips of
+    // suspended or banned travelers are hidden
+    const now = new Date();
+    const conditions = [
+      eq(trips.status, "active"),
+      gt(trips.departureDate, now),
+      notInArray(trips.travelerId, restrictedUserIds(now)),
+    ];
 
     if (filters.departure) {
       conditions.push(
@@ -179,6 +230,14 @@ export class DatabaseStorage implements IStorage {
     if (filters.minWeight) {
       conditions.push(gte(trips.availableWeight, filters.minWeight.toString()));
     }
+    if (filters.verifiedOnly) {
+      conditions.push(
+        inArray(
+          trips.travelerId,
+          db.select({ id: users.id }).from(users).where(eq(users.isVerified, true))
+        )
+      );
+    }
 
     return await db
       .select()
@@ -188,14 +247,29 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getRecentTrips(limit: number = 10): Promise<Trip[]> {
+    const now = new Date();
     return await db
       .select()
       .from(trips)
-      .where(eq(trips.status, "active"))
+      .where(
+        and(
+          eq(trips.status, "active"),
+          gt(trips.departureDate, now),
+          notInArray(trips.travelerId, restrictedUserIds(now))
+        )
+      )
       .orderBy(desc(trips.createdAt))
       .limit(limit);
   }
 
+  async getDepartedActiveTrips(now: Date): Promise<Trip[]> {
+    return await db
+      .select()
+      .from(trips)
+      .where(and(eq(trips.status, "active"), lte(trips.departureDate, now)))
+      .orderBy(asc(trips.departureDate));
+  }
+
   async updateTripStatus(
     id: string,
     status: string
@@ -209,41 +283,6 @@ export class DatabaseStorage implements IStorage {
   }
 
   // ========== Booking Operations ==========
-  async createBooking(bookingData: InsertBooking): Promise<Booking> {
-    const initialHistory: Array<{
-      timestamp: string;
-      actor: string;
-      action: string;
-      changes: Record<string, any>;
-    }> = [];
-
-    if (bookingData.pickupLocation || bookingData.pickupDateTime) {
-      initialHistory.push({
-        timestamp: new Date().toISOString(),
-        actor: bookingData.senderId,
-        action: "created",
-        changes: {
-          pickupLocation: bookingData.pickupLocation,
-          pickupDateTime: bookingData.pickupDateTime?.toISOString(),
-          deliveryLocation: bookingData.deliveryLocation,
-          deliveryDateTime: bookingData.deliveryDateTime?.toISOString(),
-        },
-      });
-    }
-
-    const [booking] = await db
-      .insert(bookings)
-      .values({
-        ...bookingData,
-        pickupPIN: Math.floor(100000 + Math.random() * 900000).toString(),
-        deliveryPIN: Math.floor(100000 + Math.random() * 900000).toString(),
-        appointmentHistory: initialHistory as any,
-        // status defaults to "pending" per schema
-      })
-      .returning();
-    return booking;
-  }
-
   async getBooking(id: string): Promise<Booking | undefined> {
     const [booking] = await db
       .select()
@@ -268,25 +307,58 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(bookings.createdAt));
   }
 
-  async updateBookingStatus(
+  async getOverduePendingBookings(now: Date): Promise<Booking[]> {
+    return await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.status, "pending"),
+          ne(bookings.escrowStatus, "payment_pending"),
+          lte(bookings.responseDeadline, now)
+        )
+      )
+      .orderBy(bookings.responseDeadline);
+  }
+
+  async getOverdueUnpaidBookings(now: Date): Promise<Booking[]> {
+    return await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.status, "pending"),
+          eq(bookings.escrowStatus, "payment_pending"),
+          lte(bookings.paymentDeadline, now)
+        )
+      )
+      .orderBy(bookings.paymentDeadline);
+  }
+
+  async getBookingEvents(bookingId: string): Promise<BookingEvent[]> {
+    return await db
+      .select()
+      .from(bookingEvents)
+      .where(eq(bookingEvents.bookingId, bookingId))
+      .orderBy(bookingEvents.createdAt);
+  }
+
+  async updateBookingEscrowStatus(
     id: string,
-    status: string
+    escrowStatus: string
   ): Promise<Booking | undefined> {
     const [booking] = await db
       .update(bookings)
-      .set({ status: status as any, updatedAt: new Date() })
+      .set({ escrowStatus: escrowStatus as any, updatedAt: new Date() })
       .where(eq(bookings.id, id))
       .returning();
     return booking;
   }
 
-  async updateBookingEscrowStatus(
-    id: string,
-    escrowStatus: string
-  ): Promise<Booking | undefined> {
+  async setBookingLegalHold(id: string, legalHold: boolean): Promise<Booking | undefined> {
     const [booking] = await db
       .update(bookings)
-      .set({ escrowStatus: escrowStatus as any, updatedAt: new Date() })
+      .set({ legalHold, updatedAt: new Date() })
       .where(eq(bookings.id, id))
       .returning();
     return booking;
@@ -398,12 +470,89 @@ export class DatabaseStorage implements IStorage {
     return booking;
   }
 
+  // ========== Review Operations ==========
+  async getBookingReviews(bookingId: string): Promise<Review[]> {
+    return await db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.bookingId, bookingId))
+      .orderBy(reviews.createdAt);
+  }
+
+  async getPublishedUserReviews(userId: string, limit: number = 10): Promise<Review[]> {
+    return await db
+      .select()
+      .from(reviews)
+      .where(
+        and(
+          eq(reviews.revieweeId, userId),
+          sql`${reviews.publishedAt} IS NOT NULL`
+        )
+      )
+      .orderBy(desc(reviews.publishedAt))
+      .limit(limit);
+  }
+
+  // ========== Identity Verification Operations ==========
+  async getIdentityVerification(id: string): Promise<IdentityVerification | undefined> {
+    const [verification] = await db
+      .select()
+      .from(identityVerifications)
+      .where(eq(identityVerifications.id, id));
+    return verification;
+  }
+
+  async getLatestUserVerification(userId: string): Promise<IdentityVerification | undefined> {
+    const [verification] = await db
+      .select()
+      .from(identityVerifications)
+      .where(eq(identityVerifications.userId, userId))
+      .orderBy(desc(identityVerifications.createdAt))
+      .limit(1);
+    return verification;
+  }
+
+  async getVerificationsByStatus(status: string): Promise<IdentityVerification[]> {
+    return await db
+      .select()
+      .from(identityVerifications)
+      .where(eq(identityVerifications.status, status as any))
+      .orderBy(identityVerifications.createdAt);
+  }
+
   // ========== Message Operations ==========
   async createMessage(messageData: InsertMessage): Promise<Message> {
+    const expiresAt = await getMessageExpiry([messageData.senderId, messageData.receiverId]);
+
+    return await db.transaction(async (tx) => {
+      const [message] = await tx
+        .insert(messages)
+        .values({ ...messageData, expiresAt })
+        .returning();
+
+      await tx.insert(messageEvents).values({
+        messageId: message.id,
+        userId: message.senderId,
+        eventType: "sent",
+      });
+
+      return message;
+    });
+  }
+
+  async getMessageByClientMessageId(
+    senderId: string,
+    clientMessageId: string
+  ): Promise<Message | undefined> {
     const [message] = await db
-      .insert(messages)
-      .values(messageData)
-      .returning();
+      .select()
+      .from(messages)
+      .where(
+        and(
+          eq(messages.senderId, senderId),
+          eq(messages.clientMessageId, clientMessageId)
+        )
+      );
     return message;
   }
 
@@ -416,85 +565,168 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserConversations(userId: string): Promise<any[]> {
-    // Get unique users this user has messaged with
-    const sentMessages = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.senderId, userId))
-      .orderBy(desc(messages.createdAt));
-
-    const receivedMessages = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.receiverId, userId))
-      .orderBy(desc(messages.createdAt));
-
-    const allMessages = [...sentMessages, ...receivedMessages];
-    const userIds = new Set<string>();
-    const conversations = new Map();
-
-    for (const msg of allMessages) {
-      const otherId =
-        msg.senderId === userId ? msg.receiverId : msg.senderId;
-      if (!userIds.has(otherId)) {
-        userIds.add(otherId);
-        conversations.set(otherId, {
-          userId: otherId,
-          lastMessage: msg.content,
-          unreadCount: 0,
-          bookingId: msg.bookingId,
-        });
-      }
-    }
-
-    // Count unread messages
-    for (const [userId, conv] of Array.from(conversations.entries())) {
-      const unreadCount = receivedMessages.filter(
-        (m) => m.senderId === userId && !m.isRead
-      ).length;
-      conv.unreadCount = unreadCount;
-    }
-
-    return Array.from(conversations.values());
+    const otherUserId = sql<string>`CASE WHEN ${messages.senderId} = ${userId} THEN ${messages.receiverId} ELSE ${messages.senderId} END`;
+    const thread = sql`PARTITION BY ${otherUserId}, ${messages.bookingId}`;
+
+    // Every message this user can still see, ranked within its thread
+    const threadMessages = db.$with("thread_messages").as(
+      db
+        .select({
+          otherUserId: otherUserId.as("other_user_id"),
+          bookingId: messages.bookingId,
+          content: messages.content,
+          deletedAt: messages.deletedAt,
+          createdAt: messages.createdAt,
+          position: sql<number>`ROW_NUMBER() OVER (${thread} ORDER BY ${messages.createdAt} DESC, ${messages.id} DESC)`.as("position"),
+          unreadCount: sql<number>`COUNT(*) FILTER (WHERE ${messages.receiverId} = ${userId} AND ${messages.isRead} = false) OVER (${thread})`.as("unread_count"),
+        })
+        .from(messages)
+        .where(
+          or(
+            and(eq(messages.senderId, userId), isNull(messages.deletedForSenderAt)),
+            and(eq(messages.receiverId, userId), isNull(messages.deletedForReceiverAt))
+          )
+        )
+    );
+
+    // One row per thread: its last message, with the other user and trip context
+    const rows = await db
+      .with(threadMessages)
+      .select({
+        otherUserId: threadMessages.otherUserId,
+        bookingId: threadMessages.bookingId,
+        content: threadMessages.content,
+        deletedAt: threadMessages.deletedAt,
+        createdAt: threadMessages.createdAt,
+        unreadCount: threadMessages.unreadCount,
+        user: users,
+        booking: {
+          id: bookings.id,
+          status: bookings.status,
+          weight: bookings.weight,
+        },
+        trip: {
+          id: trips.id,
+          departureCity: trips.departureCity,
+          destinationCity: trips.destinationCity,
+          departureDate: trips.departureDate,
+          arrivalDate: trips.arrivalDate,
+        },
+      })
+      .from(threadMessages)
+      .innerJoin(users, eq(users.id, threadMessages.otherUserId))
+      .leftJoin(bookings, eq(bookings.id, threadMessages.bookingId))
+      .leftJoin(trips, eq(trips.id, bookings.tripId))
+      .where(eq(threadMessages.position, 1))
+      .orderBy(desc(threadMessages.createdAt));
+
+    return rows.map((row) => ({
+      threadId: getThreadId(userId, row.otherUserId, row.bookingId),
+      userId: row.otherUserId,
+      bookingId: row.bookingId,
+      lastMessage: row.deletedAt ? null : row.content,
+      lastMessageAt: row.createdAt,
+      unreadCount: Number(row.unreadCount),
+      user: row.user,
+      booking: row.booking ?? undefined,
+      trip: row.trip ?? undefined,
+    }));
   }
 
   async getConversationMessages(
     userId: string,
     otherUserId: string,
-    options?: { limit?: number; offset?: number }
+    bookingId: string | null,
+    options?: { limit?: number; before?: string }
   ): Promise<Message[]> {
-    const { limit = 50, offset = 0 } = options || {};
+    const { limit = 50, before } = options || {};
     
-    return await db
+    // Newest first from the cursor; skip messages the user deleted for themselves
+    const page = await db
       .select()
       .from(messages)
       .where(
-        or(
-          and(
-            eq(messages.senderId, userId),
-            eq(messages.receiverId, otherUserId)
+        and(
+          bookingId ? eq(messages.bookingId, bookingId) : isNull(messages.bookingId),
+          or(
+            and(
+              eq(messages.senderId, userId),
+              eq(messages.receiverId, otherUserId),
+              isNull(messages.deletedForSenderAt)
+            ),
+            and(
+              eq(messages.senderId, otherUserId),
+              eq(messages.receiverId, userId),
+              isNull(messages.deletedForReceiverAt)
+            )
           ),
-          and(
-            eq(messages.senderId, otherUserId),
-            eq(messages.receiverId, userId)
-          )
+          before
+            ? sql`(${messages.createdAt}, ${messages.id}) < (SELECT created_at, id FROM messages WHERE id = ${before})`
+            : undefined
         )
       )
-      .orderBy(messages.createdAt)
-      .limit(limit)
-      .offset(offset);
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(limit);
+
+    // Returned oldest first, as displayed
+    return page.reverse();
   }
 
-  async markMessagesAsRead(userId: string, senderId: string): Promise<void> {
-    await db
-      .update(messages)
-      .set({ isRead: true })
+  async searchMessages(userId: string, query: string, limit = 50): Promise<any[]> {
+    // The "simple" configuration keeps addresses, names and numbers as typed
+    const tsQuery = sql`websearch_to_tsquery('simple', ${query})`;
+    const document = sql`to_tsvector('simple', ${messages.content})`;
+    const otherUserId = sql<string>`CASE WHEN ${messages.senderId} = ${userId} THEN ${messages.receiverId} ELSE ${messages.senderId} END`;
+
+    // Blocks hide the conversation both ways
+    const blockedIds = db
+      .select({ id: blockedUsers.blockedId })
+      .from(blockedUsers)
+      .where(eq(blockedUsers.blockerId, userId));
+    const blockerIds = db
+      .select({ id: blockedUsers.blockerId })
+      .from(blockedUsers)
+      .where(eq(blockedUsers.blockedId, userId));
+
+    const rows = await db
+      .select({
+        message: messages,
+        otherUserId,
+        // Matches are wrapped in STX/ETX control characters, never in HTML
+        headline: sql<string>`ts_headline('simple', ${messages.content}, ${tsQuery}, ${"StartSel=\u0002, StopSel=\u0003, MinWords=10, MaxWords=30"})`,
+        user: users,
+        trip: {
+          id: trips.id,
+          departureCity: trips.departureCity,
+          destinationCity: trips.destinationCity,
+          departureDate: trips.departureDate,
+          arrivalDate: trips.arrivalDate,
+        },
+      })
+      .from(messages)
+      .innerJoin(users, eq(users.id, otherUserId))
+      .leftJoin(bookings, eq(bookings.id, messages.bookingId))
+      .leftJoin(trips, eq(trips.id, bookings.tripId))
       .where(
         and(
-          eq(messages.receiverId, userId),
-          eq(messages.senderId, senderId)
+          sql`${document} @@ ${tsQuery}`,
+          isNull(messages.deletedAt),
+          or(
+            and(eq(messages.senderId, userId), isNull(messages.deletedForSenderAt)),
+            and(eq(messages.receiverId, userId), isNull(messages.deletedForReceiverAt))
+          ),
+          notInArray(otherUserId, blockedIds),
+          notInArray(otherUserId, blockerIds)
         )
-      );
+      )
+      .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(messages.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      ...row,
+      threadId: getThreadId(userId, row.otherUserId, row.message.bookingId),
+      trip: row.trip ?? undefined,
+    }));
   }
 
   // ========== Message Attachment Operations ==========
@@ -515,6 +747,14 @@ export class DatabaseStorage implements IStorage {
       .where(eq(messageAttachments.messageId, messageId));
   }
 
+  async getAttachmentsForMessages(messageIds: string[]): Promise<MessageAttachment[]> {
+    if (messageIds.length === 0) return [];
+    return await db
+      .select()
+      .from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, messageIds));
+  }
+
   // ========== User Blocking Operations ==========
   async blockUser(
     blockerId: string,
@@ -595,6 +835,82 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(messageReports.createdAt));
   }
 
+  async getMessageReport(id: string): Promise<MessageReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(messageReports)
+      .where(eq(messageReports.id, id));
+    return report;
+  }
+
+  async getReports(filters: {
+    status?: string;
+    category?: string;
+  }): Promise<MessageReport[]> {
+    const conditions = [];
+
+    if (filters.status) {
+      conditions.push(eq(messageReports.status, filters.status as any));
+    }
+    if (filters.category) {
+      conditions.push(eq(messageReports.category, filters.category as any));
+    }
+
+    return await db
+      .select()
+      .from(messageReports)
+      .where(and(...conditions))
+      .orderBy(desc(messageReports.createdAt));
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, id));
+    return message;
+  }
+
+  // Messages exchanged between the same two users around a given message
+  async getMessageContext(message: Message, radius = 5): Promise<Message[]> {
+    const betweenParticipants = or(
+      and(
+        eq(messages.senderId, message.senderId),
+        eq(messages.receiverId, message.receiverId)
+      ),
+      and(
+        eq(messages.senderId, message.receiverId),
+        eq(messages.receiverId, message.senderId)
+      )
+    );
+    const sentAt = message.createdAt ?? new Date();
+
+    const before = await db
+      .select()
+      .from(messages)
+      .where(and(betweenParticipants, lt(messages.createdAt, sentAt)))
+      .orderBy(desc(messages.createdAt))
+      .limit(radius);
+
+    const after = await db
+      .select()
+      .from(messages)
+      .where(and(betweenParticipants, gt(messages.createdAt, sentAt)))
+      .orderBy(asc(messages.createdAt))
+      .limit(radius);
+
+    return [...before.reverse(), message, ...after];
+  }
+
+  // ========== Moderation Operations ==========
+  async getUserModerationActions(userId: string): Promise<ModerationAction[]> {
+    return await db
+      .select()
+      .from(moderationActions)
+      .where(eq(moderationActions.userId, userId))
+      .orderBy(desc(moderationActions.createdAt));
+  }
+
   // ========== Notification Operations ==========
   async createNotification(
     notificationData: InsertNotification
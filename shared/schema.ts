@@ -10,6 +10,8 @@ import {
   index,
   jsonb,
   boolean,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -41,6 +43,18 @@ export const users = pgTable("users", {
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0"),
   totalTripsAsTravel: integer("total_trips_as_traveler").default(0),
   totalTripsAsSender: integer("total_trips_as_sender").default(0),
+  reviewCount: integer("review_count").default(0),
+  role: varchar("role", { enum: ["user", "admin"] })
+    .notNull()
+    .default("user"),
+  accountStatus: varchar("account_status", {
+    enum: ["active", "suspended", "banned"],
+  })
+    .notNull()
+    .default("active"),
+  suspendedUntil: timestamp("suspended_until"), // A suspension past this date no longer applies
+  restrictionReason: text("restriction_reason"),
+  referralCode: varchar("referral_code").unique(), // Shared with friends, created the first time it is asked for
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -69,6 +83,8 @@ export const trips = pgTable("trips", {
   status: varchar("status", { enum: ["active", "completed", "cancelled"] })
     .notNull()
     .default("active"),
+  completedAt: timestamp("completed_at"),
+  followUpFlaggedAt: timestamp("follow_up_flagged_at"), // Set when bookings are still open after arrival
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -78,6 +94,8 @@ export const insertTripSchema = createInsertSchema(trips).omit({
   createdAt: true,
   updatedAt: true,
   status: true,
+  completedAt: true,
+  followUpFlaggedAt: true,
 });
 
 export type InsertTrip = z.infer<typeof insertTripSchema>;
@@ -100,25 +118,44 @@ export const bookings = pgTable("bookings", {
   senderPhone: varchar("sender_phone"),
   pickupAddress: text("pickup_address"),
   deliveryAddress: text("delivery_address"),
-  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Total paid by the sender
+  // Price breakdown, set by the server (null on bookings made before it existed)
+  travelerEarnings: decimal("traveler_earnings", { precision: 10, scale: 2 }),
+  serviceFee: decimal("service_fee", { precision: 10, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }), // VAT on the service fee
+  // Taken off the price and funded by the platform (null when none applied)
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }), // Promo code
+  creditAmount: decimal("credit_amount", { precision: 10, scale: 2 }), // Sender's referral credits
   status: varchar("status", {
-    enum: ["pending", "confirmed", "picked_up", "in_transit", "arrived", "delivered", "cancelled"],
+    enum: ["pending", "confirmed", "declined", "picked_up", "in_transit", "arrived", "delivered", "cancelled"],
   })
     .notNull()
     .default("pending"),
   pickupPIN: varchar("pickup_pin", { length: 6 }),
   deliveryPIN: varchar("delivery_pin", { length: 6 }),
   escrowStatus: varchar("escrow_status", {
-    enum: ["held", "released", "refunded"],
+    enum: ["payment_pending", "held", "released", "refunded"],
   })
     .notNull()
-    .default("held"),
+    .default("payment_pending"), // Held once the sender's charge succeeds
   pickupLocation: text("pickup_location"),
   pickupDateTime: timestamp("pickup_datetime"),
   deliveryLocation: text("delivery_location"),
   deliveryDateTime: timestamp("delivery_datetime"),
   pickupConfirmedAt: timestamp("pickup_confirmed_at"),
   deliveryConfirmedAt: timestamp("delivery_confirmed_at"),
+  responseDeadline: timestamp("response_deadline"), // Traveler must accept/decline before this
+  paymentDeadline: timestamp("payment_deadline"), // Cancelled if still unpaid after this
+  respondedAt: timestamp("responded_at"),
+  declineReason: text("decline_reason"),
+  idempotencyKey: varchar("idempotency_key"), // Client-generated, dedupes retried requests
+  deliveredAt: timestamp("delivered_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id, { onDelete: "set null" }),
+  cancellationReason: text("cancellation_reason"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }), // Amount returned to the sender on cancellation
+  moderationFlaggedAt: timestamp("moderation_flagged_at"), // A participant was suspended or banned while the booking was open
+  legalHold: boolean("legal_hold").notNull().default(false), // Set by admins; keeps the booking's messages past their retention
   appointmentHistory: jsonb("appointment_history").$type<Array<{
     timestamp: string;
     actor: string;
@@ -127,7 +164,10 @@ export const bookings = pgTable("bookings", {
   }>>().default(sql`'[]'::jsonb`),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+},
+(table) => [
+  uniqueIndex("IDX_booking_idempotency").on(table.senderId, table.idempotencyKey),
+]);
 
 export const insertBookingSchema = createInsertSchema(bookings, {
   // Use coerce to accept both Date objects and ISO strings
@@ -140,15 +180,380 @@ export const insertBookingSchema = createInsertSchema(bookings, {
   pickupPIN: true,
   deliveryPIN: true,
   escrowStatus: true,
+  travelerEarnings: true,
+  serviceFee: true,
+  taxAmount: true,
+  discountAmount: true,
+  creditAmount: true,
   status: true,
   pickupConfirmedAt: true,
   deliveryConfirmedAt: true,
+  responseDeadline: true,
+  paymentDeadline: true,
+  respondedAt: true,
+  declineReason: true,
+  idempotencyKey: true,
+  deliveredAt: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  cancellationReason: true,
+  refundAmount: true,
+  moderationFlaggedAt: true,
+  legalHold: true,
   appointmentHistory: true,
 });
 
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
 
+// ============================================================================
+// Booking Events table (audit log of every status transition)
+// ============================================================================
+export const bookingEvents = pgTable("booking_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id")
+    .notNull()
+    .references(() => bookings.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status").notNull(),
+  toStatus: varchar("to_status").notNull(),
+  actorId: varchar("actor_id").references(() => users.id, {
+    onDelete: "set null",
+  }), // null when triggered by the system
+  actorRole: varchar("actor_role", {
+    enum: ["sender", "traveler", "system", "admin"],
+  }).notNull(),
+  reason: text("reason"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  index("IDX_booking_event_booking").on(table.bookingId),
+]);
+
+export const insertBookingEventSchema = createInsertSchema(bookingEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBookingEvent = z.infer<typeof insertBookingEventSchema>;
+export type BookingEvent = typeof bookingEvents.$inferSelect;
+
+// ============================================================================
+// Payments table (charges and refunds sent to the payment provider)
+// ============================================================================
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id")
+    .notNull()
+    .references(() => bookings.id),
+  type: varchar("type", { enum: ["charge", "refund"] }).notNull(),
+  chargeId: varchar("charge_id").references((): AnyPgColumn => payments.id), // Refunds only: the charge paid back
+  provider: varchar("provider").notNull(),
+  providerReference: varchar("provider_reference"), // Provider-side ID, set once it accepted the operation
+  paymentMethodId: varchar("payment_method_id"), // Charges only: sent again if the charge has to be retried
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  status: varchar("status", {
+    enum: ["pending", "succeeded", "failed"],
+  })
+    .notNull()
+    .default("pending"),
+  failureReason: text("failure_reason"),
+  attemptCount: integer("attempt_count").notNull().default(0), // Refunds only: times the provider rejected it
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+},
+(table) => [
+  index("IDX_payment_booking").on(table.bookingId),
+]);
+
+export type Payment = typeof payments.$inferSelect;
+
+// ============================================================================
+// Payouts table (traveler earnings sent to their bank account)
+// ============================================================================
+export const payouts = pgTable("payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  travelerId: varchar("traveler_id")
+    .notNull()
+    .references(() => users.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  provider: varchar("provider").notNull(),
+  providerReference: varchar("provider_reference"),
+  status: varchar("status", {
+    enum: ["pending", "paid", "failed"],
+  })
+    .notNull()
+    .default("pending"),
+  failureReason: text("failure_reason"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+},
+(table) => [
+  index("IDX_payout_traveler").on(table.travelerId, table.createdAt),
+]);
+
+export type Payout = typeof payouts.$inferSelect;
+
+// ============================================================================
+// Ledger entries table (double-entry record of the money of each booking)
+// ============================================================================
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Entries posted together share a transaction ID; their debits and credits balance
+  transactionId: varchar("transaction_id").notNull(),
+  bookingId: varchar("booking_id")
+    .notNull()
+    .references(() => bookings.id),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  payoutId: varchar("payout_id").references(() => payouts.id),
+  entryType: varchar("entry_type", {
+    enum: ["charge", "hold", "release", "fee", "tax", "refund", "payout", "promotion"],
+  }).notNull(),
+  account: varchar("account", {
+    enum: ["provider_cash", "sender_funds", "escrow", "traveler_payable", "platform_revenue", "tax_payable", "promotions"],
+  }).notNull(),
+  direction: varchar("direction", { enum: ["debit", "credit"] }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  index("IDX_ledger_booking").on(table.bookingId),
+  index("IDX_ledger_account").on(table.account),
+  index("IDX_ledger_payout").on(table.payoutId),
+]);
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+// ============================================================================
+// Booking documents table (numbered receipts for senders, invoices for travelers)
+// ============================================================================
+
+// What a document shows, frozen when it is issued so it never changes afterwards
+export interface BookingDocumentSnapshot {
+  booking: {
+    id: string;
+    description: string | null;
+    weight: string;
+    deliveredAt: string | null;
+    travelerEarnings: string | null;
+    serviceFee: string | null;
+    taxAmount: string | null;
+    discountAmount: string | null;
+    creditAmount: string | null;
+    price: string;
+    escrowStatus: "payment_pending" | "held" | "released" | "refunded";
+    refundAmount: string | null;
+  };
+  trip: { departureCity: string; destinationCity: string; departureDate: string };
+  sender: { name: string; email: string | null };
+  traveler: { name: string; email: string | null };
+}
+
+export const bookingDocuments = pgTable("booking_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id")
+    .notNull()
+    .references(() => bookings.id),
+  type: varchar("type", { enum: ["receipt", "invoice"] }).notNull(),
+  number: varchar("number").notNull(), // e.g. F-2026-000042, never reused
+  snapshot: jsonb("snapshot").$type<BookingDocumentSnapshot>().notNull(), // What the document shows, frozen when issued
+  issuedAt: timestamp("issued_at").defaultNow(),
+},
+(table) => [
+  uniqueIndex("IDX_booking_document_type").on(table.bookingId, table.type),
+  uniqueIndex("IDX_booking_document_number").on(table.number),
+]);
+
+export type BookingDocument = typeof bookingDocuments.$inferSelect;
+
+// Last number handed out per document type and year, for gapless numbering
+export const documentCounters = pgTable("document_counters", {
+  type: varchar("type", { enum: ["receipt", "invoice"] }).notNull(),
+  year: integer("year").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+},
+(table) => [
+  uniqueIndex("IDX_document_counter").on(table.type, table.year),
+]);
+
+// ============================================================================
+// Promo codes table (discounts senders enter when booking)
+// ============================================================================
+export const promoCodes = pgTable("promo_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").notNull(), // Stored uppercase
+  description: text("description"),
+  discountType: varchar("discount_type", { enum: ["percent", "fixed"] }).notNull(),
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // Percent or euros
+  minOrderAmount: decimal("min_order_amount", { precision: 10, scale: 2 }), // Booking total needed for the code to apply
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  maxUses: integer("max_uses"), // Across all users; null means unlimited
+  perUserLimit: integer("per_user_limit").notNull().default(1),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+},
+(table) => [
+  uniqueIndex("IDX_promo_code").on(table.code),
+]);
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+// One row per booking a promo code was used on; removed if the booking is
+// closed unpaid or fully refunded, which gives the use back
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promoCodeId: varchar("promo_code_id")
+    .notNull()
+    .references(() => promoCodes.id),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  bookingId: varchar("booking_id")
+    .notNull()
+    .references(() => bookings.id, { onDelete: "cascade" }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  uniqueIndex("IDX_promo_redemption_booking").on(table.bookingId),
+  index("IDX_promo_redemption_code_user").on(table.promoCodeId, table.userId),
+]);
+
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+
+// ============================================================================
+// Referrals table (a user who joined with someone else's referral code)
+// ============================================================================
+export const referrals = pgTable("referrals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  referrerId: varchar("referrer_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  referredUserId: varchar("referred_user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  status: varchar("status", { enum: ["pending", "rewarded"] })
+    .notNull()
+    .default("pending"),
+  bookingId: varchar("booking_id").references(() => bookings.id, { onDelete: "set null" }), // First delivered booking of the referred user
+  rewardedAt: timestamp("rewarded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  uniqueIndex("IDX_referral_referred_user").on(table.referredUserId),
+  index("IDX_referral_referrer").on(table.referrerId),
+]);
+
+export type Referral = typeof referrals.$inferSelect;
+
+// ============================================================================
+// Credit transactions table (referral credits earned and spent on bookings)
+// ============================================================================
+export const creditTransactions = pgTable("credit_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { enum: ["referral_reward", "booking", "refund"] }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Negative when spent
+  bookingId: varchar("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  referralId: varchar("referral_id").references(() => referrals.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  index("IDX_credit_transaction_user").on(table.userId),
+]);
+
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+
+// ============================================================================
+// Reviews table (Sender and traveler rate each other after delivery)
+// ============================================================================
+export const reviews = pgTable("reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id")
+    .notNull()
+    .references(() => bookings.id, { onDelete: "cascade" }),
+  reviewerId: varchar("reviewer_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  revieweeId: varchar("reviewee_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  reviewerRole: varchar("reviewer_role", {
+    enum: ["sender", "traveler"],
+  }).notNull(),
+  rating: integer("rating").notNull(), // 1 to 5
+  comment: text("comment"),
+  publishedAt: timestamp("published_at"), // Hidden until both parties reviewed or the window closed
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  uniqueIndex("IDX_review_booking_reviewer").on(table.bookingId, table.reviewerId),
+  index("IDX_review_reviewee").on(table.revieweeId),
+]);
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().max(1000).optional().nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+  publishedAt: true,
+});
+
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type Review = typeof reviews.$inferSelect;
+
+// ============================================================================
+// Identity Verifications table (ID document + selfie review queue)
+// ============================================================================
+export const identityVerifications = pgTable("identity_verifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  documentType: varchar("document_type", {
+    enum: ["passport", "id_card", "driving_license"],
+  }).notNull(),
+  documentPath: text("document_path").notNull(), // /objects/... (private, reviewers only)
+  selfiePath: text("selfie_path").notNull(),
+  status: varchar("status", {
+    enum: ["pending", "approved", "rejected"],
+  })
+    .notNull()
+    .default("pending"),
+  rejectionReason: text("rejection_reason"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+},
+(table) => [
+  index("IDX_identity_verification_user").on(table.userId),
+  index("IDX_identity_verification_status").on(table.status),
+]);
+
+export const insertIdentityVerificationSchema = createInsertSchema(identityVerifications).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  status: true,
+  rejectionReason: true,
+  reviewedBy: true,
+  reviewedAt: true,
+});
+
+export type InsertIdentityVerification = z.infer<typeof insertIdentityVerificationSchema>;
+export type IdentityVerification = typeof identityVerifications.$inferSelect;
+
 // ============================================================================
 // Messages table (Enhanced with read receipts and status)
 // ============================================================================
@@ -168,17 +573,26 @@ export const messages = pgTable("messages", {
     enum: ["sending", "sent", "delivered", "seen", "failed"],
   })
     .notNull()
-    .default("sending"),
+    .default("sent"), // "sending" and "failed" only exist client-side
   isRead: boolean("is_read").default(false),
   readAt: timestamp("read_at"),
   deliveredAt: timestamp("delivered_at"),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // Deleted for everyone; content is cleared
+  deletedForSenderAt: timestamp("deleted_for_sender_at"), // Hidden from the sender only
+  deletedForReceiverAt: timestamp("deleted_for_receiver_at"), // Hidden from the receiver only
+  clientMessageId: varchar("client_message_id"), // Client-generated, dedupes messages resent after a reconnect
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at"), // For message expiration
 },
 (table) => [
   index("IDX_message_expires").on(table.expiresAt),
-  index("IDX_message_sender").on(table.senderId),
-  index("IDX_message_receiver").on(table.receiverId),
+  uniqueIndex("IDX_message_client_id").on(table.senderId, table.clientMessageId),
+  // Serve the conversation list and history pages newest first
+  index("IDX_message_sender").on(table.senderId, table.createdAt),
+  index("IDX_message_receiver").on(table.receiverId, table.createdAt),
+  // Full-text search over a user's messages (see searchMessages)
+  index("IDX_message_content_search").using("gin", sql`to_tsvector('simple', ${table.content})`),
 ]);
 
 export const insertMessageSchema = createInsertSchema(messages).omit({
@@ -188,6 +602,10 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   status: true,
   readAt: true,
   deliveredAt: true,
+  editedAt: true,
+  deletedAt: true,
+  deletedForSenderAt: true,
+  deletedForReceiverAt: true,
   expiresAt: true,
 });
 
@@ -267,6 +685,7 @@ export const messageReports = pgTable("message_reports", {
     onDelete: "set null",
   }),
   reviewedAt: timestamp("reviewed_at"),
+  resolutionNote: text("resolution_note"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -276,11 +695,45 @@ export const insertMessageReportSchema = createInsertSchema(messageReports).omit
   status: true,
   reviewedBy: true,
   reviewedAt: true,
+  resolutionNote: true,
 });
 
 export type InsertMessageReport = z.infer<typeof insertMessageReportSchema>;
 export type MessageReport = typeof messageReports.$inferSelect;
 
+// ============================================================================
+// Moderation Actions table (warnings, suspensions and bans issued by admins)
+// ============================================================================
+export const moderationActions = pgTable("moderation_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  actorId: varchar("actor_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  action: varchar("action", {
+    enum: ["warning", "suspension", "ban"],
+  }).notNull(),
+  reason: text("reason").notNull(),
+  reportId: varchar("report_id").references(() => messageReports.id, {
+    onDelete: "set null",
+  }),
+  expiresAt: timestamp("expires_at"), // End of a suspension
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  index("IDX_moderation_action_user").on(table.userId),
+]);
+
+export const insertModerationActionSchema = createInsertSchema(moderationActions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertModerationAction = z.infer<typeof insertModerationActionSchema>;
+export type ModerationAction = typeof moderationActions.$inferSelect;
+
 // ============================================================================
 // User Status table (for online/offline and typing indicators)
 // ============================================================================
@@ -289,7 +742,7 @@ export const userStatus = pgTable("user_status", {
     .primaryKey()
     .references(() => users.id, { onDelete: "cascade" }),
   isOnline: boolean("is_online").default(false),
-  lastSeen: timestamp("last_seen").defaultNow(),
+  lastSeen: timestamp("last_seen").defaultNow(), // Refreshed by the heartbeat while online
   typingTo: varchar("typing_to").references(() => users.id, {
     onDelete: "set null",
   }),
@@ -299,6 +752,35 @@ export const userStatus = pgTable("user_status", {
 
 export type UserStatus = typeof userStatus.$inferSelect;
 
+// ============================================================================
+// User Presence table (one row per user and server instance with a socket open)
+// ============================================================================
+export const userPresence = pgTable("user_presence", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  instanceId: varchar("instance_id").notNull(),
+  heartbeatAt: timestamp("heartbeat_at").notNull().defaultNow(), // Refreshed by that instance while it runs
+},
+(table) => [
+  uniqueIndex("IDX_user_presence_user_instance").on(table.userId, table.instanceId),
+  index("IDX_user_presence_instance").on(table.instanceId),
+]);
+
+// ============================================================================
+// Pub/Sub Payloads table (realtime events too large for a NOTIFY payload)
+// ============================================================================
+export const pubsubPayloads = pgTable("pubsub_payloads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: varchar("channel").notNull(),
+  payload: jsonb("payload").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+},
+(table) => [
+  index("IDX_pubsub_payload_created").on(table.createdAt),
+]);
+
 // ============================================================================
 // User Preferences table
 // ============================================================================
@@ -445,8 +927,17 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   blockingMe: many(blockedUsers, { relationName: "blockingMe" }),
   messageReports: many(messageReports),
   messageEvents: many(messageEvents),
+  moderationActions: many(moderationActions, { relationName: "moderatedUser" }),
+  moderationActionsTaken: many(moderationActions, { relationName: "moderationActor" }),
+  reviewsWritten: many(reviews, { relationName: "reviewsWritten" }),
+  reviewsReceived: many(reviews, { relationName: "reviewsReceived" }),
+  identityVerifications: many(identityVerifications, { relationName: "verificationSubject" }),
+  verificationsReviewed: many(identityVerifications, { relationName: "verificationReviewer" }),
   status: one(userStatus),
   preferences: one(userPreferences),
+  referralsMade: many(referrals, { relationName: "referralsMade" }),
+  referredBy: many(referrals, { relationName: "referredBy" }),
+  creditTransactions: many(creditTransactions),
 }));
 
 export const tripsRelations = relations(trips, ({ one, many }) => ({
@@ -468,6 +959,137 @@ export const bookingsRelations = relations(bookings, ({ one, many }) => ({
   }),
   messages: many(messages),
   reminders: many(reminders),
+  events: many(bookingEvents),
+  reviews: many(reviews),
+  payments: many(payments),
+  ledgerEntries: many(ledgerEntries),
+  promoRedemption: one(promoRedemptions),
+}));
+
+export const bookingEventsRelations = relations(bookingEvents, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingEvents.bookingId],
+    references: [bookings.id],
+  }),
+  actor: one(users, {
+    fields: [bookingEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [payments.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const payoutsRelations = relations(payouts, ({ one, many }) => ({
+  traveler: one(users, {
+    fields: [payouts.travelerId],
+    references: [users.id],
+  }),
+  ledgerEntries: many(ledgerEntries),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [ledgerEntries.bookingId],
+    references: [bookings.id],
+  }),
+  payment: one(payments, {
+    fields: [ledgerEntries.paymentId],
+    references: [payments.id],
+  }),
+  payout: one(payouts, {
+    fields: [ledgerEntries.payoutId],
+    references: [payouts.id],
+  }),
+}));
+
+export const promoCodesRelations = relations(promoCodes, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [promoCodes.createdBy],
+    references: [users.id],
+  }),
+  redemptions: many(promoRedemptions),
+}));
+
+export const promoRedemptionsRelations = relations(promoRedemptions, ({ one }) => ({
+  promoCode: one(promoCodes, {
+    fields: [promoRedemptions.promoCodeId],
+    references: [promoCodes.id],
+  }),
+  user: one(users, {
+    fields: [promoRedemptions.userId],
+    references: [users.id],
+  }),
+  booking: one(bookings, {
+    fields: [promoRedemptions.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const referralsRelations = relations(referrals, ({ one }) => ({
+  referrer: one(users, {
+    fields: [referrals.referrerId],
+    references: [users.id],
+    relationName: "referralsMade",
+  }),
+  referredUser: one(users, {
+    fields: [referrals.referredUserId],
+    references: [users.id],
+    relationName: "referredBy",
+  }),
+  booking: one(bookings, {
+    fields: [referrals.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const creditTransactionsRelations = relations(creditTransactions, ({ one }) => ({
+  user: one(users, {
+    fields: [creditTransactions.userId],
+    references: [users.id],
+  }),
+  booking: one(bookings, {
+    fields: [creditTransactions.bookingId],
+    references: [bookings.id],
+  }),
+  referral: one(referrals, {
+    fields: [creditTransactions.referralId],
+    references: [referrals.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [reviews.bookingId],
+    references: [bookings.id],
+  }),
+  reviewer: one(users, {
+    fields: [reviews.reviewerId],
+    references: [users.id],
+    relationName: "reviewsWritten",
+  }),
+  reviewee: one(users, {
+    fields: [reviews.revieweeId],
+    references: [users.id],
+    relationName: "reviewsReceived",
+  }),
+}));
+
+export const identityVerificationsRelations = relations(identityVerifications, ({ one }) => ({
+  user: one(users, {
+    fields: [identityVerifications.userId],
+    references: [users.id],
+    relationName: "verificationSubject",
+  }),
+  reviewer: one(users, {
+    fields: [identityVerifications.reviewedBy],
+    references: [users.id],
+    relationName: "verificationReviewer",
+  }),
 }));
 
 export const messagesRelations = relations(messages, ({ one, many }) => ({
@@ -525,6 +1147,23 @@ export const messageReportsRelations = relations(messageReports, ({ one }) => ({
   }),
 }));
 
+export const moderationActionsRelations = relations(moderationActions, ({ one }) => ({
+  user: one(users, {
+    fields: [moderationActions.userId],
+    references: [users.id],
+    relationName: "moderatedUser",
+  }),
+  actor: one(users, {
+    fields: [moderationActions.actorId],
+    references: [users.id],
+    relationName: "moderationActor",
+  }),
+  report: one(messageReports, {
+    fields: [moderationActions.reportId],
+    references: [messageReports.id],
+  }),
+}));
+
 export const userStatusRelations = relations(userStatus, ({ one }) => ({
   user: one(users, {
     fields: [userStatus.userId],